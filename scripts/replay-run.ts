@@ -0,0 +1,40 @@
+/**
+ * Replay a story run's recorded choices and diff the resulting game states.
+ *
+ * Usage: npm run runs:replay -- <storyRunId>
+ * The stored step payloads stand in for the provider: each recorded choice is
+ * re-applied with the current game state rules, so no model is called.
+ * Reads NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY from the environment.
+ * Exits with code 1 when the replayed states diverge from the recording.
+ */
+import { StoryRunQueries, StoryStepQueries } from '../src/lib/supabase/queries'
+import { StoryReplay } from '../src/lib/story/story-replay'
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2)
+  const storyRunId = args.find(arg => !arg.startsWith('--'))
+
+  if (!storyRunId) {
+    console.log('Usage: npm run runs:replay -- <storyRunId>')
+    process.exitCode = 1
+    return
+  }
+
+  const storyRun = await StoryRunQueries.getById(storyRunId)
+  if (!storyRun) {
+    console.log(`❌ Story run not found: ${storyRunId}`)
+    process.exitCode = 1
+    return
+  }
+
+  const steps = await StoryStepQueries.getByStoryRunId(storyRunId)
+  const result = StoryReplay.replay(storyRun, steps)
+
+  console.log(StoryReplay.formatReport(result))
+  process.exitCode = result.firstDivergence === null ? 0 : 1
+}
+
+main().catch(error => {
+  console.log(`❌ Replay failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+  process.exitCode = 1
+})
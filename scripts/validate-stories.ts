@@ -0,0 +1,53 @@
+/**
+ * Validate authored story graphs.
+ *
+ * Usage: npm run stories:validate [-- path/to/story.json ...]
+ * With no arguments every story in src/lib/authored/stories is checked.
+ * Exits with code 1 when any story has errors.
+ */
+import fs from 'fs'
+import path from 'path'
+import { StoryGraphValidator } from '../src/lib/authored/story-graph-validator'
+
+const DEFAULT_STORIES_DIR = path.join(__dirname, '..', 'src', 'lib', 'authored', 'stories')
+
+function getStoryFiles(args: string[]): string[] {
+  if (args.length > 0) {
+    return args.map(arg => path.resolve(arg))
+  }
+
+  return fs.readdirSync(DEFAULT_STORIES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.join(DEFAULT_STORIES_DIR, file))
+}
+
+function main(): void {
+  const files = getStoryFiles(process.argv.slice(2))
+  let failed = false
+
+  if (files.length === 0) {
+    console.log('No story files found')
+    return
+  }
+
+  for (const file of files) {
+    const source = path.relative(process.cwd(), file)
+    let graph: unknown
+
+    try {
+      graph = JSON.parse(fs.readFileSync(file, 'utf8'))
+    } catch (error) {
+      console.log(`❌ ${source}: could not read JSON (${error instanceof Error ? error.message : 'unknown error'})`)
+      failed = true
+      continue
+    }
+
+    const report = StoryGraphValidator.validate(graph)
+    console.log(StoryGraphValidator.formatReport(report, source))
+    if (!report.valid) failed = true
+  }
+
+  process.exitCode = failed ? 1 : 0
+}
+
+main()
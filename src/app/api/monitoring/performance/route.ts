@@ -56,6 +56,48 @@ export async function GET() {
       error: systemError?.message
     }
 
+    // Generation attempts whose output failed or needed repair, last 24 hours
+    const failuresStartTime = Date.now()
+    const { data: failures, error: failuresError } = await supabase
+      .from('generation_failures')
+      .select('reason, repaired')
+      .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+
+    metrics.generationFailures = {
+      responseTime: Date.now() - failuresStartTime,
+      status: failuresError ? 'error' : 'success',
+      data: failures ? summarizeGenerationFailures(failures) : null,
+      error: failuresError?.message
+    }
+
+    // Quality scores of steps generated in the last 24 hours
+    const qualityStartTime = Date.now()
+    const { data: scoredSteps, error: qualityError } = await supabase
+      .from('story_steps')
+      .select('quality_score, quality_checks')
+      .not('quality_score', 'is', null)
+      .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+
+    metrics.generationQuality = {
+      responseTime: Date.now() - qualityStartTime,
+      status: qualityError ? 'error' : 'success',
+      data: scoredSteps ? summarizeGenerationQuality(scoredSteps) : null,
+      error: qualityError?.message
+    }
+
+    // Circuit breaker state for each model provider, shared by every edge invocation
+    const circuitsStartTime = Date.now()
+    const { data: circuits, error: circuitsError } = await supabase
+      .from('provider_circuits')
+      .select('provider, status, failure_count, opened_at, last_failure_at, last_success_at, last_error')
+
+    metrics.providerCircuits = {
+      responseTime: Date.now() - circuitsStartTime,
+      status: circuitsError ? 'error' : 'success',
+      data: circuits ? summarizeProviderCircuits(circuits) : null,
+      error: circuitsError?.message
+    }
+
     // Calculate performance scores
     const performanceScore = calculatePerformanceScore(metrics)
     
@@ -88,6 +130,56 @@ export async function GET() {
   }
 }
 
+function summarizeGenerationFailures(failures: { reason: string; repaired: boolean }[]) {
+  const byReason: Record<string, number> = {}
+  failures.forEach(failure => {
+    byReason[failure.reason] = (byReason[failure.reason] || 0) + 1
+  })
+
+  return {
+    total: failures.length,
+    repaired: failures.filter(failure => failure.repaired).length,
+    byReason
+  }
+}
+
+function summarizeGenerationQuality(steps: { quality_score: number | null; quality_checks: any }[]) {
+  const scores = steps.map(step => step.quality_score || 0)
+
+  return {
+    steps: steps.length,
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    regenerated: steps.filter(step => step.quality_checks?.regenerated).length
+  }
+}
+
+function summarizeProviderCircuits(circuits: {
+  provider: string
+  status: string
+  failure_count: number
+  opened_at: string | null
+  last_failure_at: string | null
+  last_success_at: string | null
+  last_error: string | null
+}[]) {
+  const providers: Record<string, any> = {}
+  circuits.forEach(circuit => {
+    providers[circuit.provider] = {
+      status: circuit.status,
+      failureCount: circuit.failure_count,
+      openedAt: circuit.opened_at,
+      lastFailureAt: circuit.last_failure_at,
+      lastSuccessAt: circuit.last_success_at,
+      lastError: circuit.last_error
+    }
+  })
+
+  return {
+    open: circuits.filter(circuit => circuit.status === 'open').map(circuit => circuit.provider),
+    providers
+  }
+}
+
 function calculatePerformanceScore(metrics: Record<string, any>): number {
   let score = 100
   
@@ -120,6 +212,10 @@ function generatePerformanceAlerts(metrics: Record<string, any>, score: number):
       alerts.push(`WARNING: ${key} response time is high (${metric.responseTime}ms)`)
     }
   })
+
+  metrics.providerCircuits?.data?.open.forEach((provider: string) => {
+    alerts.push(`WARNING: ${provider} circuit is open - requests are failing over`)
+  })
   
   return alerts
 }
\ No newline at end of file
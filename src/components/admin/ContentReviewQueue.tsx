@@ -0,0 +1,220 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/auth/AuthProvider'
+import { UserProfileQueries } from '@/lib/supabase/queries'
+import { ContentReportQueries } from '@/lib/moderation'
+import type { ContentReport } from '@/lib/moderation'
+import type { Choice } from '@/types/story'
+
+const REASON_LABELS: Record<string, string> = {
+  inappropriate: 'Inappropriate',
+  violent: 'Violent',
+  sexual: 'Sexual',
+  hateful: 'Hateful',
+  other: 'Other'
+}
+
+export function ContentReviewQueue() {
+  const { user } = useAuth()
+  const [isModerator, setIsModerator] = useState<boolean | null>(null)
+  const [reports, setReports] = useState<ContentReport[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyReportId, setBusyReportId] = useState<string | null>(null)
+  const [selectedSlugs, setSelectedSlugs] = useState<Record<string, string>>({})
+
+  const loadReports = useCallback(async () => {
+    try {
+      setError(null)
+      const openReports = await ContentReportQueries.getOpen()
+      setReports(openReports)
+    } catch (err) {
+      console.error('Error loading content reports:', err)
+      setError('Failed to load content reports')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) {
+      setIsModerator(false)
+      setIsLoading(false)
+      return
+    }
+
+    UserProfileQueries.getById(user.id)
+      .then(profile => {
+        const moderator = profile?.is_moderator === true
+        setIsModerator(moderator)
+        if (moderator) {
+          loadReports()
+        } else {
+          setIsLoading(false)
+        }
+      })
+      .catch(err => {
+        console.error('Error loading moderator profile:', err)
+        setIsModerator(false)
+        setIsLoading(false)
+      })
+  }, [user, loadReports])
+
+  const runAction = async (report: ContentReport, action: (reviewerId: string) => Promise<void>) => {
+    if (!user) return
+
+    try {
+      setBusyReportId(report.id)
+      setError(null)
+      await action(user.id)
+      await loadReports()
+    } catch (err) {
+      console.error('Error reviewing content report:', err)
+      setError(err instanceof Error ? err.message : 'Failed to review content report')
+    } finally {
+      setBusyReportId(null)
+    }
+  }
+
+  // The step's own slug first, then the slugs of the choices it offered
+  const getSlugOptions = (report: ContentReport): string[] => {
+    const choiceSlugs = Array.isArray(report.step?.choices)
+      ? (report.step?.choices as Choice[]).map(choice => choice.slug).filter((slug): slug is string => !!slug)
+      : []
+    const slugs = report.step?.choice_slug ? [report.step.choice_slug, ...choiceSlugs] : choiceSlugs
+    return slugs.filter((slug, index) => slugs.indexOf(slug) === index)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-2">
+            <div className="h-3 bg-gray-200 rounded"></div>
+            <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isModerator) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-600">
+        Only moderators can review reported passages.
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Reported Passages</h3>
+        <div className="flex items-center space-x-2">
+          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            {reports.length} open
+          </span>
+          <button
+            onClick={loadReports}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {reports.length === 0 ? (
+        <p className="text-sm text-gray-500">No open reports.</p>
+      ) : (
+        <div className="space-y-4">
+          {reports.map(report => {
+            const slugOptions = getSlugOptions(report)
+            const selectedSlug = selectedSlugs[report.id] || slugOptions[0]
+            const isBusy = busyReportId === report.id
+
+            return (
+              <div key={report.id} className="border rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+                  <span>
+                    <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 font-medium mr-2">
+                      {REASON_LABELS[report.reason] || report.reason}
+                    </span>
+                    Step {report.step?.step_number ?? '?'}
+                  </span>
+                  <span>{new Date(report.created_at).toLocaleString()}</span>
+                </div>
+
+                <p className="text-sm text-gray-800 whitespace-pre-wrap mb-2">
+                  {report.step?.story_text || 'Step no longer exists'}
+                </p>
+
+                {report.details && (
+                  <p className="text-sm text-gray-600 italic mb-2">&ldquo;{report.details}&rdquo;</p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                  <button
+                    onClick={() => runAction(report, reviewerId => ContentReportQueries.hideStep(report, reviewerId))}
+                    disabled={isBusy || !!report.step?.hidden_at}
+                    className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Hide step
+                  </button>
+
+                  {slugOptions.length > 0 && (
+                    <>
+                      <select
+                        value={selectedSlug}
+                        onChange={(e) => setSelectedSlugs({ ...selectedSlugs, [report.id]: e.target.value })}
+                        className="px-2 py-1 border rounded text-sm"
+                      >
+                        {slugOptions.map(slug => (
+                          <option key={slug} value={slug}>{slug}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => runAction(report, reviewerId => ContentReportQueries.banChoiceSlug(report, selectedSlug, reviewerId))}
+                        disabled={isBusy}
+                        className="px-3 py-1 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 disabled:opacity-50"
+                      >
+                        Ban slug
+                      </button>
+                    </>
+                  )}
+
+                  <button
+                    onClick={() => runAction(report, reviewerId => ContentReportQueries.markFalsePositive(report, reviewerId))}
+                    disabled={isBusy}
+                    className="px-3 py-1 bg-gray-100 text-gray-800 rounded text-sm hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    False positive
+                  </button>
+                  <button
+                    onClick={() => runAction(report, reviewerId => ContentReportQueries.dismiss(report, reviewerId))}
+                    disabled={isBusy}
+                    className="px-3 py-1 text-gray-600 rounded text-sm hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t text-xs text-gray-500">
+        <p>Hidden steps show a placeholder to players. Banned slugs are purged from the generation cache and choice statistics.</p>
+        <p>False positives are kept for tuning the moderation lexicon.</p>
+      </div>
+    </div>
+  )
+}
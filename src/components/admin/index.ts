@@ -1,2 +1,3 @@
+export { ContentReviewQueue } from './ContentReviewQueue'
 export { CronJobMonitor } from './CronJobMonitor'
-export { SystemMonitoringDashboard } from './SystemMonitoringDashboard'
+export { SystemMonitoringDashboard } from './SystemMonitoringDashboard'
\ No newline at end of file
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Lock, Unlock } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useContentSettings } from '@/lib/hooks/useContentSettings'
+import { ContentRatings } from '@/lib/content-rating'
+import type { ContentRating, ContentSettings, ContentTheme } from '@/types/story'
+
+const RATING_OPTIONS: { id: ContentRating; name: string; description: string }[] = [
+  { id: 'kids', name: 'Kids', description: 'Gentle adventures with nothing scary' },
+  { id: 'teen', name: 'Teen', description: 'Danger and conflict without graphic detail' },
+  { id: 'mature', name: 'Mature', description: 'Darker themes and moral ambiguity' }
+]
+
+const THEME_OPTIONS: { id: ContentTheme; name: string; description: string }[] = [
+  { id: 'violence', name: 'Violence', description: 'Fights and combat (needed for Thriller)' },
+  { id: 'romance', name: 'Romance', description: 'Crushes and love stories (needed for Romance)' },
+  { id: 'fear', name: 'Fear', description: 'Scary scenes and monsters (needed for Horror)' }
+]
+
+export function ContentSettingsPanel() {
+  const { settings, locked, loading, error, saveSettings, setGuardianPin } = useContentSettings()
+  const [draft, setDraft] = useState<ContentSettings>(ContentRatings.defaultsFor('teen'))
+  const [pin, setPin] = useState('')
+  const [newPin, setNewPin] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(settings)
+    }
+  }, [settings])
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      setSaving(true)
+      setMessage(null)
+      await action()
+      setMessage({ type: 'success', text: success })
+      setPin('')
+      setNewPin('')
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Something went wrong' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () => run(
+    () => saveSettings(draft, locked ? pin : undefined),
+    'Content settings saved'
+  )
+
+  const handleLock = () => run(
+    () => setGuardianPin(newPin, locked ? pin : undefined),
+    locked ? 'Guardian PIN changed' : 'Settings locked with a guardian PIN'
+  )
+
+  const handleUnlock = () => run(
+    () => setGuardianPin(null, pin),
+    'Guardian lock removed'
+  )
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-2">
+        <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">Content Settings</h4>
+        {locked ? (
+          <span className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded">
+            <Lock className="w-3 h-3" /> Guardian locked
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <Unlock className="w-3 h-3" /> Unlocked
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm bg-red-50 p-3 rounded-md">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {RATING_OPTIONS.map((rating) => (
+          <button
+            key={rating.id}
+            onClick={() => setDraft(ContentRatings.defaultsFor(rating.id))}
+            className={`p-3 rounded-lg border-2 transition-all text-left ${
+              draft.rating === rating.id
+                ? 'border-purple-500 bg-purple-50'
+                : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <div className="text-sm font-medium text-gray-900">{rating.name}</div>
+            <div className="text-xs text-gray-600">{rating.description}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {THEME_OPTIONS.map((theme) => (
+          <label key={theme.id} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft[theme.id]}
+              onChange={(e) => setDraft({ ...draft, [theme.id]: e.target.checked })}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+            />
+            <span>
+              <span className="text-sm font-medium text-gray-900">{theme.name}</span>
+              <span className="block text-xs text-gray-600">{theme.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {locked && (
+        <div>
+          <label htmlFor="guardian-pin" className="block text-xs font-medium text-gray-700 mb-1">
+            Guardian PIN
+          </label>
+          <input
+            id="guardian-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            maxLength={8}
+            className="w-32 p-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+      )}
+
+      <Button size="sm" onClick={handleSave} disabled={saving || (locked && !pin)}>
+        Save settings
+      </Button>
+
+      <div className="pt-3 border-t border-gray-200">
+        <label htmlFor="new-guardian-pin" className="block text-xs font-medium text-gray-700 mb-1">
+          {locked ? 'New guardian PIN' : 'Lock these settings with a guardian PIN (4-8 digits)'}
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            id="new-guardian-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+            maxLength={8}
+            className="w-32 p-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleLock}
+            disabled={saving || !ContentRatings.isValidPin(newPin) || (locked && !pin)}
+          >
+            {locked ? 'Change PIN' : 'Lock'}
+          </Button>
+          {locked && (
+            <Button size="sm" variant="ghost" onClick={handleUnlock} disabled={saving || !pin}>
+              Remove lock
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
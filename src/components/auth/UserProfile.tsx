@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from './AuthProvider'
+import { ContentSettingsPanel } from './ContentSettingsPanel'
 import { UserProfileQueries } from '@/lib/supabase/queries'
 import type { Database } from '@/types/database'
 
@@ -119,6 +120,10 @@ export function UserProfile() {
         </div>
       </div>
 
+      <div className="mt-4 pt-4 border-t border-gray-200">
+        <ContentSettingsPanel />
+      </div>
+
       {profile?.subscription_tier === 'free' && (
         <div className="mt-4 p-3 bg-gradient-to-r from-purple-50 to-blue-50 rounded-md border border-purple-200">
           <h4 className="text-sm font-medium text-purple-900 mb-1">Upgrade to Premium</h4>
@@ -4,3 +4,4 @@ export { AuthModal } from './AuthModal'
 export { SignInForm } from './SignInForm'
 export { SignUpForm } from './SignUpForm'
 export { UserProfile } from './UserProfile'
+export { ContentSettingsPanel } from './ContentSettingsPanel'
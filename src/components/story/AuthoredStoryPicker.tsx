@@ -0,0 +1,57 @@
+'use client'
+
+import { Card, CardContent, CardHeader } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { AuthoredStoryRegistry } from '@/lib/authored/authored-stories'
+import type { AuthoredStory } from '@/types/story'
+
+interface AuthoredStoryPickerProps {
+  onSelect: (story: AuthoredStory) => void
+  loading?: boolean
+}
+
+export function AuthoredStoryPicker({ onSelect, loading = false }: AuthoredStoryPickerProps) {
+  const stories = AuthoredStoryRegistry.list()
+
+  if (stories.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold">📖 Hand-Written Stories</h3>
+        <p className="text-sm text-gray-600">
+          Crafted branching tales by our writers, with fixed endings to discover.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {stories.map(story => {
+            const endingCount = story.nodes.filter(node => node.ending).length
+            return (
+              <div
+                key={story.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-gray-200"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{story.title}</p>
+                  <p className="text-sm text-gray-600">{story.description}</p>
+                  <p className="text-xs text-gray-500 mt-1 capitalize">
+                    {story.genre} • {endingCount} {endingCount === 1 ? 'ending' : 'endings'}
+                    {story.mode === 'hybrid' && ' • ✨ improvised between key scenes'}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => onSelect(story)}
+                  disabled={loading}
+                >
+                  Play
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
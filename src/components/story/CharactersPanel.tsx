@@ -0,0 +1,59 @@
+'use client'
+
+import type { StoryCharacter } from '@/types/story'
+
+interface CharactersPanelProps {
+  characters: StoryCharacter[]
+  relationships?: Record<string, number>
+}
+
+export function CharactersPanel({ characters, relationships = {} }: CharactersPanelProps) {
+  if (characters.length === 0) return null
+
+  const getRelationshipLabel = (value: number) => {
+    if (value >= 50) return { label: 'Devoted', color: 'bg-green-500' }
+    if (value >= 15) return { label: 'Friendly', color: 'bg-green-400' }
+    if (value > -15) return { label: 'Neutral', color: 'bg-gray-400' }
+    if (value > -50) return { label: 'Wary', color: 'bg-orange-400' }
+    return { label: 'Hostile', color: 'bg-red-500' }
+  }
+
+  // Most recently met first
+  const sorted = [...characters].sort((a, b) => b.firstAppearanceStep - a.firstAppearanceStep)
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4">👥 Characters</h3>
+      <div className="space-y-3">
+        {sorted.map(character => {
+          const value = relationships[character.id] ?? 0
+          const { label, color } = getRelationshipLabel(value)
+
+          return (
+            <div key={character.id} className="p-3 rounded-lg border border-gray-200">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium text-gray-900">{character.name}</p>
+                <span className="text-xs text-gray-500">Met at step {character.firstAppearanceStep}</span>
+              </div>
+              {character.bio && (
+                <p className="text-sm text-gray-600 mt-1">{character.bio}</p>
+              )}
+              <div className="flex items-center gap-2 mt-2">
+                {/* Relationship runs from -100 to 100; the bar fills from the left at -100 */}
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${color} transition-all`}
+                    style={{ width: `${(value + 100) / 2}%` }}
+                  />
+                </div>
+                <span className="text-xs text-gray-600 w-24 text-right">
+                  {label} ({value > 0 ? '+' : ''}{value})
+                </span>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { ChoiceStatsQueries } from '@/lib/supabase/queries'
 import type { Database } from '@/types/database'
+import type { Choice } from '@/types/story'
 
 type ChoiceStatistic = Database['public']['Views']['choice_statistics_cached']['Row']
 
@@ -10,6 +11,7 @@ interface ChoiceStatisticsProps {
   choiceSlug: string
   genre: string
   selectedOptionId?: string
+  choices?: Choice[] // The step's choices; statistics are hidden when a moderator banned any of them
   onStatisticsLoaded?: (stats: ChoiceStatistic[]) => void
 }
 
@@ -17,19 +19,24 @@ export function ChoiceStatistics({
   choiceSlug, 
   genre, 
   selectedOptionId,
+  choices,
   onStatisticsLoaded 
 }: ChoiceStatisticsProps) {
   const [statistics, setStatistics] = useState<ChoiceStatistic[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  // Read when loading rather than a dependency, so a new array doesn't reload the statistics
+  const choicesRef = useRef(choices)
+  choicesRef.current = choices
+
   useEffect(() => {
     const loadStatistics = async () => {
       try {
         setIsLoading(true)
         setError(null)
         
-        const stats = await ChoiceStatsQueries.getChoiceStatistics(choiceSlug, genre)
+        const stats = await ChoiceStatsQueries.getChoiceStatistics(choiceSlug, genre, choicesRef.current)
         setStatistics(stats)
         onStatisticsLoaded?.(stats)
       } catch (err) {
@@ -103,6 +110,11 @@ export function ChoiceStatistics({
     )
   }
 
+  // Timed steps: share of players who ran out of time and got the default choice
+  const totalTimeouts = statistics.reduce((sum, stat) => sum + (stat.timeouts || 0), 0)
+  const totalSelections = statistics.reduce((sum, stat) => sum + (stat.selections || 0), 0)
+  const timeoutRate = totalTimeouts > 0 ? totalTimeouts / (totalSelections + totalTimeouts) * 100 : 0
+
   // Find the selected option's statistics
   const selectedStats = selectedOptionId 
     ? statistics.find(stat => stat.option_id === selectedOptionId)
@@ -141,6 +153,12 @@ export function ChoiceStatistics({
         </div>
       )}
 
+      {timeoutRate > 0 && (
+        <div className="text-xs text-orange-700">
+          ⏱️ {timeoutRate.toFixed(1)}% of players ran out of time here
+        </div>
+      )}
+
       {!selectedOptionId && (
         <div className="space-y-1">
           <div className="text-sm font-medium text-gray-700 mb-2">
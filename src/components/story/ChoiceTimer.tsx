@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ProgressBar } from '@/components/ui/ProgressBar'
+
+interface ChoiceTimerProps {
+  seconds: number // The step's full time limit, for the progress bar
+  deadline: string // When the default choice is taken (story_steps.choice_deadline_at)
+  paused?: boolean // Holds off expiring, e.g. while a choice is being processed
+  onExpire: () => void
+}
+
+/**
+ * Counts down to a stored deadline, so reloading the page doesn't restart the clock
+ */
+export function ChoiceTimer({ seconds, deadline, paused = false, onExpire }: ChoiceTimerProps) {
+  const deadlineMs = new Date(deadline).getTime()
+  const [now, setNow] = useState(() => Date.now())
+  const expiredRef = useRef(false)
+  const onExpireRef = useRef(onExpire)
+  onExpireRef.current = onExpire
+
+  // Restart for each new step
+  useEffect(() => {
+    setNow(Date.now())
+    expiredRef.current = false
+  }, [deadlineMs])
+
+  useEffect(() => {
+    if (paused) return
+
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [paused, deadlineMs])
+
+  const remainingMs = Math.max(0, Math.min(seconds * 1000, deadlineMs - now))
+
+  useEffect(() => {
+    if (remainingMs > 0 || paused || expiredRef.current) return
+
+    expiredRef.current = true
+    onExpireRef.current()
+  }, [remainingMs, paused])
+
+  const remainingSeconds = Math.ceil(remainingMs / 1000)
+  const isUrgent = remainingMs <= Math.min(5000, seconds * 1000 / 3)
+
+  return (
+    <div className="mb-4" role="timer" aria-live="polite">
+      <div className="flex justify-between items-center mb-1">
+        <span className={`text-sm font-medium ${isUrgent ? 'text-red-600' : 'text-gray-700'}`}>
+          ⏱️ Decide quickly
+        </span>
+        <span className={`text-sm font-semibold ${isUrgent ? 'text-red-600 animate-pulse' : 'text-gray-600'}`}>
+          {remainingSeconds}s
+        </span>
+      </div>
+      <ProgressBar
+        value={remainingMs}
+        max={seconds * 1000}
+        color={isUrgent ? 'red' : 'yellow'}
+        size="sm"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { CustomActions, MAX_CUSTOM_ACTION_LENGTH } from '@/lib/story/custom-actions'
+
+interface CustomActionInputProps {
+  onSubmit: (actionText: string) => void
+  disabled?: boolean
+}
+
+export function CustomActionInput({ onSubmit, disabled = false }: CustomActionInputProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [actionText, setActionText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = () => {
+    const validationError = CustomActions.validate(actionText)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setError(null)
+    onSubmit(actionText.trim())
+    setActionText('')
+    setIsOpen(false)
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="w-full p-3 text-left rounded-lg border-2 border-dashed border-gray-300 text-gray-600 hover:border-blue-300 hover:text-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        ✍️ Write your own action...
+      </button>
+    )
+  }
+
+  return (
+    <div className="p-4 rounded-lg border-2 border-blue-200 bg-blue-50">
+      <label htmlFor="custom-action" className="block text-sm font-medium text-gray-700 mb-2">
+        What do you do?
+      </label>
+      <textarea
+        id="custom-action"
+        value={actionText}
+        onChange={(e) => setActionText(e.target.value)}
+        maxLength={MAX_CUSTOM_ACTION_LENGTH}
+        rows={2}
+        disabled={disabled}
+        placeholder="e.g. Offer the guard your last gold coin"
+        className="w-full p-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="flex items-center justify-between mt-2">
+        <span className={`text-xs ${error ? 'text-red-600' : 'text-gray-500'}`}>
+          {error || `${actionText.length}/${MAX_CUSTOM_ACTION_LENGTH}`}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)} disabled={disabled}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSubmit} disabled={disabled || !actionText.trim()}>
+            Do it
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { Button } from '@/components/ui/Button'
+import { ItemRegistry } from '@/lib/items/item-registry'
+
+interface InventoryPanelProps {
+  inventory: string[]
+  stats?: Record<string, number>
+  onUseItem?: (itemId: string) => void
+  disabled?: boolean
+}
+
+export function InventoryPanel({ inventory, stats = {}, onUseItem, disabled = false }: InventoryPanelProps) {
+  const statEntries = Object.entries(stats)
+
+  if (inventory.length === 0 && statEntries.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">🎒 Inventory</h3>
+        {statEntries.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {statEntries.map(([stat, value]) => (
+              <span key={stat} className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs capitalize">
+                {stat.replace(/_/g, ' ')}: {value}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {inventory.length === 0 ? (
+        <p className="text-sm text-gray-500">You aren&apos;t carrying anything yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {inventory.map(itemId => {
+            const item = ItemRegistry.resolve(itemId)
+            const usable = ItemRegistry.isUsable(item)
+
+            return (
+              <div key={itemId} className="flex items-start gap-3 p-3 rounded-lg border border-gray-200">
+                <span className="text-2xl" aria-hidden="true">{item.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                    <span className={`px-1.5 py-0.5 rounded text-xs ${
+                      item.kind === 'consumable' ? 'bg-orange-100 text-orange-800' : 'bg-blue-100 text-blue-800'
+                    }`}>
+                      {item.kind === 'consumable' ? 'Consumable' : 'Key item'}
+                    </span>
+                  </div>
+                  {item.description && (
+                    <p className="text-xs text-gray-600 mt-1">{item.description}</p>
+                  )}
+                </div>
+                {usable && onUseItem && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onUseItem(itemId)}
+                    disabled={disabled}
+                  >
+                    Use
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
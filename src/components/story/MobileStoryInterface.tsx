@@ -14,6 +14,7 @@ interface MobileStoryInterfaceProps {
   currentStep: number
   totalSteps?: number
   isProcessing?: boolean
+  isStreaming?: boolean // storyText is still arriving; choices follow once it completes
   canMakeChoice?: boolean
   selectedChoiceId?: string
   onChoiceSelect: (choice: Choice) => void
@@ -29,6 +30,7 @@ export function MobileStoryInterface({
   currentStep,
   totalSteps = 10,
   isProcessing = false,
+  isStreaming = false,
   canMakeChoice = true,
   selectedChoiceId,
   onChoiceSelect,
@@ -67,12 +69,15 @@ export function MobileStoryInterface({
           <CardContent className="p-4">
             <div 
               className={`text-base leading-relaxed whitespace-pre-wrap text-gray-800 ${
-                !isExpanded && storyText.length > 300 ? 'line-clamp-6' : ''
+                !isExpanded && !isStreaming && storyText.length > 300 ? 'line-clamp-6' : ''
               }`}
             >
               {storyText}
+              {isStreaming && (
+                <span className="inline-block w-1.5 h-4 ml-1 align-text-bottom bg-gray-400 animate-pulse" />
+              )}
             </div>
-            {storyText.length > 300 && (
+            {!isStreaming && storyText.length > 300 && (
               <button
                 onClick={() => setIsExpanded(!isExpanded)}
                 className="mt-2 text-blue-600 text-sm font-medium"
@@ -116,7 +121,7 @@ export function MobileStoryInterface({
       </div>
 
       {/* Fixed Bottom Choices */}
-      {choices.length > 0 && (
+      {!isStreaming && choices.length > 0 && (
         <div className="sticky bottom-0 bg-white border-t shadow-lg">
           <div className="px-4 py-4">
             {onToggleStats && (
@@ -1,13 +1,15 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Crown, Lock, Zap } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
 import { useSubscription } from '@/lib/hooks/useSubscription'
+import { useContentSettings } from '@/lib/hooks/useContentSettings'
 import { useAuth } from '@/components/auth/AuthProvider'
 import PaywallModal from '@/components/subscription/PaywallModal'
 import UsageLimitsDisplay from '@/components/subscription/UsageLimitsDisplay'
+import { TimedChoices } from '@/lib/story/timed-choices'
 import type { StoryGenerationRequest } from '@/types/story'
 
 interface PremiumStoryGeneratorProps {
@@ -38,14 +40,27 @@ const CHALLENGE_OPTIONS = [
 export function PremiumStoryGenerator({ onStartStory, loading }: PremiumStoryGeneratorProps) {
   const { user, sessionId } = useAuth()
   const { isPremium, usageLimits, checkGenreAccess, checkExtendedLength, checkDailyLimit } = useSubscription()
+  const { isGenreAllowed } = useContentSettings()
   
   const [selectedGenre, setSelectedGenre] = useState<string>('fantasy')
   const [selectedLength, setSelectedLength] = useState<string>('standard')
   const [selectedChallenge, setSelectedChallenge] = useState<string>('casual')
+  const [timedChoices, setTimedChoices] = useState(false)
   const [paywallOpen, setPaywallOpen] = useState(false)
   const [paywallTrigger, setPaywallTrigger] = useState<'daily_limit' | 'premium_genre' | 'extended_length' | 'advanced_analytics'>('daily_limit')
   const [paywallGenre, setPaywallGenre] = useState<string>()
 
+  const supportsTimedChoices = TimedChoices.isSupportedGenre(selectedGenre)
+
+  // Genres whose core theme the content settings turn off are hidden
+  const genreOptions = GENRE_OPTIONS.filter(genre => isGenreAllowed(genre.id))
+
+  useEffect(() => {
+    if (!isGenreAllowed(selectedGenre)) {
+      setSelectedGenre('fantasy')
+    }
+  }, [isGenreAllowed, selectedGenre])
+
   const handleGenreSelect = async (genreId: string) => {
     const genre = GENRE_OPTIONS.find(g => g.id === genreId)
     
@@ -100,7 +115,8 @@ export function PremiumStoryGenerator({ onStartStory, loading }: PremiumStoryGen
       length: selectedLength as any,
       challenge: selectedChallenge as any,
       userId: user?.id || '',
-      sessionId
+      sessionId,
+      timedChoices: supportsTimedChoices && timedChoices
     }
 
     onStartStory(request)
@@ -126,7 +142,7 @@ export function PremiumStoryGenerator({ onStartStory, loading }: PremiumStoryGen
       <Card className="p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Choose Your Genre</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {GENRE_OPTIONS.map((genre) => (
+          {genreOptions.map((genre) => (
             <button
               key={genre.id}
               onClick={() => handleGenreSelect(genre.id)}
@@ -214,6 +230,22 @@ export function PremiumStoryGenerator({ onStartStory, loading }: PremiumStoryGen
             </button>
           ))}
         </div>
+        {supportsTimedChoices && (
+          <label className="flex items-start gap-3 mt-4 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={timedChoices}
+              onChange={(e) => setTimedChoices(e.target.checked)}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+            />
+            <span>
+              <span className="font-medium text-gray-900">⏱️ Timed choices</span>
+              <span className="block text-sm text-gray-600">
+                Tense moments give you seconds to decide - hesitate and the story decides for you
+              </span>
+            </span>
+          </label>
+        )}
       </Card>
 
       {/* Start Story Button */}
@@ -225,6 +257,9 @@ export function PremiumStoryGenerator({ onStartStory, loading }: PremiumStoryGen
               <p><span className="font-medium">Genre:</span> {selectedGenreOption?.name}</p>
               <p><span className="font-medium">Length:</span> {selectedLengthOption?.name} ({selectedLengthOption?.duration})</p>
               <p><span className="font-medium">Challenge:</span> {selectedChallengeOption?.name}</p>
+              {supportsTimedChoices && timedChoices && (
+                <p><span className="font-medium">Timed choices:</span> On</p>
+              )}
             </div>
           </div>
           
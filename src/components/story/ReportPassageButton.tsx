@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { Flag } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { MAX_REPORT_DETAILS_LENGTH } from '@/lib/moderation'
+import type { ContentReportReason } from '@/types/story'
+
+interface ReportPassageButtonProps {
+  onSubmit: (reason: ContentReportReason, details: string) => Promise<void>
+}
+
+const REASON_OPTIONS: { id: ContentReportReason; label: string }[] = [
+  { id: 'inappropriate', label: 'Not appropriate for this story' },
+  { id: 'violent', label: 'Too violent or graphic' },
+  { id: 'sexual', label: 'Sexual content' },
+  { id: 'hateful', label: 'Hateful or offensive' },
+  { id: 'other', label: 'Something else' }
+]
+
+export function ReportPassageButton({ onSubmit }: ReportPassageButtonProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [reason, setReason] = useState<ContentReportReason>('inappropriate')
+  const [details, setDetails] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true)
+      setError(null)
+      await onSubmit(reason, details)
+      setSubmitted(true)
+      setIsOpen(false)
+      setDetails('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to report passage')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <p className="text-xs text-gray-500">Thanks - a moderator will review this passage.</p>
+    )
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-600 transition-colors"
+      >
+        <Flag className="w-3 h-3" />
+        Report this passage
+      </button>
+    )
+  }
+
+  return (
+    <div className="p-4 rounded-lg border border-red-200 bg-red-50">
+      <p className="text-sm font-medium text-gray-900 mb-2">What&apos;s wrong with this passage?</p>
+      <div className="space-y-1 mb-3">
+        {REASON_OPTIONS.map((option) => (
+          <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="radio"
+              name="report-reason"
+              checked={reason === option.id}
+              onChange={() => setReason(option.id)}
+              className="h-4 w-4 border-gray-300 text-red-600 focus:ring-red-500"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        maxLength={MAX_REPORT_DETAILS_LENGTH}
+        rows={2}
+        placeholder="Anything a moderator should know (optional)"
+        className="w-full p-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+      />
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-red-600">{error}</span>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleSubmit} loading={submitting} disabled={submitting}>
+            Report
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -13,6 +13,7 @@ interface ResponsiveStoryInterfaceProps {
   currentStep: number
   totalSteps?: number
   isProcessing?: boolean
+  isStreaming?: boolean // storyText is still arriving; choices follow once it completes
   canMakeChoice?: boolean
   selectedChoiceId?: string
   choiceSlug?: string
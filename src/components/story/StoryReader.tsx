@@ -6,7 +6,12 @@ import { Button } from '@/components/ui/Button'
 import { ProgressBar } from '@/components/ui/ProgressBar'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { ChoiceStatistics } from './ChoiceStatistics'
-import type { Choice, GameState } from '@/types/story'
+import { ChoiceTimer } from './ChoiceTimer'
+import { CustomActionInput } from './CustomActionInput'
+import { ReportPassageButton } from './ReportPassageButton'
+import { getChoiceAvailability } from '@/lib/utils/game-state'
+import { ItemRegistry } from '@/lib/items/item-registry'
+import type { Choice, ContentReportReason, GameState } from '@/types/story'
 
 interface StoryReaderProps {
   storyText: string
@@ -16,12 +21,18 @@ interface StoryReaderProps {
   currentStep: number
   totalSteps?: number
   isProcessing?: boolean
+  isStreaming?: boolean // storyText is still arriving; choices follow once it completes
   canMakeChoice?: boolean
   selectedChoiceId?: string
   choiceSlug?: string
   onChoiceSelect: (choice: Choice) => void
   onToggleStats?: () => void
   showStats?: boolean
+  timeLimitSeconds?: number | null // Timed steps count down and then take the default choice
+  choiceDeadline?: string | null // When the timed step runs out (story_steps.choice_deadline_at)
+  onTimeout?: () => void
+  onCustomAction?: (actionText: string) => void // Shows a "write your own action" input
+  onReport?: (reason: ContentReportReason, details: string) => Promise<void> // Shows a "report this passage" link
 }
 
 export function StoryReader({
@@ -32,14 +43,21 @@ export function StoryReader({
   currentStep,
   totalSteps = 10,
   isProcessing = false,
+  isStreaming = false,
   canMakeChoice = true,
   selectedChoiceId,
   choiceSlug,
   onChoiceSelect,
   onToggleStats,
-  showStats = false
+  showStats = false,
+  timeLimitSeconds,
+  choiceDeadline,
+  onTimeout,
+  onCustomAction,
+  onReport
 }: StoryReaderProps) {
   const [expandedChoice, setExpandedChoice] = useState<string | null>(null)
+  const isTimed = !!timeLimitSeconds && !!choiceDeadline && !!onTimeout && canMakeChoice && !selectedChoiceId
 
   const getRarityColor = (rarity?: string) => {
     switch (rarity) {
@@ -98,8 +116,16 @@ export function StoryReader({
               style={{ lineHeight: '1.7' }}
             >
               {storyText}
+              {isStreaming && (
+                <span className="inline-block w-2 h-5 ml-1 align-text-bottom bg-gray-400 animate-pulse" />
+              )}
             </div>
           </div>
+          {onReport && !isStreaming && (
+            <div className="mt-4 flex justify-end">
+              <ReportPassageButton key={currentStep} onSubmit={onReport} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -133,14 +159,18 @@ export function StoryReader({
                 <div className="flex items-center space-x-2">
                   <span className="text-gray-600">Items:</span>
                   <div className="flex flex-wrap gap-1">
-                    {gameState.inventory.slice(0, 3).map((item, index) => (
-                      <span
-                        key={index}
-                        className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs"
-                      >
-                        {item}
-                      </span>
-                    ))}
+                    {gameState.inventory.slice(0, 3).map((itemId, index) => {
+                      const item = ItemRegistry.resolve(itemId)
+                      return (
+                        <span
+                          key={index}
+                          className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs"
+                          title={item.description}
+                        >
+                          {item.icon} {item.name}
+                        </span>
+                      )
+                    })}
                     {gameState.inventory.length > 3 && (
                       <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs">
                         +{gameState.inventory.length - 3} more
@@ -155,7 +185,7 @@ export function StoryReader({
       )}
 
       {/* Choices */}
-      {choices.length > 0 && (
+      {!isStreaming && choices.length > 0 && (
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -174,27 +204,40 @@ export function StoryReader({
             </div>
           </CardHeader>
           <CardContent>
+            {isTimed && (
+              <ChoiceTimer
+                seconds={timeLimitSeconds!}
+                deadline={choiceDeadline!}
+                paused={isProcessing}
+                onExpire={onTimeout!}
+              />
+            )}
             <div className="space-y-3">
               {choices.map((choice, index) => {
                 const isSelected = selectedChoiceId === choice.id
                 const isExpanded = expandedChoice === choice.id
                 const hasTraitImpact = choice.traits_impact && Object.keys(choice.traits_impact).length > 0
+                const availability = gameState ? getChoiceAvailability(gameState, choice) : null
+                const isLocked = !!availability && !availability.available
+                const isDisabled = !canMakeChoice || isProcessing || isLocked
                 
                 return (
                   <div key={choice.id} className="relative">
                     <button
                       onClick={() => {
-                        if (canMakeChoice && !isProcessing) {
+                        if (!isDisabled) {
                           onChoiceSelect(choice)
                         }
                       }}
-                      disabled={!canMakeChoice || isProcessing}
+                      disabled={isDisabled}
                       className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
                         isSelected
                           ? 'border-blue-500 bg-blue-50'
-                          : getRarityColor()
+                          : isLocked
+                            ? 'border-gray-200 bg-gray-100'
+                            : getRarityColor()
                       } ${
-                        !canMakeChoice || isProcessing 
+                        isDisabled
                           ? 'opacity-50 cursor-not-allowed' 
                           : 'cursor-pointer hover:shadow-md'
                       }`}
@@ -209,7 +252,12 @@ export function StoryReader({
                         </span>
                         <div className="flex-1">
                           <div className="flex items-center justify-between">
-                            <p className="font-medium text-gray-900">{choice.text}</p>
+                            <p className={`font-medium ${isLocked ? 'text-gray-500' : 'text-gray-900'}`}>
+                              {choice.text}
+                              {isTimed && choice.is_default && (
+                                <span className="ml-2 text-xs font-normal text-orange-600">(if you hesitate)</span>
+                              )}
+                            </p>
                             <div className="flex items-center space-x-2">
                               {getRarityIcon() && (
                                 <span className="text-sm">{getRarityIcon()}</span>
@@ -230,6 +278,10 @@ export function StoryReader({
                             </div>
                           </div>
                           
+                          {isLocked && availability?.hint && (
+                            <p className="mt-1 text-xs text-gray-500">🔒 {availability.hint}</p>
+                          )}
+
                           {/* Trait Impact (Expanded) */}
                           {isExpanded && hasTraitImpact && (
                             <div className="mt-3 pt-3 border-t border-gray-200">
@@ -263,6 +315,12 @@ export function StoryReader({
                   </div>
                 )
               })}
+              {onCustomAction && (
+                <CustomActionInput
+                  onSubmit={onCustomAction}
+                  disabled={!canMakeChoice || isProcessing || !!selectedChoiceId}
+                />
+              )}
             </div>
 
             {/* Choice Statistics */}
@@ -272,6 +330,7 @@ export function StoryReader({
                   choiceSlug={choiceSlug}
                   genre={genre}
                   selectedOptionId={selectedChoiceId}
+                  choices={choices}
                 />
               </div>
             )}
@@ -357,6 +357,7 @@ export function StoryReaderWithAnalytics({
                   choiceSlug={choiceSlug}
                   genre={genre}
                   selectedOptionId={selectedChoiceId}
+                  choices={choices}
                 />
               </div>
             )}
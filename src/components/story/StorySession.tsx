@@ -6,22 +6,35 @@ import { AuthButton } from '@/components/auth/AuthButton'
 import { useStorySession } from '@/lib/hooks/useStorySession'
 import { useChoiceStatistics } from '@/lib/hooks/useChoiceStatistics'
 import { useEndingsCollection } from '@/lib/hooks/useEndingsCollection'
-import { getDominantTraits, getTraitDescription } from '@/lib/utils/game-state'
+import { useSubscription } from '@/lib/hooks/useSubscription'
+import { getDominantTraits, getTraitDescription, getChoiceAvailability } from '@/lib/utils/game-state'
 import { ChoiceStatistics } from './ChoiceStatistics'
 import { PersonalityComparison } from './PersonalityComparison'
 import { AchievementNotification } from '../endings/AchievementNotification'
 import { PremiumStoryGenerator } from './PremiumStoryGenerator'
+import { AuthoredStoryPicker } from './AuthoredStoryPicker'
+import { InventoryPanel } from './InventoryPanel'
+import { CharactersPanel } from './CharactersPanel'
+import { ChoiceTimer } from './ChoiceTimer'
+import { CustomActionInput } from './CustomActionInput'
+import { ReportPassageButton } from './ReportPassageButton'
+import { CUSTOM_CHOICE_ID } from '@/lib/story/custom-actions'
+import { ContentReportQueries } from '@/lib/moderation'
 import { Button } from '@/components/ui/Button'
-import type { Choice, StoryProgressionResult, ChoiceSelectionResult, StoryGenerationRequest } from '@/types/story'
+import type { Choice, StoryProgressionResult, ChoiceSelectionResult, StoryGenerationRequest, AuthoredStory, ContentReportReason } from '@/types/story'
 
 interface StorySessionProps {
+  storyRunId?: string // Resume an existing run instead of starting a new one
   onStoryCompleted?: (session: any) => void
   onError?: (error: string) => void
 }
 
-export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
+export function StorySession({ storyRunId, onStoryCompleted, onError }: StorySessionProps) {
   const { user, loading } = useAuth()
+  const { isPremium } = useSubscription()
   const [selectedChoiceId, setSelectedChoiceId] = useState<string | null>(null)
+  const [showRecap, setShowRecap] = useState(!!storyRunId)
+  const [showRewind, setShowRewind] = useState(false)
   const [showPersonalityUpdate, setShowPersonalityUpdate] = useState(false)
   const [lastTraitChanges, setLastTraitChanges] = useState<Record<string, number>>({})
   const [showChoiceStats, setShowChoiceStats] = useState(false)
@@ -34,9 +47,22 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
     isCompleted,
     startNewStory,
     selectChoice,
+    expireChoice,
+    submitCustomAction,
+    forkFromStep,
+    applyItem,
+    loadStorySession,
     canMakeChoice,
     availableChoices,
+    timeLimitSeconds,
+    choiceDeadline,
+    canWriteOwnAction,
     storyText,
+    storySummary,
+    characters,
+    storyHistory,
+    streamingText,
+    isStreaming,
     gameState,
     personalityTraits,
     isProcessing,
@@ -44,6 +70,7 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
     error,
     getCurrentStoryRunId
   } = useStorySession({
+    pregenerate: isPremium,
     onStoryProgression: (result: StoryProgressionResult) => {
       console.log('Story progressed:', result)
       setSelectedChoiceId(null)
@@ -83,6 +110,8 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
       refreshCollection()
     },
     onError: (err) => {
+      // Let the player try again, e.g. after a typed action was rejected
+      setSelectedChoiceId(null)
       onError?.(err.message)
     }
   })
@@ -113,6 +142,13 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
     // Remove onStatisticsLoaded callback to prevent infinite re-renders
   })
 
+  // Resume the requested run
+  useEffect(() => {
+    if (storyRunId) {
+      loadStorySession(storyRunId)
+    }
+  }, [storyRunId, loadStorySession])
+
   // Auto-show stats if there are rare choices (separated to prevent callback issues)
   useEffect(() => {
     if (choiceStats && choiceStats.length > 0 && !showChoiceStats) {
@@ -131,7 +167,17 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
     startNewStory({
       genre: request.genre,
       length: request.length,
-      challenge: request.challenge
+      challenge: request.challenge,
+      authoredStoryId: request.authoredStoryId
+    })
+  }
+
+  const handleStartAuthoredStory = (story: AuthoredStory) => {
+    startNewStory({
+      genre: story.genre,
+      length: story.length,
+      challenge: 'casual',
+      authoredStoryId: story.id
     })
   }
 
@@ -157,12 +203,56 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
     selectChoice(choice.id, choice.slug)
   }, [canMakeChoice, currentSession, trackSelection, selectChoice])
 
+  // Out of time: the default choice is recorded as a timeout rather than a selection
+  const handleTimeout = useCallback(() => {
+    if (!canMakeChoice || selectedChoiceId) return
+    expireChoice()
+  }, [canMakeChoice, selectedChoiceId, expireChoice])
+
+  const handleCustomAction = useCallback((actionText: string) => {
+    if (!canMakeChoice) return
+    setSelectedChoiceId(CUSTOM_CHOICE_ID)
+    submitCustomAction(actionText)
+  }, [canMakeChoice, submitCustomAction])
+
+  const handleReport = useCallback(async (reason: ContentReportReason, details: string) => {
+    if (!currentSession?.currentStep) return
+    await ContentReportQueries.create({
+      stepId: currentSession.currentStep.id,
+      storyRunId: currentSession.storyRun.id,
+      reason,
+      details,
+      reporterId: user?.id,
+      sessionId: currentSession.storyRun.session_id ?? undefined
+    })
+  }, [currentSession, user])
+
+  // Earlier steps the player can rewind to and choose differently
+  const rewindableSteps = useMemo(() => {
+    return storyHistory.filter(step =>
+      step.selected_choice_id &&
+      step.id !== currentSession?.currentStep?.id &&
+      Array.isArray(step.choices) &&
+      step.choices.length > 0
+    )
+  }, [storyHistory, currentSession?.currentStep?.id])
+
+  const handleRewind = useCallback((stepId: string) => {
+    setShowRewind(false)
+    setSelectedChoiceId(null)
+    forkFromStep(stepId)
+  }, [forkFromStep])
+
   const renderStoryStart = () => (
-    <div className="max-w-4xl mx-auto">
+    <div className="max-w-4xl mx-auto space-y-6">
       <PremiumStoryGenerator 
         onStartStory={handleStartStory}
         loading={isProcessing}
       />
+      <AuthoredStoryPicker
+        onSelect={handleStartAuthoredStory}
+        loading={isProcessing}
+      />
     </div>
   )
 
@@ -178,6 +268,11 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
               <span className="text-sm font-medium text-gray-600">
                 Act {gameState?.act} • Step {currentSession.currentStep?.step_number}
               </span>
+              {currentSession.storyRun.parent_run_id && (
+                <span className="text-xs px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full">
+                  ↩ Branched at step {currentSession.storyRun.forked_from_step}
+                </span>
+              )}
             </div>
             <div className="flex items-center space-x-2">
               <span className="text-sm text-gray-500 capitalize">
@@ -197,15 +292,43 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
           </div>
         </div>
 
+        {/* Story So Far */}
+        {storySummary && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+            <button
+              onClick={() => setShowRecap(!showRecap)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <span className="text-sm font-semibold text-amber-900">📜 The story so far</span>
+              <span className="text-xs text-amber-700">{showRecap ? 'Hide' : 'Show'}</span>
+            </button>
+            {showRecap && (
+              <p className="mt-3 text-sm leading-relaxed text-amber-900 whitespace-pre-wrap">
+                {storySummary}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Story Text */}
         <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
           <div className="prose max-w-none">
-            <p className="text-lg leading-relaxed whitespace-pre-wrap">{storyText}</p>
+            <p className="text-lg leading-relaxed whitespace-pre-wrap">
+              {isStreaming ? streamingText : storyText}
+              {isStreaming && (
+                <span className="inline-block w-2 h-5 ml-1 align-text-bottom bg-gray-400 animate-pulse" />
+              )}
+            </p>
           </div>
+          {!isStreaming && currentSession.currentStep && !currentSession.currentStep.hidden_at && (
+            <div className="mt-4 flex justify-end">
+              <ReportPassageButton key={currentSession.currentStep.id} onSubmit={handleReport} />
+            </div>
+          )}
         </div>
 
         {/* Choices */}
-        {!isCompleted && availableChoices.length > 0 && (
+        {!isStreaming && !isCompleted && availableChoices.length > 0 && (
           <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">What do you do?</h3>
@@ -218,17 +341,30 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
               </button>
             </div>
             
+            {timeLimitSeconds && choiceDeadline && !selectedChoiceId && (
+              <ChoiceTimer
+                seconds={timeLimitSeconds}
+                deadline={choiceDeadline}
+                paused={isProcessing}
+                onExpire={handleTimeout}
+              />
+            )}
+
             <div className="space-y-3">
               {availableChoices.map((choice, index) => {
                 const isRare = isRareChoice(choice.id)
+                const availability = gameState ? getChoiceAvailability(gameState, choice) : null
+                const isLocked = !!availability && !availability.available
                 return (
                   <button
                     key={choice.id}
                     onClick={() => handleChoiceSelect(choice)}
-                    disabled={!canMakeChoice || selectedChoiceId === choice.id}
+                    disabled={!canMakeChoice || selectedChoiceId === choice.id || isLocked}
                     className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
                       selectedChoiceId === choice.id
                         ? 'border-blue-500 bg-blue-50'
+                        : isLocked
+                        ? 'border-gray-200 bg-gray-100 opacity-60 cursor-not-allowed'
                         : isRare
                         ? 'border-purple-300 hover:border-purple-400 hover:bg-purple-50'
                         : 'border-gray-200 hover:border-blue-300 hover:bg-blue-50'
@@ -248,7 +384,13 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
                           {isRare && (
                             <span className="text-purple-600 text-sm">✨ Rare</span>
                           )}
+                          {timeLimitSeconds && choice.is_default && (
+                            <span className="text-orange-600 text-xs">(if you hesitate)</span>
+                          )}
                         </div>
+                        {isLocked && availability?.hint && (
+                          <p className="mt-1 text-xs text-gray-500">🔒 {availability.hint}</p>
+                        )}
                         {choice.traits_impact && Object.keys(choice.traits_impact).length > 0 && (
                           <div className="mt-2 flex flex-wrap gap-2">
                             {Object.entries(choice.traits_impact).map(([trait, impact]) => (
@@ -268,6 +410,12 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
                   </button>
                 )
               })}
+              {canWriteOwnAction && (
+                <CustomActionInput
+                  onSubmit={handleCustomAction}
+                  disabled={!canMakeChoice || !!selectedChoiceId}
+                />
+              )}
             </div>
 
             {/* Choice Statistics Display */}
@@ -277,6 +425,7 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
                   choiceSlug={currentSession.currentStep.choice_slug}
                   genre={currentSession.storyRun.genre}
                   selectedOptionId={selectedChoiceId || undefined}
+                  choices={availableChoices}
                 />
               </div>
             )}
@@ -331,7 +480,8 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
                       length: currentSession.storyRun.length as any,
                       challenge: currentSession.storyRun.challenge as any,
                       userId: user?.id || '',
-                      sessionId: currentSession.storyRun.session_id || ''
+                      sessionId: currentSession.storyRun.session_id || '',
+                      authoredStoryId: currentSession.storyRun.authored_story_id || undefined
                     })
                   }}
                   className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-medium flex items-center"
@@ -351,6 +501,69 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
           </div>
         )}
 
+        {/* Inventory */}
+        {isActive && !isStreaming && gameState && (
+          <InventoryPanel
+            inventory={gameState.inventory}
+            stats={gameState.stats}
+            onUseItem={applyItem}
+            disabled={isProcessing}
+          />
+        )}
+
+        {/* Characters */}
+        {!isStreaming && (
+          <CharactersPanel
+            characters={characters}
+            relationships={gameState?.relationships}
+          />
+        )}
+
+        {/* Rewind */}
+        {!isStreaming && rewindableSteps.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+            <button
+              onClick={() => setShowRewind(!showRewind)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <h3 className="text-lg font-semibold">↩ Rewind</h3>
+              <span className="text-sm text-blue-600">{showRewind ? 'Hide' : 'Choose differently'}</span>
+            </button>
+
+            {showRewind && (
+              <div className="mt-4 space-y-2">
+                {rewindableSteps.map(step => {
+                  const chosen = (step.choices as Choice[]).find(choice => choice.id === step.selected_choice_id)
+                  return (
+                    <div
+                      key={step.id}
+                      className="flex items-center justify-between gap-4 p-3 rounded-lg border border-gray-200"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-xs font-medium text-gray-500">Step {step.step_number}</p>
+                        <p className="text-sm text-gray-800 truncate">
+                          You chose: {chosen?.text || step.selected_choice_id}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRewind(step.id)}
+                        disabled={isProcessing}
+                      >
+                        Rewind here
+                      </Button>
+                    </div>
+                  )
+                })}
+                <p className="text-xs text-gray-500">
+                  Rewinding starts a new branch; this run stays in your history.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Personality Traits Sidebar */}
         <div className="bg-white rounded-lg shadow-sm p-6">
           <div className="flex items-center justify-between mb-4">
@@ -490,6 +703,19 @@ export function StorySession({ onStoryCompleted, onError }: StorySessionProps) {
   }
 
   if (isProcessing && !currentSession) {
+    if (isStreaming) {
+      return (
+        <div className="max-w-4xl mx-auto p-6">
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <p className="text-lg leading-relaxed whitespace-pre-wrap">
+              {streamingText}
+              <span className="inline-block w-2 h-5 ml-1 align-text-bottom bg-gray-400 animate-pulse" />
+            </p>
+          </div>
+        </div>
+      )
+    }
+
     return (
       <div className="max-w-2xl mx-auto p-6 text-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
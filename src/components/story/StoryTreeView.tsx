@@ -0,0 +1,181 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useStoryTree } from '@/lib/hooks/useOptimizedQueries'
+import { StoryTreeBuilder, type StoryTree, type StoryTreeNode } from '@/lib/story/story-tree'
+import { EndingRarity } from '@/types/story'
+
+interface StoryTreeViewProps {
+  userId: string
+  onRunSelect?: (storyRunId: string) => void
+}
+
+const getRarityColor = (rarity: EndingRarity) => {
+  switch (rarity) {
+    case EndingRarity.ULTRA_RARE:
+      return 'bg-purple-100 text-purple-800 border-purple-300'
+    case EndingRarity.RARE:
+      return 'bg-yellow-100 text-yellow-800 border-yellow-300'
+    case EndingRarity.UNCOMMON:
+      return 'bg-blue-100 text-blue-800 border-blue-300'
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-300'
+  }
+}
+
+const getRarityIcon = (rarity: EndingRarity) => {
+  switch (rarity) {
+    case EndingRarity.ULTRA_RARE:
+      return '💎'
+    case EndingRarity.RARE:
+      return '⭐'
+    case EndingRarity.UNCOMMON:
+      return '🔹'
+    default:
+      return '⚪'
+  }
+}
+
+const excerpt = (text: string, length = 90) =>
+  text.length > length ? `${text.slice(0, length).trimEnd()}…` : text
+
+export function StoryTreeView({ userId, onRunSelect }: StoryTreeViewProps) {
+  const { data: trees = [], isLoading, error } = useStoryTree(userId)
+  const [selectedGenre, setSelectedGenre] = useState<string | null>(null)
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+        Failed to load your story branches
+      </div>
+    )
+  }
+
+  if (trees.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-gray-600">
+          <div className="text-4xl mb-2">🌱</div>
+          Play a story to start growing your story tree.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const activeTree: StoryTree = trees.find(tree => tree.genre === selectedGenre) || trees[0]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold">Your Story Branches</h3>
+          <div className="flex flex-wrap gap-2">
+            {trees.map(tree => (
+              <button
+                key={tree.genre}
+                onClick={() => setSelectedGenre(tree.genre)}
+                className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+                  tree.genre === activeTree.genre
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {tree.genre}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          {activeTree.runCount} {activeTree.runCount === 1 ? 'run' : 'runs'} • {activeTree.endingCount} {activeTree.endingCount === 1 ? 'ending' : 'endings'} reached
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto space-y-4">
+          {activeTree.roots.map(root => (
+            <TreeNode key={root.key} node={root} onRunSelect={onRunSelect} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface TreeNodeProps {
+  node: StoryTreeNode
+  onRunSelect?: (storyRunId: string) => void
+}
+
+function TreeNode({ node, onRunSelect }: TreeNodeProps) {
+  const [collapsed, setCollapsed] = useState(false)
+  const hasBranches = node.edges.length > 0
+  const leafCount = StoryTreeBuilder.countLeaves(node)
+  // Open the most recent run that reached this step
+  const latestRunId = node.runIds[node.runIds.length - 1]
+
+  return (
+    <div className="min-w-[16rem]">
+      <div
+        className={`flex items-start gap-3 p-3 rounded-lg border ${
+          node.ending ? getRarityColor(node.ending.rarity) : 'bg-white border-gray-200'
+        }`}
+      >
+        <button
+          onClick={() => hasBranches && setCollapsed(!collapsed)}
+          className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+            node.ending ? 'bg-white bg-opacity-70' : 'bg-blue-100 text-blue-800'
+          } ${hasBranches ? 'cursor-pointer' : 'cursor-default'}`}
+          title={hasBranches ? (collapsed ? 'Expand' : 'Collapse') : undefined}
+        >
+          {node.ending ? getRarityIcon(node.ending.rarity) : node.stepNumber}
+        </button>
+        <div className="flex-1 min-w-0">
+          {node.ending && (
+            <p className="text-sm font-semibold">
+              {node.ending.title}
+              <span className="ml-2 text-xs font-normal capitalize">{node.ending.rarity.replace('-', ' ')}</span>
+            </p>
+          )}
+          <p className="text-sm text-gray-700">{excerpt(node.storyText)}</p>
+          <div className="mt-1 flex items-center gap-3 text-xs text-gray-500">
+            {hasBranches && leafCount > 1 && <span>{leafCount} paths</span>}
+            {collapsed && <span>{node.edges.length} hidden</span>}
+            {onRunSelect && latestRunId && (
+              <button
+                onClick={() => onRunSelect(latestRunId)}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Open
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {hasBranches && !collapsed && (
+        <div className="ml-4 pl-4 border-l-2 border-gray-200 mt-2 space-y-3">
+          {node.edges.map(edge => (
+            <div key={`${edge.choiceId}-${edge.child.key}`}>
+              <div className="flex items-center text-xs text-gray-600 mb-1">
+                <span className="w-3 border-t-2 border-gray-200 -ml-4 mr-1" />
+                <span className="px-2 py-0.5 bg-gray-100 rounded">
+                  {edge.choiceId} · {excerpt(edge.choiceText, 60)}
+                </span>
+              </div>
+              <TreeNode node={edge.child} onRunSelect={onRunSelect} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,3 +9,10 @@ export { MobileStoryInterface } from './MobileStoryInterface'
 export { StoryReaderWithAnalytics } from './StoryReaderWithAnalytics'
 export { StoryCompletion } from './StoryCompletion'
 export { StoryGenerationExample } from './StoryGenerationExample'
+export { StoryTreeView } from './StoryTreeView'
+export { AuthoredStoryPicker } from './AuthoredStoryPicker'
+export { InventoryPanel } from './InventoryPanel'
+export { CharactersPanel } from './CharactersPanel'
+export { ChoiceTimer } from './ChoiceTimer'
+export { CustomActionInput } from './CustomActionInput'
+export { ReportPassageButton } from './ReportPassageButton'
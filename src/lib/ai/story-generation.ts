@@ -1,4 +1,4 @@
-import { supabase } from '../supabase/client'
+import { supabase, getEdgeFunctionUrl, supabaseAnonKey } from '../supabase/client'
 import type { StoryGenerationRequest, StoryResponse } from '../../types/story'
 
 export interface StoryGenerationResult {
@@ -58,6 +58,166 @@ export async function generateStory(
   }
 }
 
+// Server-sent events from the generate-story function (mirrors StoryStreamEvent in its types.ts)
+export type StoryStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'reset' }
+  | { type: 'final'; story: StoryResponse; tokensUsed: number }
+  | { type: 'error'; error: string; message?: string }
+
+const STREAM_EVENT_TYPES: StoryStreamEvent['type'][] = ['text', 'reset', 'final', 'error']
+
+export interface StoryStreamHandlers {
+  // Called with the full story text received so far ('' when a failed attempt is discarded)
+  onStoryText?: (text: string) => void
+}
+
+/**
+ * Generate a story while streaming its text as it is produced.
+ * Resolves with the complete story (choices and game state) once generation finishes.
+ */
+export async function generateStoryStream(
+  request: StoryGenerationRequest,
+  handlers: StoryStreamHandlers = {}
+): Promise<StoryGenerationResult> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+
+    const response = await fetch(getEdgeFunctionUrl('generate-story'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${session?.access_token || supabaseAnonKey}`
+      },
+      body: JSON.stringify({ ...request, stream: true })
+    })
+
+    const remainingRequests = parseInt(response.headers.get('X-Rate-Limit-Remaining') || '0', 10)
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }))
+      throw new StoryGenerationServiceError(
+        errorData.error,
+        errorData.resetTime,
+        errorData.remainingRequests
+      )
+    }
+
+    // Older deployments answer with a single JSON body
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream') || !response.body) {
+      const story = await response.json() as StoryResponse
+      handlers.onStoryText?.(story.storyText)
+      return { story, tokensUsed: 0, remainingRequests }
+    }
+
+    let storyText = ''
+    let result: StoryGenerationResult | null = null
+
+    for await (const event of readStoryStream(response.body)) {
+      switch (event.type) {
+        case 'text':
+          storyText += event.delta
+          handlers.onStoryText?.(storyText)
+          break
+        case 'reset':
+          storyText = ''
+          handlers.onStoryText?.(storyText)
+          break
+        case 'final':
+          handlers.onStoryText?.(event.story.storyText)
+          result = {
+            story: event.story,
+            tokensUsed: event.tokensUsed || 0,
+            remainingRequests
+          }
+          break
+        case 'error':
+          throw new StoryGenerationServiceError(event.message || event.error)
+      }
+    }
+
+    if (!result) {
+      throw new Error('Story stream ended without a final story')
+    }
+
+    return result
+  } catch (error) {
+    if (error instanceof StoryGenerationServiceError) {
+      throw error
+    }
+
+    console.error('Story streaming error:', error)
+    throw new Error('Failed to generate story. Please try again.')
+  }
+}
+
+/**
+ * Parse server-sent events from the generate-story function. Frames of an
+ * unknown type are skipped.
+ */
+export async function* readStoryStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StoryStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const frames = buffer.split('\n\n')
+    buffer = frames.pop() || ''
+
+    for (const frame of frames) {
+      const type = frame.match(/^event: (.*)$/m)?.[1]
+      const data = frame.match(/^data: (.*)$/m)?.[1]
+      if (type && data && STREAM_EVENT_TYPES.includes(type as StoryStreamEvent['type'])) {
+        yield { ...JSON.parse(data), type } as StoryStreamEvent
+      }
+    }
+  }
+}
+
+export interface PregenerationResult {
+  queued: number
+  skipped: number
+  reason?: 'budget_exhausted' | 'nothing_to_queue'
+}
+
+/**
+ * Premium: ask the generate-story function to draft the next step for each of
+ * these continuations in the background. Each generated draft counts against the
+ * user's rate limit.
+ */
+export async function pregenerateStories(
+  request: StoryGenerationRequest,
+  continuations: StoryGenerationRequest[]
+): Promise<PregenerationResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('generate-story', {
+      body: { ...request, pregenerate: continuations }
+    })
+
+    if (error) {
+      throw new Error(`Pregeneration failed: ${error.message}`)
+    }
+
+    if (!data || data.error) {
+      throw new StoryGenerationServiceError(data?.error || 'No data received from story generation service')
+    }
+
+    return data as PregenerationResult
+  } catch (error) {
+    if (error instanceof StoryGenerationServiceError) {
+      throw error
+    }
+
+    console.error('Story pregeneration error:', error)
+    throw new Error('Failed to pregenerate story steps.')
+  }
+}
+
 /**
  * Continue an existing story with a new choice
  */
@@ -0,0 +1,74 @@
+import lighthouseKeeper from './stories/lighthouse-keeper.json'
+import sunkenCrown from './stories/sunken-crown.json'
+import type {
+  AuthoredStory,
+  AuthoredStoryNode,
+  GameState,
+  StoryResponse
+} from '../../types/story'
+
+const BUILT_IN_STORIES = [lighthouseKeeper, sunkenCrown] as AuthoredStory[]
+
+/**
+ * Registry of hand-written branching stories
+ */
+export class AuthoredStoryRegistry {
+  private static stories = new Map<string, AuthoredStory>(
+    BUILT_IN_STORIES.map(story => [story.id, story])
+  )
+
+  static list(): AuthoredStory[] {
+    return Array.from(this.stories.values())
+  }
+
+  static get(id: string): AuthoredStory | null {
+    return this.stories.get(id) || null
+  }
+
+  /**
+   * Add or replace a story (e.g. one loaded from a writer's JSON file)
+   */
+  static register(story: AuthoredStory): void {
+    this.stories.set(story.id, story)
+  }
+}
+
+/**
+ * Turns authored nodes into the same StoryResponse shape the AI produces,
+ * so StoryFlowService can play both kinds of story
+ */
+export class AuthoredStoryPlayer {
+  static getNode(story: AuthoredStory, nodeId: string): AuthoredStoryNode {
+    const node = story.nodes.find(candidate => candidate.id === nodeId)
+    if (!node) {
+      throw new Error(`Authored story "${story.id}" has no node "${nodeId}"`)
+    }
+    return node
+  }
+
+  static getOpening(story: AuthoredStory, gameState: GameState): StoryResponse {
+    return this.toStoryResponse(this.getNode(story, story.startNodeId), gameState)
+  }
+
+  static getNext(story: AuthoredStory, nextNodeId: string, gameState: GameState): {
+    response: StoryResponse
+    node: AuthoredStoryNode
+  } {
+    const node = this.getNode(story, nextNodeId)
+    return { response: this.toStoryResponse(node, gameState), node }
+  }
+
+  static isEndingNode(node: AuthoredStoryNode): boolean {
+    return !!node.ending || node.choices.length === 0
+  }
+
+  private static toStoryResponse(node: AuthoredStoryNode, gameState: GameState): StoryResponse {
+    return {
+      storyText: node.storyText,
+      choices: node.choices,
+      gameState,
+      isEnding: this.isEndingNode(node),
+      endingType: node.ending?.type
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { safeGetChoicesArray } from '../utils/type-safety'
+import { AuthoredStoryPlayer } from './authored-stories'
+import type { Json } from '../../types/database'
+import type {
+  AnchorGoal,
+  AuthoredStory,
+  AuthoredStoryNode,
+  Choice,
+  GameState,
+  StoryStep
+} from '../../types/story'
+
+// Improvised steps allowed before an anchor plays even if its flags aren't set
+const DEFAULT_MAX_BRIDGE_STEPS = 3
+
+export interface PendingAnchor {
+  anchor: AuthoredStoryNode
+  bridgeSteps: number // Improvised steps generated since leaving the previous anchor
+}
+
+/**
+ * Decides when a hybrid story plays its next authored anchor and what the
+ * model should steer towards in the improvised steps before it
+ */
+export class HybridStoryPlanner {
+  /**
+   * Find the anchor the story is heading for: the `next` of the most recent
+   * authored choice, counting the improvised steps taken since then
+   */
+  static findPendingAnchor(
+    story: AuthoredStory,
+    steps: StoryStep[],
+    selectedChoice: Choice
+  ): PendingAnchor | null {
+    if (selectedChoice.next) {
+      return { anchor: AuthoredStoryPlayer.getNode(story, selectedChoice.next), bridgeSteps: 0 }
+    }
+
+    const ordered = [...steps].sort((a, b) => b.step_number - a.step_number)
+    const latestStepNumber = ordered[0]?.step_number || 0
+
+    for (const step of ordered) {
+      const choices = safeGetChoicesArray(step.choices as Json) as Choice[]
+      const chosen = choices.find(choice => choice?.id === step.selected_choice_id)
+
+      if (chosen?.next) {
+        return {
+          anchor: AuthoredStoryPlayer.getNode(story, chosen.next),
+          bridgeSteps: latestStepNumber - step.step_number
+        }
+      }
+    }
+
+    return null
+  }
+
+  static getMissingFlags(anchor: AuthoredStoryNode, gameState: GameState): string[] {
+    return (anchor.requiredFlags || []).filter(flag => !gameState.flags.includes(flag))
+  }
+
+  /**
+   * An anchor plays once its required flags are set, or when the bridge budget runs out
+   */
+  static isAnchorReady(pending: PendingAnchor, gameState: GameState): boolean {
+    return this.getMissingFlags(pending.anchor, gameState).length === 0 ||
+      pending.bridgeSteps >= this.getMaxBridgeSteps(pending.anchor)
+  }
+
+  static buildAnchorGoal(pending: PendingAnchor, gameState: GameState): AnchorGoal {
+    return {
+      anchorId: pending.anchor.id,
+      goal: pending.anchor.goal || this.firstSentence(pending.anchor.storyText),
+      phase: pending.anchor.phase,
+      requiredFlags: pending.anchor.requiredFlags || [],
+      missingFlags: this.getMissingFlags(pending.anchor, gameState),
+      stepsRemaining: Math.max(1, this.getMaxBridgeSteps(pending.anchor) - pending.bridgeSteps)
+    }
+  }
+
+  private static getMaxBridgeSteps(anchor: AuthoredStoryNode): number {
+    return anchor.maxBridgeSteps ?? DEFAULT_MAX_BRIDGE_STEPS
+  }
+
+  private static firstSentence(text: string): string {
+    const match = text.match(/^[\s\S]*?[.!?](\s|$)/)
+    return (match ? match[0] : text).trim()
+  }
+}
@@ -0,0 +1,5 @@
+export { AuthoredStoryRegistry, AuthoredStoryPlayer } from './authored-stories'
+export { HybridStoryPlanner } from './hybrid-planner'
+export type { PendingAnchor } from './hybrid-planner'
+export { StoryGraphValidator, AuthoredStorySchema } from './story-graph-validator'
+export type { StoryGraphIssue, StoryGraphIssueType, StoryGraphReport } from './story-graph-validator'
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { StoryGraphValidator, type StoryGraphIssueType } from './story-graph-validator'
+
+const ENDING = { title: 'Home Again', rarity: 'common', tag: 'home', type: 'triumphant' }
+
+function makeStory(nodes: unknown[], overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'test-story',
+    title: 'Test Story',
+    description: 'A small graph',
+    genre: 'fantasy',
+    length: 'quick',
+    startNodeId: 'start',
+    nodes,
+    ...overrides
+  }
+}
+
+function makeNode(id: string, choices: Array<Record<string, unknown>> = [], extra: Record<string, unknown> = {}) {
+  return { id, storyText: `You are at ${id}.`, choices, ...extra }
+}
+
+function choice(id: string, next: string, extra: Record<string, unknown> = {}) {
+  return { id, text: `Go to ${next}`, slug: `go_${next}_${id.toLowerCase()}`, next, ...extra }
+}
+
+function issueTypes(graph: unknown): StoryGraphIssueType[] {
+  const report = StoryGraphValidator.validate(graph)
+  return [...report.errors, ...report.warnings].map(issue => issue.type)
+}
+
+const VALID_STORY = makeStory([
+  makeNode('start', [choice('A', 'forest', { consequences: ['add_item:lantern'] }), choice('B', 'end')]),
+  makeNode('forest', [choice('A', 'end', { requires: ['item:lantern'] })]),
+  makeNode('end', [], { ending: ENDING })
+])
+
+describe('StoryGraphValidator.validate', () => {
+  it('accepts a well-formed graph', () => {
+    expect(StoryGraphValidator.validate(VALID_STORY)).toEqual({
+      storyId: 'test-story',
+      valid: true,
+      errors: [],
+      warnings: []
+    })
+  })
+
+  it('reports schema problems with their path', () => {
+    const report = StoryGraphValidator.validate({ id: 'broken', nodes: [] })
+
+    expect(report.valid).toBe(false)
+    expect(report.storyId).toBe('broken')
+    expect(report.errors.every(issue => issue.type === 'invalid_schema')).toBe(true)
+    expect(report.errors.map(issue => issue.message)).toContainEqual(expect.stringMatching(/^title: /))
+  })
+
+  it('reports broken links and a missing start node', () => {
+    const types = issueTypes(makeStory([
+      makeNode('intro', [choice('A', 'nowhere')]),
+      makeNode('end', [], { ending: ENDING })
+    ]))
+
+    expect(types).toContain('missing_start_node')
+    expect(types).toContain('missing_target')
+  })
+
+  it('reports duplicate nodes, choice ids and slugs', () => {
+    const types = issueTypes(makeStory([
+      makeNode('start', [choice('A', 'end', { slug: 'go' }), choice('A', 'end', { slug: 'go' })]),
+      makeNode('end', [], { ending: ENDING }),
+      makeNode('end', [], { ending: ENDING })
+    ]))
+
+    expect(types).toEqual(expect.arrayContaining(['duplicate_node', 'duplicate_choice_id', 'duplicate_slug']))
+  })
+
+  it('flags dead ends as errors and endings with choices as warnings', () => {
+    const report = StoryGraphValidator.validate(makeStory([
+      makeNode('start', [choice('A', 'stuck'), choice('B', 'end')]),
+      makeNode('stuck'),
+      makeNode('end', [choice('A', 'start')], { ending: ENDING })
+    ]))
+
+    expect(report.errors.map(issue => issue.type)).toEqual(['dead_end'])
+    expect(report.errors[0].nodeId).toBe('stuck')
+    expect(report.warnings.map(issue => issue.type)).toContain('ending_with_choices')
+  })
+
+  it('warns about unreachable nodes and loops without an ending', () => {
+    const report = StoryGraphValidator.validate(makeStory([
+      makeNode('start', [choice('A', 'loop')]),
+      makeNode('loop', [choice('A', 'start')]),
+      makeNode('end', [], { ending: ENDING })
+    ]))
+
+    expect(report.valid).toBe(true)
+    expect(report.warnings.filter(issue => issue.type === 'unreachable_node').map(issue => issue.nodeId)).toEqual(['end'])
+    expect(report.warnings.filter(issue => issue.type === 'no_reachable_ending').map(issue => issue.nodeId))
+      .toEqual(['start', 'loop'])
+  })
+
+  it('grades consequence and requirement problems', () => {
+    const report = StoryGraphValidator.validate(makeStory([
+      makeNode('start', [
+        choice('A', 'end', { consequences: ['summon_dragon:red'] }),
+        choice('B', 'end', { consequences: ['modify_stat:gold'] }),
+        choice('C', 'end', { consequences: ['add_item:moon_shard'] }),
+        choice('D', 'end', { requires: ['gold > 5'] })
+      ]),
+      makeNode('end', [], { ending: ENDING })
+    ]))
+
+    expect(report.errors.map(issue => issue.type)).toEqual(['unknown_consequence', 'invalid_requirement'])
+    expect(report.warnings.map(issue => issue.type)).toEqual(['malformed_consequence', 'unknown_item'])
+    expect(report.errors[0]).toMatchObject({ nodeId: 'start', choiceId: 'A' })
+  })
+
+  it('warns about hybrid anchors without a goal', () => {
+    const types = issueTypes(makeStory([
+      makeNode('start', [choice('A', 'end')], { requiredFlags: ['met_wizard'] }),
+      makeNode('end', [], { ending: ENDING })
+    ], { mode: 'hybrid' }))
+
+    expect(types).toEqual(['anchor_without_goal'])
+  })
+})
+
+describe('StoryGraphValidator.formatReport', () => {
+  it('lists errors before warnings', () => {
+    const report = StoryGraphValidator.validate(makeStory([
+      makeNode('start', [choice('A', 'nowhere')]),
+      makeNode('orphan', [], { ending: ENDING })
+    ]))
+    const lines = StoryGraphValidator.formatReport(report, 'stories/test.json').split('\n')
+
+    expect(lines[0]).toBe('❌ stories/test.json: 1 error(s), 2 warning(s)')
+    expect(lines[1]).toMatch(/^ {2}error {4}\[missing_target\]/)
+    expect(lines.slice(2).every(line => line.startsWith('  warning  '))).toBe(true)
+  })
+})
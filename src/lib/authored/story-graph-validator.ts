@@ -0,0 +1,292 @@
+import { z } from 'zod'
+import {
+  ChoiceSchema,
+  GameStateSchema,
+  EndingRaritySchema,
+  EndingTypeSchema
+} from '../validation/schemas'
+import { parseConsequence, parseCondition } from '../utils/consequences'
+import { ItemRegistry } from '../items/item-registry'
+import type { AuthoredStory } from '../../types/story'
+
+// Authored graph schemas, built on the shared story schemas
+export const AuthoredChoiceSchema = ChoiceSchema.extend({
+  next: z.string().min(1)
+})
+
+export const AuthoredEndingSchema = z.object({
+  title: z.string().min(1).max(255),
+  rarity: EndingRaritySchema,
+  tag: z.string().min(1).max(100),
+  type: EndingTypeSchema
+})
+
+export const AuthoredStoryNodeSchema = z.object({
+  id: z.string().min(1),
+  storyText: z.string().min(1).max(5000),
+  choices: z.array(AuthoredChoiceSchema),
+  ending: AuthoredEndingSchema.optional(),
+  phase: z.enum(['setup', 'rising_action', 'climax', 'resolution']).optional(),
+  goal: z.string().min(1).max(500).optional(),
+  requiredFlags: z.array(z.string().min(1)).optional(),
+  maxBridgeSteps: z.number().int().min(0).max(10).optional()
+})
+
+export const AuthoredStorySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  genre: z.string().min(1),
+  length: z.enum(['quick', 'standard', 'extended']),
+  mode: z.enum(['authored', 'hybrid']).optional(),
+  startNodeId: z.string().min(1),
+  initialGameState: GameStateSchema.partial().optional(),
+  nodes: z.array(AuthoredStoryNodeSchema).min(1)
+})
+
+export type StoryGraphIssueType =
+  | 'invalid_schema'
+  | 'duplicate_node'
+  | 'missing_start_node'
+  | 'missing_target'
+  | 'unreachable_node'
+  | 'dead_end'
+  | 'no_reachable_ending'
+  | 'ending_with_choices'
+  | 'duplicate_choice_id'
+  | 'duplicate_slug'
+  | 'unknown_consequence'
+  | 'malformed_consequence'
+  | 'invalid_requirement'
+  | 'unknown_item'
+  | 'anchor_without_goal'
+
+export interface StoryGraphIssue {
+  type: StoryGraphIssueType
+  severity: 'error' | 'warning'
+  message: string
+  nodeId?: string
+  choiceId?: string
+}
+
+export interface StoryGraphReport {
+  storyId: string | null
+  valid: boolean // No errors (warnings are allowed)
+  errors: StoryGraphIssue[]
+  warnings: StoryGraphIssue[]
+}
+
+/**
+ * Lints authored story graphs: broken links, unreachable or dead-end nodes,
+ * duplicate slugs and consequences the game state engine would ignore
+ */
+export class StoryGraphValidator {
+  static validate(graph: unknown): StoryGraphReport {
+    const issues: StoryGraphIssue[] = []
+    const parsed = AuthoredStorySchema.safeParse(graph)
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        issues.push({
+          type: 'invalid_schema',
+          severity: 'error',
+          message: `${issue.path.join('.') || 'story'}: ${issue.message}`
+        })
+      }
+
+      const storyId = graph && typeof graph === 'object' && typeof (graph as { id?: unknown }).id === 'string'
+        ? (graph as { id: string }).id
+        : null
+      return this.toReport(storyId, issues)
+    }
+
+    const story = parsed.data as AuthoredStory
+    const nodes = new Map<string, AuthoredStory['nodes'][number]>()
+
+    for (const node of story.nodes) {
+      if (nodes.has(node.id)) {
+        issues.push(this.error('duplicate_node', `Node "${node.id}" is defined more than once`, node.id))
+      } else {
+        nodes.set(node.id, node)
+      }
+    }
+
+    if (!nodes.has(story.startNodeId)) {
+      issues.push(this.error('missing_start_node', `Start node "${story.startNodeId}" does not exist`))
+    }
+
+    const slugOwners = new Map<string, string>()
+
+    for (const node of story.nodes) {
+      const isEnding = !!node.ending
+
+      if (!isEnding && node.choices.length === 0) {
+        issues.push(this.error('dead_end', `Node "${node.id}" has no choices and no ending`, node.id))
+      }
+      if (isEnding && node.choices.length > 0) {
+        issues.push(this.warning('ending_with_choices', `Ending node "${node.id}" has choices that will never be shown`, node.id))
+      }
+      // Without a goal the model only gets the beat's opening line to steer towards
+      if (story.mode === 'hybrid' && node.requiredFlags?.length && !node.goal) {
+        issues.push(this.warning('anchor_without_goal', `Anchor "${node.id}" has required flags but no goal for improvised steps to aim at`, node.id))
+      }
+
+      const choiceIds = new Set<string>()
+      for (const choice of node.choices) {
+        if (choiceIds.has(choice.id)) {
+          issues.push(this.error('duplicate_choice_id', `Choice id "${choice.id}" is used more than once in node "${node.id}"`, node.id, choice.id))
+        }
+        choiceIds.add(choice.id)
+
+        const owner = `${node.id}/${choice.id}`
+        const existingOwner = slugOwners.get(choice.slug)
+        if (existingOwner) {
+          issues.push(this.error('duplicate_slug', `Slug "${choice.slug}" is used by both ${existingOwner} and ${owner}`, node.id, choice.id))
+        } else {
+          slugOwners.set(choice.slug, owner)
+        }
+
+        if (!nodes.has(choice.next)) {
+          issues.push(this.error('missing_target', `Choice ${owner} leads to missing node "${choice.next}"`, node.id, choice.id))
+        }
+
+        for (const requirement of choice.requires || []) {
+          if (!parseCondition(requirement)) {
+            issues.push(this.error('invalid_requirement', `Choice ${owner} has a requirement that can't be parsed: "${requirement}"`, node.id, choice.id))
+          }
+        }
+
+        for (const consequence of choice.consequences || []) {
+          const issue = this.checkConsequence(consequence)
+          if (issue) {
+            issues.push({ ...issue, nodeId: node.id, choiceId: choice.id, message: `${owner}: ${issue.message}` })
+          }
+        }
+      }
+    }
+
+    if (nodes.has(story.startNodeId)) {
+      const reachable = this.findReachable(story.startNodeId, nodes)
+
+      for (const node of Array.from(nodes.values())) {
+        if (!reachable.has(node.id)) {
+          issues.push(this.warning('unreachable_node', `Node "${node.id}" can't be reached from "${story.startNodeId}"`, node.id))
+        }
+      }
+
+      // Nodes stuck in loops that never lead to an ending
+      const canFinish = this.findNodesReachingEnding(nodes)
+      for (const nodeId of Array.from(reachable)) {
+        const node = nodes.get(nodeId)
+        if (node && node.choices.length > 0 && !canFinish.has(nodeId)) {
+          issues.push(this.warning('no_reachable_ending', `No ending can be reached from node "${nodeId}"`, nodeId))
+        }
+      }
+    }
+
+    return this.toReport(story.id, issues)
+  }
+
+  /**
+   * Format a report as human-readable lines (used by the CLI)
+   */
+  static formatReport(report: StoryGraphReport, source?: string): string {
+    const name = source || report.storyId || 'story'
+    const lines = [`${report.valid ? '✅' : '❌'} ${name}: ${report.errors.length} error(s), ${report.warnings.length} warning(s)`]
+
+    for (const issue of report.errors) {
+      lines.push(`  error    [${issue.type}] ${issue.message}`)
+    }
+    for (const issue of report.warnings) {
+      lines.push(`  warning  [${issue.type}] ${issue.message}`)
+    }
+
+    return lines.join('\n')
+  }
+
+  private static checkConsequence(consequence: string): Omit<StoryGraphIssue, 'nodeId' | 'choiceId'> | null {
+    const result = parseConsequence(consequence)
+    if (result.ok) {
+      const effect = result.consequence.effect
+      // Undefined items still work, but show up with a placeholder name and icon
+      if (effect.action === 'add_item' && !ItemRegistry.get(effect.item)) {
+        return {
+          type: 'unknown_item',
+          severity: 'warning',
+          message: `Item "${effect.item}" has no definition in the item catalog`
+        }
+      }
+      return null
+    }
+
+    // Unknown actions are a typo in the story; bad parameters or conditions only disable that effect
+    const unknown = result.error.kind === 'unknown_action'
+    return {
+      type: unknown ? 'unknown_consequence' : 'malformed_consequence',
+      severity: unknown ? 'error' : 'warning',
+      message: `${result.error.message} in "${consequence}"${unknown ? '' : ' - it will have no effect'}`
+    }
+  }
+
+  private static findReachable(
+    startNodeId: string,
+    nodes: Map<string, AuthoredStory['nodes'][number]>
+  ): Set<string> {
+    const reachable = new Set<string>([startNodeId])
+    const queue = [startNodeId]
+
+    while (queue.length > 0) {
+      const node = nodes.get(queue.shift()!)
+      if (!node || node.ending) continue
+
+      for (const choice of node.choices) {
+        if (nodes.has(choice.next) && !reachable.has(choice.next)) {
+          reachable.add(choice.next)
+          queue.push(choice.next)
+        }
+      }
+    }
+
+    return reachable
+  }
+
+  private static findNodesReachingEnding(nodes: Map<string, AuthoredStory['nodes'][number]>): Set<string> {
+    const finishing = new Set<string>()
+    for (const node of Array.from(nodes.values())) {
+      if (node.ending) finishing.add(node.id)
+    }
+
+    // Walk backwards until no more nodes can be added
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const node of Array.from(nodes.values())) {
+        if (finishing.has(node.id)) continue
+        if (node.choices.some(choice => finishing.has(choice.next))) {
+          finishing.add(node.id)
+          changed = true
+        }
+      }
+    }
+
+    return finishing
+  }
+
+  private static toReport(storyId: string | null, issues: StoryGraphIssue[]): StoryGraphReport {
+    const errors = issues.filter(issue => issue.severity === 'error')
+    return {
+      storyId,
+      valid: errors.length === 0,
+      errors,
+      warnings: issues.filter(issue => issue.severity === 'warning')
+    }
+  }
+
+  private static error(type: StoryGraphIssueType, message: string, nodeId?: string, choiceId?: string): StoryGraphIssue {
+    return { type, severity: 'error', message, nodeId, choiceId }
+  }
+
+  private static warning(type: StoryGraphIssueType, message: string, nodeId?: string, choiceId?: string): StoryGraphIssue {
+    return { type, severity: 'warning', message, nodeId, choiceId }
+  }
+}
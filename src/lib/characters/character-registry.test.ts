@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { CharacterRegistry } from './character-registry'
+import type { StoryCharacter } from '../../types/story'
+
+function character(id: string, overrides: Partial<StoryCharacter> = {}): StoryCharacter {
+  return { id, name: id, aliases: [], bio: '', firstAppearanceStep: 1, ...overrides }
+}
+
+describe('CharacterRegistry.toKey', () => {
+  it('lowercases and drops articles and titles', () => {
+    expect(CharacterRegistry.toKey('The Old Wizard')).toBe('old_wizard')
+    expect(CharacterRegistry.toKey('Dr. Helena Voss')).toBe('helena_voss')
+    expect(CharacterRegistry.toKey('the')).toBe('')
+  })
+})
+
+describe('CharacterRegistry.find', () => {
+  const roster = [character('old_wizard', { aliases: ['merlin'] }), character('ada')]
+
+  it('matches ids, aliases and other spellings', () => {
+    expect(CharacterRegistry.find(roster, 'Old Wizard')?.id).toBe('old_wizard')
+    expect(CharacterRegistry.find(roster, 'MERLIN')?.id).toBe('old_wizard')
+    expect(CharacterRegistry.find(roster, 'the_wizard')?.id).toBe('old_wizard')
+  })
+
+  it('does not match short names as suffixes', () => {
+    expect(CharacterRegistry.find([character('big_al')], 'Al')).toBeNull()
+    expect(CharacterRegistry.find(roster, 'Wizardry')).toBeNull()
+  })
+})
+
+describe('CharacterRegistry.register', () => {
+  it('adds new characters with a display name', () => {
+    const { roster, character: added } = CharacterRegistry.register([], 'captain_reyes', 4, 'Ship captain')
+    expect(added).toEqual({ id: 'captain_reyes', name: 'Captain Reyes', aliases: [], bio: 'Ship captain', firstAppearanceStep: 4 })
+    expect(roster).toEqual([added])
+  })
+
+  it('records new spellings as aliases without mutating the roster', () => {
+    const original = [character('wizard')]
+    const { roster, character: found } = CharacterRegistry.register(original, 'The Old Wizard', 3)
+    expect(found?.id).toBe('wizard')
+    expect(roster[0].aliases).toEqual(['old_wizard'])
+    expect(original[0].aliases).toEqual([])
+  })
+
+  it('fills in a missing bio but keeps an existing one', () => {
+    const withBio = CharacterRegistry.register([character('ada')], 'Ada', 2, 'Engineer').roster
+    expect(withBio[0].bio).toBe('Engineer')
+    expect(CharacterRegistry.register(withBio, 'Ada', 3, 'Spy').roster[0].bio).toBe('Engineer')
+  })
+
+  it('returns the same roster when nothing changes', () => {
+    const roster = [character('ada')]
+    expect(CharacterRegistry.register(roster, 'ada', 2).roster).toBe(roster)
+  })
+})
+
+describe('CharacterRegistry.canonicalizeChoices', () => {
+  it('rewrites relationship targets in consequences and requirements', () => {
+    const { roster, choices } = CharacterRegistry.canonicalizeChoices([character('wizard')], [{
+      id: 'A',
+      text: 'Ask for help',
+      slug: 'ask_help',
+      consequences: ['modify_relationship:Old_Wizard:10', 'add_flag:asked'],
+      requires: ['relationship:the_wizard >= 20']
+    }, {
+      id: 'B',
+      text: 'Befriend the guard',
+      slug: 'befriend_guard',
+      consequences: ['set_relationship:Guard:5']
+    }], 2)
+
+    expect(choices[0].consequences).toEqual(['modify_relationship:wizard:10', 'add_flag:asked'])
+    expect(choices[0].requires).toEqual(['relationship:wizard >= 20'])
+    expect(choices[1].consequences).toEqual(['set_relationship:guard:5'])
+    expect(roster.map(entry => entry.id)).toEqual(['wizard', 'guard'])
+  })
+})
+
+describe('CharacterRegistry.normalizeRelationships', () => {
+  it('merges spellings of the same character and clamps the total', () => {
+    const { roster, relationships } = CharacterRegistry.normalizeRelationships(
+      [character('wizard')],
+      { Wizard: 60, old_wizard: 70, 'The Guard': -10 },
+      5
+    )
+    expect(relationships).toEqual({ wizard: 100, guard: -10 })
+    expect(roster.find(entry => entry.id === 'guard')?.firstAppearanceStep).toBe(5)
+  })
+})
+
+describe('CharacterRegistry.fromJson', () => {
+  it('keeps valid entries and fills in defaults', () => {
+    expect(CharacterRegistry.fromJson([
+      { id: 'ada', name: 'Ada', aliases: ['countess', 3] },
+      { name: 'No id' },
+      'junk'
+    ])).toEqual([{ id: 'ada', name: 'Ada', aliases: ['countess'], bio: '', firstAppearanceStep: 1 }])
+    expect(CharacterRegistry.fromJson(null)).toEqual([])
+  })
+})
@@ -0,0 +1,170 @@
+import type { Json } from '../../types/database'
+import type { Choice, StoryCharacter } from '../../types/story'
+
+// Words dropped when comparing names, so "The Old Wizard" can match "wizard"
+const IGNORED_WORDS = ['the', 'a', 'an', 'mr', 'mrs', 'ms', 'dr']
+
+// Matches the character name in "set_relationship:NAME:..", "modify_relationship:NAME:.." and "relationship:NAME >= .."
+const RELATIONSHIP_TARGET = /(relationship:)([^:\s<>=!]+)/g
+
+/**
+ * Per-run registry of named characters. Relationship keys the model invents
+ * ("wizard", "Wizard", "the_old_wizard") are resolved onto one canonical id.
+ *
+ * Functions return a new roster rather than mutating the one passed in.
+ */
+export class CharacterRegistry {
+  /**
+   * Read a run's roster from its JSON column
+   */
+  static fromJson(json: Json | null | undefined): StoryCharacter[] {
+    if (!Array.isArray(json)) return []
+
+    return json.filter((entry): entry is Record<string, Json> =>
+      !!entry && typeof entry === 'object' && !Array.isArray(entry) &&
+      typeof entry.id === 'string' && typeof entry.name === 'string'
+    ).map(entry => ({
+      id: entry.id as string,
+      name: entry.name as string,
+      aliases: Array.isArray(entry.aliases) ? entry.aliases.filter((alias): alias is string => typeof alias === 'string') : [],
+      bio: typeof entry.bio === 'string' ? entry.bio : '',
+      firstAppearanceStep: typeof entry.firstAppearanceStep === 'number' ? entry.firstAppearanceStep : 1
+    }))
+  }
+
+  /**
+   * Canonical key for a name: lowercase snake_case without articles or titles
+   */
+  static toKey(name: string): string {
+    return name
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !IGNORED_WORDS.includes(word))
+      .join('_')
+  }
+
+  /**
+   * Find the character a name refers to. Besides exact ids and aliases, a name
+   * matches when one is the other with extra leading words ("old_wizard" / "wizard").
+   */
+  static find(roster: StoryCharacter[], name: string): StoryCharacter | null {
+    const key = this.toKey(name)
+    if (!key) return null
+
+    const exact = roster.find(character => character.id === key || character.aliases.includes(key))
+    if (exact) return exact
+
+    return roster.find(character => this.isSuffixMatch(character.id, key)) || null
+  }
+
+  /**
+   * Resolve a name to a character, adding it (or the new spelling) to the roster
+   */
+  static register(
+    roster: StoryCharacter[],
+    name: string,
+    step: number,
+    bio = ''
+  ): { roster: StoryCharacter[]; character: StoryCharacter | null } {
+    const key = this.toKey(name)
+    if (!key) return { roster, character: null }
+
+    const existing = this.find(roster, name)
+    if (existing) {
+      const isNewSpelling = existing.id !== key && !existing.aliases.includes(key)
+      const needsBio = !existing.bio && !!bio
+      if (!isNewSpelling && !needsBio) return { roster, character: existing }
+
+      const updated: StoryCharacter = {
+        ...existing,
+        aliases: isNewSpelling ? [...existing.aliases, key] : existing.aliases,
+        bio: existing.bio || bio
+      }
+      return {
+        roster: roster.map(character => character.id === existing.id ? updated : character),
+        character: updated
+      }
+    }
+
+    const character: StoryCharacter = {
+      id: key,
+      name: this.toDisplayName(name),
+      aliases: [],
+      bio,
+      firstAppearanceStep: step
+    }
+    return { roster: [...roster, character], character }
+  }
+
+  /**
+   * Register characters the model introduced in a step
+   */
+  static registerAll(
+    roster: StoryCharacter[],
+    characters: { name: string; bio: string }[],
+    step: number
+  ): StoryCharacter[] {
+    return characters.reduce((current, character) =>
+      this.register(current, character.name, step, character.bio).roster, roster)
+  }
+
+  /**
+   * Rewrite relationship targets in consequences and requirements onto canonical ids
+   */
+  static canonicalizeChoices(
+    roster: StoryCharacter[],
+    choices: Choice[],
+    step: number
+  ): { roster: StoryCharacter[]; choices: Choice[] } {
+    let current = roster
+
+    const rewrite = (entries?: string[]) => entries?.map(entry =>
+      entry.replace(RELATIONSHIP_TARGET, (match, prefix: string, name: string) => {
+        const result = this.register(current, name, step)
+        current = result.roster
+        return result.character ? `${prefix}${result.character.id}` : match
+      })
+    )
+
+    const canonicalChoices = choices.map(choice => ({
+      ...choice,
+      consequences: rewrite(choice.consequences),
+      requires: rewrite(choice.requires)
+    }))
+
+    return { roster: current, choices: canonicalChoices }
+  }
+
+  /**
+   * Merge relationship entries stored under different spellings of the same character
+   */
+  static normalizeRelationships(
+    roster: StoryCharacter[],
+    relationships: Record<string, number>,
+    step: number
+  ): { roster: StoryCharacter[]; relationships: Record<string, number> } {
+    let current = roster
+    const normalized: Record<string, number> = {}
+
+    for (const [name, value] of Object.entries(relationships)) {
+      const result = this.register(current, name, step)
+      current = result.roster
+      const id = result.character?.id || name
+      normalized[id] = Math.max(-100, Math.min(100, (normalized[id] || 0) + value))
+    }
+
+    return { roster: current, relationships: normalized }
+  }
+
+  private static isSuffixMatch(a: string, b: string): boolean {
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+    return shorter.length >= 3 && longer.endsWith(`_${shorter}`)
+  }
+
+  private static toDisplayName(name: string): string {
+    return name
+      .replace(/_/g, ' ')
+      .trim()
+      .replace(/\b\w/g, letter => letter.toUpperCase())
+  }
+}
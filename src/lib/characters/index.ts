@@ -0,0 +1 @@
+export { CharacterRegistry } from './character-registry'
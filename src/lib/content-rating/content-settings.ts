@@ -0,0 +1,135 @@
+import { supabase } from '../supabase/client'
+import { UserProfileQueries } from '../supabase/queries'
+import type { Json } from '../../types/database'
+import type { ContentRating, ContentSettings, ContentTheme } from '../../types/story'
+
+// Mirrored in supabase/functions/generate-story/content-rating.ts
+
+const RATINGS: ContentRating[] = ['kids', 'teen', 'mature']
+
+// Themes a rating allows until the player (or their guardian) changes them
+const RATING_DEFAULTS: Record<ContentRating, Omit<ContentSettings, 'rating'>> = {
+  kids: { violence: false, romance: false, fear: false },
+  teen: { violence: true, romance: true, fear: true },
+  mature: { violence: true, romance: true, fear: true }
+}
+
+// Genres that can't be told without a theme
+const GENRE_THEMES: Record<string, ContentTheme> = {
+  horror: 'fear',
+  romance: 'romance',
+  thriller: 'violence'
+}
+
+// Guardian PINs are 4-8 digits
+const PIN_PATTERN = /^\d{4,8}$/
+
+export interface ContentProfile {
+  settings: ContentSettings | null // null until a rating is saved; stories then follow the challenge level
+  locked: boolean // A guardian PIN is required to change the settings
+}
+
+/**
+ * Per-user content rating and theme preferences. Changes go through RPCs that
+ * check the guardian PIN in the database; the content columns of user_profiles
+ * aren't writable by clients (see "Content Settings Functions" in the AI README).
+ */
+export class ContentRatings {
+  /**
+   * A rating with its default themes
+   */
+  static defaultsFor(rating: ContentRating): ContentSettings {
+    return { rating, ...RATING_DEFAULTS[rating] }
+  }
+
+  /**
+   * Read the settings saved on a profile row, or null when no rating is set
+   */
+  static fromProfile(profile: { content_rating: string | null; content_preferences: Json | null }): ContentSettings | null {
+    const rating = profile.content_rating as ContentRating
+    if (!RATINGS.includes(rating)) return null
+
+    const preferences = profile.content_preferences && typeof profile.content_preferences === 'object' && !Array.isArray(profile.content_preferences)
+      ? profile.content_preferences
+      : {}
+    const defaults = RATING_DEFAULTS[rating]
+
+    return {
+      rating,
+      violence: typeof preferences.violence === 'boolean' ? preferences.violence : defaults.violence,
+      romance: typeof preferences.romance === 'boolean' ? preferences.romance : defaults.romance,
+      fear: typeof preferences.fear === 'boolean' ? preferences.fear : defaults.fear
+    }
+  }
+
+  /**
+   * Whether a genre's core theme is allowed. Every genre is allowed without settings.
+   */
+  static isGenreAllowed(genre: string, settings: ContentSettings | null): boolean {
+    const theme = GENRE_THEMES[genre]
+    return !settings || !theme || settings[theme]
+  }
+
+  static isValidPin(pin: string): boolean {
+    return PIN_PATTERN.test(pin)
+  }
+
+  /**
+   * Load a user's content settings and whether they're guardian-locked
+   */
+  static async load(userId: string): Promise<ContentProfile> {
+    const profile = await UserProfileQueries.getById(userId)
+    if (!profile) {
+      return { settings: null, locked: false }
+    }
+
+    return {
+      settings: this.fromProfile(profile),
+      locked: profile.content_settings_locked === true
+    }
+  }
+
+  /**
+   * Save the signed-in user's settings. Locked settings need the guardian PIN.
+   */
+  static async save(settings: ContentSettings, guardianPin?: string): Promise<void> {
+    const { data, error } = await supabase.rpc('update_content_settings', {
+      new_rating: settings.rating,
+      new_preferences: { violence: settings.violence, romance: settings.romance, fear: settings.fear },
+      guardian_pin: guardianPin
+    })
+
+    if (error) {
+      console.error('Error saving content settings:', error)
+      throw new Error(`Failed to save content settings: ${error.message}`)
+    }
+
+    if (data === false) {
+      throw new Error('Incorrect guardian PIN')
+    }
+  }
+
+  /**
+   * Lock the signed-in user's settings behind a new PIN, change the PIN, or
+   * remove the lock (newPin null). Changing or removing needs the current PIN.
+   */
+  static async setGuardianPin(newPin: string | null, currentPin?: string): Promise<void> {
+    if (newPin !== null && !this.isValidPin(newPin)) {
+      throw new Error('Guardian PIN must be 4-8 digits')
+    }
+
+    const { data, error } = await supabase.rpc('set_guardian_pin', {
+      new_pin: newPin ?? undefined,
+      current_pin: currentPin
+    })
+
+    if (error) {
+      console.error('Error setting guardian PIN:', error)
+      throw new Error(`Failed to set guardian PIN: ${error.message}`)
+    }
+
+    if (data === false) {
+      throw new Error('Incorrect guardian PIN')
+    }
+  }
+}
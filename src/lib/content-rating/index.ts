@@ -0,0 +1,2 @@
+export { ContentRatings } from './content-settings'
+export type { ContentProfile } from './content-settings'
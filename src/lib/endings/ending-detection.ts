@@ -1,5 +1,6 @@
 import type { StoryRun, GameState, PersonalityTraits } from '@/types/story'
 import { EndingRarity } from '@/types/story'
+import { pickItem } from '@/lib/utils/seeded-random'
 
 export interface EndingClassification {
   endingTag: string
@@ -22,7 +23,8 @@ export function detectEnding(
   gameState: GameState,
   personalityTraits: PersonalityTraits,
   genre: string,
-  storyLength: string
+  storyLength: string,
+  seed?: number // Picks the ending template reproducibly for seeded runs
 ): EndingDetectionResult {
   // Enhanced ending keyword detection
   const strongEndingKeywords = [
@@ -83,7 +85,7 @@ export function detectEnding(
   }
 
   // Classify the ending with enhanced criteria
-  const classification = classifyEnding(storyText, gameState, personalityTraits, genre)
+  const classification = classifyEnding(storyText, gameState, personalityTraits, genre, seed)
   
   return {
     isEnding: true,
@@ -98,7 +100,8 @@ function classifyEnding(
   storyText: string,
   gameState: GameState,
   personalityTraits: PersonalityTraits,
-  genre: string
+  genre: string,
+  seed?: number
 ): EndingClassification {
   const text = storyText.toLowerCase()
   
@@ -158,7 +161,7 @@ function classifyEnding(
   }
 
   // Generate title and description
-  const { title, description } = generateEndingContent(category, endingTag, gameState, personalityTraits, genre)
+  const { title, description } = generateEndingContent(category, endingTag, gameState, personalityTraits, genre, seed)
 
   return {
     endingTag,
@@ -211,10 +214,11 @@ function generateEndingContent(
   endingTag: string,
   gameState: GameState,
   personalityTraits: PersonalityTraits,
-  genre: string
+  genre: string,
+  seed?: number
 ): { title: string; description: string } {
   const templates = getEndingTemplates(genre, category)
-  const template = templates[Math.floor(Math.random() * templates.length)]
+  const template = pickItem(templates, seed)
   
   // Replace placeholders with actual game data
   const dominantTrait = Object.entries(personalityTraits)
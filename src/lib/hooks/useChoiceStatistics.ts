@@ -38,6 +38,10 @@ export function useChoiceStatistics({
   const impressionsTracked = useRef<Set<string>>(new Set())
   const selectionsTracked = useRef<Set<string>>(new Set())
 
+  // The step's choices, so a moderator ban on any of them stops its statistics
+  const choicesRef = useRef(choices)
+  choicesRef.current = choices
+
   // Memoize the onStatisticsLoaded callback to prevent unnecessary re-renders
   const memoizedOnStatisticsLoaded = useCallback(
     (stats: ChoiceStatistic[]) => {
@@ -61,7 +65,7 @@ export function useChoiceStatistics({
         
         // Backfill guard: only track if not already tracked in this session
         if (!impressionsTracked.current.has(trackingKey)) {
-          await ChoiceStatsQueries.incrementImpressions(choiceSlug, choice.id, genre)
+          await ChoiceStatsQueries.incrementImpressions(choiceSlug, choice.id, genre, choices)
           impressionsTracked.current.add(trackingKey)
         }
       })
@@ -84,7 +88,7 @@ export function useChoiceStatistics({
       
       // Backfill guard: only track if not already tracked in this session
       if (!selectionsTracked.current.has(trackingKey)) {
-        await ChoiceStatsQueries.incrementSelections(choiceSlug, optionId, genre)
+        await ChoiceStatsQueries.incrementSelections(choiceSlug, optionId, genre, choicesRef.current)
         selectionsTracked.current.add(trackingKey)
       }
     } catch (error) {
@@ -100,7 +104,7 @@ export function useChoiceStatistics({
     setState(prev => ({ ...prev, isLoading: true, error: null }))
 
     try {
-      const stats = await ChoiceStatsQueries.getChoiceStatistics(choiceSlug, genre)
+      const stats = await ChoiceStatsQueries.getChoiceStatistics(choiceSlug, genre, choicesRef.current)
       setState(prev => ({ 
         ...prev, 
         statistics: stats, 
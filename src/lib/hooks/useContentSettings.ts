@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/auth/AuthProvider'
+import { ContentRatings } from '@/lib/content-rating'
+import type { ContentSettings } from '@/types/story'
+
+/**
+ * The signed-in user's content rating and guardian lock. Guests have no
+ * settings, so every genre stays available to them.
+ */
+export function useContentSettings() {
+  const { user } = useAuth()
+  const [settings, setSettings] = useState<ContentSettings | null>(null)
+  const [locked, setLocked] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSettings = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+      const profile = await ContentRatings.load(user.id)
+      setSettings(profile.settings)
+      setLocked(profile.locked)
+    } catch (err) {
+      console.error('Error loading content settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load content settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      loadSettings()
+    } else {
+      setSettings(null)
+      setLocked(false)
+      setLoading(false)
+    }
+  }, [user, loadSettings])
+
+  const saveSettings = async (newSettings: ContentSettings, guardianPin?: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated')
+
+    await ContentRatings.save(newSettings, guardianPin)
+    setSettings(newSettings)
+  }
+
+  const setGuardianPin = async (newPin: string | null, currentPin?: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated')
+
+    await ContentRatings.setGuardianPin(newPin, currentPin)
+    setLocked(newPin !== null)
+  }
+
+  const isGenreAllowed = useCallback(
+    (genre: string) => ContentRatings.isGenreAllowed(genre, settings),
+    [settings]
+  )
+
+  return {
+    settings,
+    locked,
+    loading,
+    error,
+    isGenreAllowed,
+    saveSettings,
+    setGuardianPin,
+    reload: loadSettings
+  }
+}
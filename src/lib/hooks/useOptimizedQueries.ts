@@ -2,6 +2,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { StoryRunQueries, StoryStepQueries, UserProfileQueries, ChoiceStatsQueries } from '@/lib/supabase/queries'
+import { StoryTreeBuilder } from '@/lib/story/story-tree'
 import type { StoryRun, StoryStep } from '@/types/story'
 import type { Database } from '@/types/database'
 
@@ -12,6 +13,7 @@ export const queryKeys = {
   storyRun: (id: string) => ['storyRuns', id] as const,
   userStoryRuns: (userId: string) => ['storyRuns', 'user', userId] as const,
   sessionStoryRuns: (sessionId: string) => ['storyRuns', 'session', sessionId] as const,
+  userStoryTree: (userId: string) => ['storyRuns', 'tree', userId] as const,
   
   // Story steps
   storySteps: ['storySteps'] as const,
@@ -62,6 +64,22 @@ export function useSessionStoryRuns(sessionId: string) {
   })
 }
 
+// All of a user's runs merged into branching trees, one per genre
+export function useStoryTree(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.userStoryTree(userId),
+    queryFn: async () => {
+      const runs = await StoryRunQueries.getByUserId(userId)
+      const steps = await Promise.all(runs.map(run => StoryStepQueries.getByStoryRunId(run.id)))
+      const stepsByRun = Object.fromEntries(runs.map((run, index) => [run.id, steps[index]]))
+      return StoryTreeBuilder.build(runs, stepsByRun)
+    },
+    enabled: !!userId,
+    staleTime: 1 * 60 * 1000, // 1 minute - same as the user's story list
+    gcTime: 3 * 60 * 1000, // 3 minutes
+  })
+}
+
 // Optimized story step hooks
 export function useStoryRunSteps(storyRunId: string) {
   return useQuery({
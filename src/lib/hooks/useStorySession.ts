@@ -1,6 +1,9 @@
-import { useState, useCallback, useEffect, useMemo } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { StoryFlowService } from '../story/story-flow'
+import { StoryStepQueries } from '../supabase/queries'
+import { CharacterRegistry } from '../characters/character-registry'
+import { TimedChoices } from '../story/timed-choices'
 import { generateSessionId } from '../ai/story-generation'
 import { supabase } from '../supabase/client'
 import type { 
@@ -16,11 +19,14 @@ export interface UseStorySessionOptions {
   onChoiceSelected?: (result: ChoiceSelectionResult) => void
   onError?: (error: Error) => void
   onStoryCompleted?: (session: StorySession) => void
+  pregenerate?: boolean // Premium: draft the next step for each choice as soon as a step renders
 }
 
 export function useStorySession(options: UseStorySessionOptions = {}) {
   const [sessionId] = useState(() => generateSessionId())
   const [currentStoryRunId, setCurrentStoryRunId] = useState<string | null>(null)
+  // Partial text of the step being generated; null when nothing is streaming
+  const [streamingText, setStreamingText] = useState<string | null>(null)
   const queryClient = useQueryClient()
 
   // Get current user
@@ -57,13 +63,15 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
         sessionId,
         userId: user.id
       }
-      return StoryFlowService.createStorySession(fullRequest)
+      return StoryFlowService.createStorySession(fullRequest, { onStoryText: setStreamingText })
     },
     onSuccess: (session) => {
+      setStreamingText(null)
       setCurrentStoryRunId(session.storyRun.id)
       queryClient.setQueryData(['storySession', session.storyRun.id], session)
     },
     onError: (error) => {
+      setStreamingText(null)
       console.error('Error creating story session:', error)
       options.onError?.(error as Error)
     }
@@ -71,21 +79,50 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
 
   // Select choice mutation
   const selectChoiceMutation = useMutation({
-    mutationFn: async ({ choiceId, choiceSlug }: { choiceId: string; choiceSlug: string }) => {
+    mutationFn: async (
+      selection: { choiceId: string; choiceSlug: string } | { timedOut: true } | { customAction: string }
+    ) => {
       if (!currentSession?.currentStep) {
         throw new Error('No active story step')
       }
+
+      // The player typed their own action - the model decides what it does
+      if ('customAction' in selection) {
+        return StoryFlowService.submitCustomAction(
+          currentSession.storyRun.id,
+          currentSession.currentStep.id,
+          selection.customAction,
+          { onStoryText: setStreamingText }
+        )
+      }
+
+      // A timed step ran out - the server picks and records the default choice
+      if ('timedOut' in selection) {
+        return StoryFlowService.expireChoice(
+          currentSession.storyRun.id,
+          currentSession.currentStep.id,
+          { onStoryText: setStreamingText }
+        )
+      }
       
       return StoryFlowService.selectChoice(
         currentSession.storyRun.id,
         currentSession.currentStep.id,
-        choiceId,
-        choiceSlug
+        selection.choiceId,
+        selection.choiceSlug,
+        { onStoryText: setStreamingText }
       )
     },
     onSuccess: (result) => {
+      // Show the new step right away instead of the previous one until the refetch lands
+      if (result.progressionResult && currentStoryRunId) {
+        queryClient.setQueryData(['storySession', currentStoryRunId], result.progressionResult.session)
+      }
+      setStreamingText(null)
+
       // Refetch the session to get updated state
       refetchSession()
+      queryClient.invalidateQueries({ queryKey: ['storyHistory', currentStoryRunId] })
       
       options.onChoiceSelected?.(result)
       
@@ -98,11 +135,49 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
       }
     },
     onError: (error) => {
+      setStreamingText(null)
       console.error('Error selecting choice:', error)
       options.onError?.(error as Error)
     }
   })
 
+  // Earlier steps of the current run, for rewinding
+  const { data: storyHistory = [] } = useQuery({
+    queryKey: ['storyHistory', currentStoryRunId],
+    queryFn: () => currentStoryRunId ? StoryStepQueries.getByStoryRunId(currentStoryRunId) : [],
+    enabled: !!currentStoryRunId
+  })
+
+  // Rewind mutation - forks a new run from an earlier step
+  const forkMutation = useMutation({
+    mutationFn: (stepId: string) => StoryFlowService.forkFromStep(stepId),
+    onSuccess: (session) => {
+      setCurrentStoryRunId(session.storyRun.id)
+      queryClient.setQueryData(['storySession', session.storyRun.id], session)
+    },
+    onError: (error) => {
+      console.error('Error forking story session:', error)
+      options.onError?.(error as Error)
+    }
+  })
+
+  // Use an inventory item in the current step
+  const applyItemMutation = useMutation({
+    mutationFn: (itemId: string) => {
+      if (!currentStoryRunId) {
+        throw new Error('No active story session')
+      }
+      return StoryFlowService.applyItem(currentStoryRunId, itemId)
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData(['storySession', session.storyRun.id], session)
+    },
+    onError: (error) => {
+      console.error('Error using item:', error)
+      options.onError?.(error as Error)
+    }
+  })
+
   // Start a new story
   const startNewStory = useCallback((request: Omit<StoryGenerationRequest, 'sessionId' | 'userId'>) => {
     if (!user?.id) {
@@ -113,6 +188,17 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
     createSessionMutation.mutate(request)
   }, [createSessionMutation, user?.id, options])
 
+  // Draft every choice's next step once per rendered step so selecting one is instant
+  const pregeneratedStepRef = useRef<string | null>(null)
+  const pregenerate = !!options.pregenerate
+  useEffect(() => {
+    const stepId = currentSession?.currentStep?.id
+    if (!pregenerate || !currentSession || !stepId || pregeneratedStepRef.current === stepId) return
+
+    pregeneratedStepRef.current = stepId
+    StoryFlowService.pregenerateNextSteps(currentSession)
+  }, [pregenerate, currentSession])
+
   // Select a choice in the current story
   const selectChoice = useCallback((choiceId: string, choiceSlug: string) => {
     if (!currentSession) {
@@ -121,6 +207,32 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
     selectChoiceMutation.mutate({ choiceId, choiceSlug })
   }, [currentSession, selectChoiceMutation])
 
+  // Let the default choice happen when a timed step's countdown runs out
+  const expireChoice = useCallback(() => {
+    if (!currentSession) {
+      throw new Error('No active story session')
+    }
+    selectChoiceMutation.mutate({ timedOut: true })
+  }, [currentSession, selectChoiceMutation])
+
+  // Play an action the player wrote instead of one of the offered choices
+  const submitCustomAction = useCallback((actionText: string) => {
+    if (!currentSession) {
+      throw new Error('No active story session')
+    }
+    selectChoiceMutation.mutate({ customAction: actionText })
+  }, [currentSession, selectChoiceMutation])
+
+  // Rewind to an earlier step and continue from there in a new run
+  const forkFromStep = useCallback((stepId: string) => {
+    forkMutation.mutate(stepId)
+  }, [forkMutation])
+
+  // Use an item from the inventory
+  const applyItem = useCallback((itemId: string) => {
+    applyItemMutation.mutate(itemId)
+  }, [applyItemMutation])
+
   // Load an existing story session
   const loadStorySession = useCallback((storyRunId: string) => {
     setCurrentStoryRunId(storyRunId)
@@ -135,10 +247,10 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
   // Computed values
   const isActive = !!currentSession && !currentSession.isCompleted
   const canMakeChoice = isActive && currentSession?.currentStep && !selectChoiceMutation.isPending
-  const isProcessing = createSessionMutation.isPending || selectChoiceMutation.isPending
-  const hasError = !!sessionError || !!createSessionMutation.error || !!selectChoiceMutation.error
+  const isProcessing = createSessionMutation.isPending || selectChoiceMutation.isPending || forkMutation.isPending || applyItemMutation.isPending
+  const hasError = !!sessionError || !!createSessionMutation.error || !!selectChoiceMutation.error || !!forkMutation.error || !!applyItemMutation.error
 
-  const currentError = sessionError || createSessionMutation.error || selectChoiceMutation.error
+  const currentError = sessionError || createSessionMutation.error || selectChoiceMutation.error || forkMutation.error || applyItemMutation.error
 
   return {
     // Session state
@@ -150,24 +262,39 @@ export function useStorySession(options: UseStorySessionOptions = {}) {
     // Actions
     startNewStory,
     selectChoice,
+    expireChoice,
+    submitCustomAction,
+    forkFromStep,
+    applyItem,
     loadStorySession,
     resetSession,
     
     // Choice handling
     canMakeChoice,
     availableChoices: (currentSession?.currentStep?.choices as Choice[]) || [],
+    timeLimitSeconds: currentSession?.currentStep?.time_limit_seconds || null,
+    choiceDeadline: currentSession?.currentStep ? TimedChoices.getStepDeadline(currentSession.currentStep) : null,
+    // Typed actions are improvised by the model, so authored stories don't offer them
+    canWriteOwnAction: !currentSession?.storyRun.authored_story_id,
     
     // Story progression
     currentStep: currentSession?.currentStep,
     gameState: currentSession?.gameState,
     personalityTraits: currentSession?.personalityTraits,
     storyText: currentSession?.currentStep?.story_text,
+    storySummary: currentSession?.storyRun.story_summary || null,
+    characters: CharacterRegistry.fromJson(currentSession?.storyRun.characters),
+    storyHistory,
+    streamingText,
+    isStreaming: streamingText !== null,
     
     // Loading states
     isLoadingSession,
     isProcessing,
     isCreatingSession: createSessionMutation.isPending,
     isSelectingChoice: selectChoiceMutation.isPending,
+    isForking: forkMutation.isPending,
+    isApplyingItem: applyItemMutation.isPending,
     
     // Error handling
     hasError,
@@ -0,0 +1 @@
+export { ItemRegistry } from './item-registry'
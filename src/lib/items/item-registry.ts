@@ -0,0 +1,62 @@
+import itemCatalog from './item-catalog.json'
+import type { ItemDefinition } from '../../types/story'
+
+const BUILT_IN_ITEMS = itemCatalog as ItemDefinition[]
+
+/**
+ * Registry of item definitions, looked up by the ids used in inventory consequences
+ */
+export class ItemRegistry {
+  private static items = new Map<string, ItemDefinition>(
+    BUILT_IN_ITEMS.map(item => [item.id, item])
+  )
+
+  static get(id: string): ItemDefinition | null {
+    return this.items.get(id) || null
+  }
+
+  /**
+   * Items available in a genre, including those found in every genre
+   */
+  static listForGenre(genre: string): ItemDefinition[] {
+    return Array.from(this.items.values()).filter(item =>
+      !item.genres || item.genres.includes(genre as NonNullable<ItemDefinition['genres']>[number])
+    )
+  }
+
+  /**
+   * Definition for an inventory entry. Items the model invents get a plain
+   * placeholder so they still display and can be referenced.
+   */
+  static resolve(id: string): ItemDefinition {
+    return this.get(id) || {
+      id,
+      name: id.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase()),
+      description: '',
+      icon: '🎒',
+      kind: 'key'
+    }
+  }
+
+  static isUsable(item: ItemDefinition): boolean {
+    return (item.useConsequences?.length || 0) > 0
+  }
+
+  /**
+   * Describe the inventory for prompts, e.g. "Healing Draught (consumable): A vial of..."
+   */
+  static describeInventory(inventory: string[]): string[] {
+    return inventory.map(id => {
+      const item = this.resolve(id)
+      const label = item.kind === 'consumable' ? `${item.name} (consumable)` : item.name
+      return item.description ? `${label}: ${item.description}` : label
+    })
+  }
+
+  /**
+   * Add or replace an item definition
+   */
+  static register(item: ItemDefinition): void {
+    this.items.set(item.id, item)
+  }
+}
@@ -0,0 +1,227 @@
+import { supabase } from '../supabase/client'
+import type { Database } from '../../types/database'
+import type { Choice, ContentReportReason, ContentReportResolution } from '../../types/story'
+
+type ContentReportRow = Database['public']['Tables']['content_reports']['Row']
+
+export interface ContentReport extends ContentReportRow {
+  step: {
+    story_text: string
+    choices: any // JSON data from database
+    choice_slug: string | null
+    step_number: number
+    hidden_at: string | null
+  } | null
+}
+
+export const MAX_REPORT_DETAILS_LENGTH = 500
+
+// Banned slugs are checked on every statistics call, so the list is kept briefly
+const BANNED_SLUGS_TTL_MS = 5 * 60 * 1000
+let bannedSlugs: { slugs: Set<string>; loadedAt: number } | null = null
+
+/**
+ * Player reports on generated passages and the moderator actions that close
+ * them. Moderator writes are restricted by RLS to profiles with is_moderator.
+ */
+export class ContentReportQueries {
+  /**
+   * Report a passage. Signed-in players are recorded by id, guests by session.
+   */
+  static async create(data: {
+    stepId: string
+    storyRunId: string | null
+    reason: ContentReportReason
+    details?: string
+    reporterId?: string
+    sessionId?: string
+  }): Promise<void> {
+    const { error } = await supabase
+      .from('content_reports')
+      .insert({
+        step_id: data.stepId,
+        story_run_id: data.storyRunId,
+        reason: data.reason,
+        details: data.details?.trim().slice(0, MAX_REPORT_DETAILS_LENGTH) || null,
+        reporter_id: data.reporterId || null,
+        reporter_session_id: data.reporterId ? null : data.sessionId || null,
+        status: 'open'
+      })
+
+    if (error) {
+      console.error('Error creating content report:', error)
+      throw new Error(`Failed to report passage: ${error.message}`)
+    }
+  }
+
+  /**
+   * Open reports with the reported step, oldest first
+   */
+  static async getOpen(limit = 50): Promise<ContentReport[]> {
+    const { data, error } = await supabase
+      .from('content_reports')
+      .select('*, step:story_steps(story_text, choices, choice_slug, step_number, hidden_at)')
+      .eq('status', 'open')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching content reports:', error)
+      throw new Error(`Failed to fetch content reports: ${error.message}`)
+    }
+
+    return (data || []) as unknown as ContentReport[]
+  }
+
+  /**
+   * Hide the reported step: its text is replaced wherever it's read. Forked runs
+   * and runs served the step from the response cache store their own copies, so
+   * every step with the same text is hidden and the cache entry is evicted.
+   */
+  static async hideStep(report: ContentReport, reviewerId: string): Promise<void> {
+    const hiddenAt = new Date().toISOString()
+    const { data: hidden, error } = report.step
+      ? await supabase
+          .from('story_steps')
+          .update({ hidden_at: hiddenAt })
+          .eq('story_text', report.step.story_text)
+          .is('hidden_at', null)
+          .select('id')
+      : await supabase
+          .from('story_steps')
+          .update({ hidden_at: hiddenAt })
+          .eq('id', report.step_id)
+          .select('id')
+
+    if (error) {
+      console.error('Error hiding story step:', error)
+      throw new Error(`Failed to hide story step: ${error.message}`)
+    }
+
+    if (report.step) {
+      const { error: cacheError } = await supabase
+        .from('story_generation_cache')
+        .delete()
+        .eq('response->>storyText', report.step.story_text)
+
+      if (cacheError) {
+        console.error('Error purging hidden step from cache:', cacheError)
+        // Don't throw - the step itself is hidden
+      }
+    }
+
+    const hiddenIds = (hidden || []).map(step => step.id)
+    await this.resolveSteps(hiddenIds.includes(report.step_id) ? hiddenIds : [report.step_id, ...hiddenIds], 'hidden', reviewerId)
+  }
+
+  /**
+   * Ban a choice slug: cached steps offering it are purged and no longer stored,
+   * and its statistics are neither recorded nor shown
+   */
+  static async banChoiceSlug(report: ContentReport, choiceSlug: string, reviewerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('banned_choice_slugs')
+      .upsert({
+        choice_slug: choiceSlug,
+        banned_by: reviewerId,
+        reason: report.reason,
+        report_id: report.id
+      }, { onConflict: 'choice_slug' })
+
+    if (error) {
+      console.error('Error banning choice slug:', error)
+      throw new Error(`Failed to ban choice slug: ${error.message}`)
+    }
+
+    const { error: cacheError } = await supabase
+      .from('story_generation_cache')
+      .delete()
+      .contains('response', { choices: [{ slug: choiceSlug }] })
+
+    if (cacheError) {
+      console.error('Error purging banned slug from cache:', cacheError)
+      // Don't throw - the ban still stops new cache entries
+    }
+
+    bannedSlugs = null
+    await this.resolve(report.id, 'slug_banned', reviewerId)
+  }
+
+  /**
+   * Close a report on a passage that was fine. False positives are kept so
+   * lexicon tuning can compare them with the step's moderation audit.
+   */
+  static async markFalsePositive(report: ContentReport, reviewerId: string): Promise<void> {
+    await this.resolve(report.id, 'false_positive', reviewerId)
+  }
+
+  static async dismiss(report: ContentReport, reviewerId: string): Promise<void> {
+    await this.resolve(report.id, 'dismissed', reviewerId)
+  }
+
+  /**
+   * Whether a moderator has banned a step's statistics slug or the slug of any
+   * choice it offered. Statistics are keyed on the step's first choice, so a ban
+   * on another choice is only seen when the step's choices are passed.
+   */
+  static async isChoiceSlugBanned(choiceSlug: string, choices: Choice[] = []): Promise<boolean> {
+    const slugs = await this.getBannedSlugs()
+    return slugs.has(choiceSlug) || choices.some(choice => !!choice.slug && slugs.has(choice.slug))
+  }
+
+  static async getBannedSlugs(): Promise<Set<string>> {
+    if (bannedSlugs && Date.now() - bannedSlugs.loadedAt < BANNED_SLUGS_TTL_MS) {
+      return bannedSlugs.slugs
+    }
+
+    const { data, error } = await supabase
+      .from('banned_choice_slugs')
+      .select('choice_slug')
+
+    if (error) {
+      console.error('Error fetching banned choice slugs:', error)
+      return bannedSlugs?.slugs || new Set()
+    }
+
+    bannedSlugs = { slugs: new Set((data || []).map(row => row.choice_slug)), loadedAt: Date.now() }
+    return bannedSlugs.slugs
+  }
+
+  private static async resolve(reportId: string, resolution: ContentReportResolution, reviewerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('content_reports')
+      .update({
+        status: 'resolved',
+        resolution,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', reportId)
+
+    if (error) {
+      console.error('Error resolving content report:', error)
+      throw new Error(`Failed to resolve content report: ${error.message}`)
+    }
+  }
+
+  /**
+   * Hiding steps answers every open report on them
+   */
+  private static async resolveSteps(stepIds: string[], resolution: ContentReportResolution, reviewerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('content_reports')
+      .update({
+        status: 'resolved',
+        resolution,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString()
+      })
+      .in('step_id', stepIds)
+      .eq('status', 'open')
+
+    if (error) {
+      console.error('Error resolving content reports:', error)
+      throw new Error(`Failed to resolve content reports: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { ContentReportQueries, MAX_REPORT_DETAILS_LENGTH } from './content-reports'
+export type { ContentReport } from './content-reports'
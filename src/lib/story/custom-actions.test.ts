@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { CustomActions, CUSTOM_CHOICE_ID } from './custom-actions'
+
+describe('CustomActions.buildChoice', () => {
+  it('builds a synthetic choice from the typed text', () => {
+    expect(CustomActions.buildChoice('  Climb   the wall ')).toEqual({
+      id: CUSTOM_CHOICE_ID,
+      text: 'Climb the wall',
+      slug: 'custom_climb_the_wall',
+      consequences: [],
+      traits_impact: {}
+    })
+  })
+})
+
+describe('CustomActions.interpret', () => {
+  const choice = CustomActions.buildChoice('Bribe the guard')
+
+  it('keeps only relationship changes, clamped', () => {
+    const interpreted = CustomActions.interpret(choice, {
+      consequences: [
+        'modify_relationship:guard:25',
+        'modify_relationship:captain:-4',
+        'add_item:crown_jewels',
+        'add_flag:vault_open',
+        'set_relationship:guard:100',
+        'increment_act',
+        'if flag:vault_open then modify_relationship:guard:5'
+      ],
+      traitsImpact: {}
+    })
+
+    expect(interpreted.consequences).toEqual(['modify_relationship:guard:10', 'modify_relationship:captain:-4'])
+  })
+
+  it('keeps known traits only, clamped', () => {
+    const interpreted = CustomActions.interpret(choice, {
+      consequences: [],
+      traitsImpact: { riskTaking: 7, empathy: -1.4, luck: 3 }
+    })
+
+    expect(interpreted.traits_impact).toEqual({ riskTaking: 3, empathy: -1 })
+  })
+
+  it('leaves the choice alone without an outcome', () => {
+    expect(CustomActions.interpret(choice, undefined)).toBe(choice)
+  })
+})
@@ -0,0 +1,91 @@
+import { generateChoiceSlug } from '../utils/choice-utils'
+import { parseConsequence } from '../utils/consequences'
+import type { Choice, StoryResponse } from '../../types/story'
+
+// Option id free-text actions are recorded under, so their statistics share one bucket per step
+export const CUSTOM_CHOICE_ID = 'custom'
+
+export const MIN_CUSTOM_ACTION_LENGTH = 3
+export const MAX_CUSTOM_ACTION_LENGTH = 200
+
+// Traits the model may adjust, and how far a single action can move them
+const TRAIT_NAMES = ['riskTaking', 'empathy', 'pragmatism', 'creativity', 'leadership']
+const MAX_TRAIT_IMPACT = 3
+
+// Typed actions may only shift relationships; flags, items, stats and the act stay with authored and generated choices
+const MAX_RELATIONSHIP_IMPACT = 10
+
+/**
+ * Free-text "write your own" actions. The player's text becomes a synthetic
+ * choice; the model decides its consequences while narrating the outcome.
+ */
+export class CustomActions {
+  /**
+   * Problem with the typed action, or null when it can be sent
+   */
+  static validate(text: string): string | null {
+    const trimmed = text.trim()
+    if (trimmed.length < MIN_CUSTOM_ACTION_LENGTH) return 'Describe what you want to do'
+    if (trimmed.length > MAX_CUSTOM_ACTION_LENGTH) {
+      return `Keep your action under ${MAX_CUSTOM_ACTION_LENGTH} characters`
+    }
+    return null
+  }
+
+  /**
+   * Synthetic choice for a typed action, before the model has interpreted it
+   */
+  static buildChoice(text: string): Choice {
+    const trimmed = text.trim().replace(/\s+/g, ' ')
+
+    return {
+      id: CUSTOM_CHOICE_ID,
+      text: trimmed,
+      slug: `custom_${generateChoiceSlug(trimmed).substring(0, 43) || 'action'}`,
+      consequences: [],
+      traits_impact: {}
+    }
+  }
+
+  static isCustomChoice(choice: Pick<Choice, 'id'>): boolean {
+    return choice.id === CUSTOM_CHOICE_ID
+  }
+
+  /**
+   * Attach the consequences and trait impact the model gave the action.
+   * Only trait impacts and unconditional relationship changes are kept, clamped
+   * like authored choices; anything else the model returned is dropped.
+   */
+  static interpret(choice: Choice, outcome: StoryResponse['customActionOutcome']): Choice {
+    if (!outcome) return choice
+
+    const traitsImpact: Record<string, number> = {}
+    for (const [trait, impact] of Object.entries(outcome.traitsImpact || {})) {
+      if (TRAIT_NAMES.includes(trait) && typeof impact === 'number') {
+        traitsImpact[trait] = Math.max(-MAX_TRAIT_IMPACT, Math.min(MAX_TRAIT_IMPACT, Math.round(impact)))
+      }
+    }
+
+    return {
+      ...choice,
+      consequences: (outcome.consequences || []).flatMap(consequence => this.toRelationshipChange(consequence)),
+      traits_impact: traitsImpact
+    }
+  }
+
+  /**
+   * The consequence as a clamped relationship change, or nothing when it's any other effect
+   */
+  private static toRelationshipChange(consequence: unknown): string[] {
+    if (typeof consequence !== 'string') return []
+
+    const result = parseConsequence(consequence)
+    if (!result.ok || result.consequence.conditions.length > 0) return []
+
+    const effect = result.consequence.effect
+    if (effect.action !== 'modify_relationship') return []
+
+    const value = Math.max(-MAX_RELATIONSHIP_IMPACT, Math.min(MAX_RELATIONSHIP_IMPACT, Math.round(effect.value)))
+    return [`modify_relationship:${effect.character}:${value}`]
+  }
+}
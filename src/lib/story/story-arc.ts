@@ -24,16 +24,30 @@ export interface ChoiceType {
   weight: number
 }
 
+// Representative progress through the story for each phase
+const PHASE_PROGRESS: Record<StoryArc['phase'], number> = {
+  setup: 0.2,
+  rising_action: 0.5,
+  climax: 0.8,
+  resolution: 1
+}
+
 /**
  * Manages story progression according to proper narrative structure
  */
 export class StoryArcManager {
   /**
-   * Determine the current story phase based on step number and length
+   * Determine the current story phase based on step number and length.
+   * Hybrid stories pass the phase of the next authored beat instead.
    */
-  static getCurrentArc(stepNumber: number, storyLength: string, gameState: GameState): StoryArc {
+  static getCurrentArc(
+    stepNumber: number,
+    storyLength: string,
+    gameState: GameState,
+    targetPhase?: StoryArc['phase']
+  ): StoryArc {
     const maxSteps = storyLength === 'quick' ? 8 : 12
-    const progressRatio = stepNumber / maxSteps
+    const progressRatio = targetPhase ? PHASE_PROGRESS[targetPhase] : stepNumber / maxSteps
 
     let phase: StoryArc['phase']
     let act: number
@@ -188,7 +202,10 @@ ${unresolvedThreads.map(thread =>
 ).join('\n')}
 
 Suggested Choice Types: ${choiceTypeWeights}
-
+${previousChoices.length > 0 ? `
+Recent Player Decisions (let their consequences show):
+${previousChoices.slice(-3).map(choice => `- ${choice}`).join('\n')}
+` : ''}
 Phase-Specific Instructions:
 ${this.getPhaseInstructions(arc.phase)}
 `
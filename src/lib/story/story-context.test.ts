@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { StoryContextBuilder, SUMMARY_REFRESH_INTERVAL } from './story-context'
+import { createInitialGameState } from '../utils/game-state'
+import type { StoryStep } from '../../types/story'
+
+// ~100 tokens of story text per step
+const LONG_TEXT = 'The corridor stretches ahead into darkness. ' + 'Water drips from the ceiling somewhere close. '.repeat(8)
+
+function makeStep(stepNumber: number, storyText = LONG_TEXT): StoryStep {
+  return {
+    id: `step-${stepNumber}`,
+    story_run_id: 'run-1',
+    step_number: stepNumber,
+    story_text: storyText,
+    choices: [{ id: 'A', text: `Take path ${stepNumber}`, slug: `path_${stepNumber}` }],
+    selected_choice_id: 'A',
+    choice_slug: `path_${stepNumber}`,
+    decision_key_hash: null,
+    game_state: null,
+    traits_snapshot: null,
+    created_at: null
+  }
+}
+
+function makeSteps(count: number): StoryStep[] {
+  return Array.from({ length: count }, (_, index) => makeStep(index + 1))
+}
+
+describe('StoryContextBuilder.build', () => {
+  const gameState = createInitialGameState('fantasy')
+
+  it('keeps short histories verbatim', () => {
+    const context = StoryContextBuilder.build(makeSteps(3).reverse(), gameState, 'standard')
+
+    expect(context.recentSteps.map(step => step.stepNumber)).toEqual([1, 2, 3])
+    expect(context.summary).toBe('')
+    expect(context.previousChoices).toEqual(['Take path 1', 'Take path 2', 'Take path 3'])
+  })
+
+  it('summarizes older steps once the recent window is full', () => {
+    const context = StoryContextBuilder.build(makeSteps(30), gameState, 'standard')
+    const oldestRecent = context.recentSteps[0].stepNumber
+
+    expect(context.recentSteps[context.recentSteps.length - 1].stepNumber).toBe(30)
+    expect(oldestRecent).toBeGreaterThan(1)
+    expect(context.summary).toContain(`Step ${oldestRecent - 1}: The corridor stretches ahead into darkness. You chose to take path ${oldestRecent - 1}.`)
+    expect(context.previousChoices).toHaveLength(30)
+  })
+
+  it('stays within the token budget for the story length', () => {
+    for (const [length, budget] of [['quick', 1200], ['standard', 1600], ['extended', 2000]] as const) {
+      const context = StoryContextBuilder.build(makeSteps(60), gameState, length)
+      const recentTokens = context.recentSteps
+        .reduce((total, step) => total + StoryContextBuilder.estimateTokens(`${step.storyText} ${step.choiceText} `), 0)
+
+      expect(recentTokens + StoryContextBuilder.estimateTokens(context.summary)).toBeLessThanOrEqual(budget)
+    }
+  })
+
+  it('always keeps the newest step, even when it exceeds the budget', () => {
+    const context = StoryContextBuilder.build([makeStep(1, LONG_TEXT.repeat(20))], gameState, 'quick')
+    expect(context.recentSteps).toHaveLength(1)
+  })
+
+  it('uses the stored summary in place of the steps it covers', () => {
+    const context = StoryContextBuilder.build(makeSteps(30), gameState, 'standard', {
+      story_summary: 'You escaped the flooded mine.',
+      summary_step: 20,
+      characters: null
+    })
+
+    expect(context.summary.startsWith('You escaped the flooded mine.')).toBe(true)
+    expect(context.summary).not.toContain('Step 20:')
+  })
+
+  it('hides internal flags', () => {
+    const context = StoryContextBuilder.build([], { ...gameState, flags: [...gameState.flags, 'met_wizard'] }, 'standard')
+    expect(context.flags).toEqual(['met_wizard'])
+  })
+})
+
+describe('StoryContextBuilder.shouldRefreshSummary', () => {
+  it('refreshes every few steps', () => {
+    expect(StoryContextBuilder.shouldRefreshSummary({ summary_step: 8 }, 8 + SUMMARY_REFRESH_INTERVAL - 1)).toBe(false)
+    expect(StoryContextBuilder.shouldRefreshSummary({ summary_step: 8 }, 8 + SUMMARY_REFRESH_INTERVAL)).toBe(true)
+    expect(StoryContextBuilder.shouldRefreshSummary({ summary_step: null }, SUMMARY_REFRESH_INTERVAL)).toBe(true)
+  })
+})
+
+describe('StoryContextBuilder.summarizeRun', () => {
+  it('drops the oldest lines to fit the summary budget', () => {
+    const summary = StoryContextBuilder.summarizeRun(makeSteps(40), 'quick')
+
+    expect(StoryContextBuilder.estimateTokens(summary)).toBeLessThanOrEqual(Math.floor(1200 * 0.3))
+    expect(summary).toContain('Step 40:')
+    expect(summary).not.toContain('Step 1:')
+  })
+})
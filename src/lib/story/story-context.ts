@@ -0,0 +1,186 @@
+import { safeGetChoicesArray } from '../utils/type-safety'
+import { ItemRegistry } from '../items/item-registry'
+import { CharacterRegistry } from '../characters/character-registry'
+import type { Json } from '../../types/database'
+import type { StoryRun, StoryStep, Choice, GameState } from '../../types/story'
+
+export interface StoryContextStep {
+  stepNumber: number
+  storyText: string
+  choiceText?: string
+  choiceSlug?: string
+  consequences?: string[]
+}
+
+/**
+ * Rolling memory of a story run sent along with continuation requests
+ */
+export interface StoryContext {
+  summary: string // Condensed account of steps that no longer fit verbatim
+  recentSteps: StoryContextStep[] // Most recent steps, oldest first
+  previousChoices: string[] // Every choice the player made, oldest first
+  characters: string[] // Registered characters with canonical ids and bios
+  inventory: string[] // Item names with descriptions from ItemRegistry
+  flags: string[]
+}
+
+// Approximate prompt budget (in tokens) reserved for story history, by story length
+const CONTEXT_TOKEN_BUDGETS: Record<string, number> = {
+  quick: 1200,
+  standard: 1600,
+  extended: 2000
+}
+
+// Share of the budget given to verbatim recent steps; the rest goes to the summary
+const RECENT_STEPS_SHARE = 0.7
+
+// Steps between refreshes of the stored per-run summary
+export const SUMMARY_REFRESH_INTERVAL = 4
+
+/**
+ * Builds a token-budgeted story context from a run's previous steps
+ */
+export class StoryContextBuilder {
+  /**
+   * Build context from story steps (any order) and the current game state.
+   * When the run has a stored summary it stands in for the steps it covers.
+   */
+  static build(
+    steps: StoryStep[],
+    gameState: GameState,
+    storyLength: string,
+    storyRun?: Pick<StoryRun, 'story_summary' | 'summary_step' | 'characters'>
+  ): StoryContext {
+    const budget = CONTEXT_TOKEN_BUDGETS[storyLength] || CONTEXT_TOKEN_BUDGETS.standard
+    const history = [...steps]
+      .sort((a, b) => a.step_number - b.step_number)
+      .map(step => this.toContextStep(step))
+
+    // Fill the recent window from the newest step backwards
+    const recentBudget = Math.floor(budget * RECENT_STEPS_SHARE)
+    const recentSteps: StoryContextStep[] = []
+    let recentTokens = 0
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const tokens = this.estimateTokens(this.formatStep(history[i]))
+      if (recentSteps.length > 0 && recentTokens + tokens > recentBudget) break
+      recentSteps.unshift(history[i])
+      recentTokens += tokens
+    }
+
+    const storedSummary = storyRun?.story_summary || ''
+    const summaryStep = storedSummary ? storyRun?.summary_step || 0 : 0
+    const olderSteps = history
+      .slice(0, history.length - recentSteps.length)
+      .filter(step => step.stepNumber > summaryStep)
+    const summary = [
+      storedSummary,
+      this.summarize(olderSteps, budget - recentTokens - this.estimateTokens(storedSummary))
+    ].filter(Boolean).join('\n')
+
+    return {
+      summary,
+      recentSteps,
+      previousChoices: history
+        .filter(step => step.choiceText)
+        .map(step => step.choiceText!),
+      characters: this.describeCharacters(storyRun?.characters, gameState),
+      inventory: ItemRegistry.describeInventory(gameState.inventory || []),
+      flags: (gameState.flags || []).filter(flag => !flag.startsWith('genre_') && flag !== 'story_started')
+    }
+  }
+
+  /**
+   * Whether the stored summary is due for a refresh when generating the given step
+   */
+  static shouldRefreshSummary(
+    storyRun: Pick<StoryRun, 'summary_step'>,
+    stepNumber: number
+  ): boolean {
+    return stepNumber - (storyRun.summary_step || 0) >= SUMMARY_REFRESH_INTERVAL
+  }
+
+  /**
+   * Extractive "story so far" recap, used when the model doesn't supply one
+   */
+  static summarizeRun(steps: StoryStep[], storyLength: string): string {
+    const budget = CONTEXT_TOKEN_BUDGETS[storyLength] || CONTEXT_TOKEN_BUDGETS.standard
+    const history = [...steps]
+      .sort((a, b) => a.step_number - b.step_number)
+      .map(step => this.toContextStep(step))
+
+    return this.summarize(history, Math.floor(budget * (1 - RECENT_STEPS_SHARE)))
+  }
+
+  /**
+   * Describe the run's characters for prompts, e.g. "Maren [maren]: the net-mender (relationship 10)".
+   * Relationship keys that aren't registered yet are listed by key.
+   */
+  private static describeCharacters(characters: Json | undefined, gameState: GameState): string[] {
+    const roster = CharacterRegistry.fromJson(characters)
+    const relationships = gameState.relationships || {}
+
+    const described = roster.map(character => {
+      const relationship = relationships[character.id]
+      return [
+        `${character.name} [${character.id}]`,
+        character.bio ? `: ${character.bio}` : '',
+        relationship !== undefined ? ` (relationship ${relationship})` : ''
+      ].join('')
+    })
+    const unregistered = Object.keys(relationships).filter(key => !roster.some(character => character.id === key))
+
+    return [...described, ...unregistered]
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token for English prose)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4)
+  }
+
+  /**
+   * Condense older steps into one line each, dropping the oldest lines
+   * until the summary fits the remaining budget
+   */
+  private static summarize(steps: StoryContextStep[], tokenBudget: number): string {
+    const lines = steps.map(step => {
+      const choice = step.choiceText ? ` You chose to ${this.lowerFirst(step.choiceText)}.` : ''
+      return `Step ${step.stepNumber}: ${this.firstSentence(step.storyText)}${choice}`
+    })
+
+    while (lines.length > 0 && this.estimateTokens(lines.join('\n')) > tokenBudget) {
+      lines.shift()
+    }
+
+    return lines.join('\n')
+  }
+
+  private static toContextStep(step: StoryStep): StoryContextStep {
+    const choices = safeGetChoicesArray(step.choices as Json) as Choice[]
+    const selected = choices.find(choice => choice?.id === step.selected_choice_id)
+
+    return {
+      stepNumber: step.step_number,
+      storyText: step.story_text,
+      choiceText: selected?.text,
+      choiceSlug: selected?.slug,
+      consequences: selected?.consequences
+    }
+  }
+
+  private static formatStep(step: StoryContextStep): string {
+    return `${step.storyText} ${step.choiceText || ''} ${(step.consequences || []).join(' ')}`
+  }
+
+  private static firstSentence(text: string): string {
+    const match = text.match(/^[\s\S]*?[.!?](\s|$)/)
+    return (match ? match[0] : text).trim()
+  }
+
+  private static lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1).replace(/[.!?]+$/, '')
+  }
+}
+
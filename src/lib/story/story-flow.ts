@@ -1,12 +1,22 @@
 import { supabase } from '../supabase/client'
 import { StoryRunQueries, StoryStepQueries, UserProfileQueries, ChoiceStatsQueries } from '../supabase/queries'
-import { generateStory } from '../ai/story-generation'
+import { generateStory, generateStoryStream, pregenerateStories, type StoryGenerationResult, type PregenerationResult } from '../ai/story-generation'
 import { detectEnding, type EndingClassification } from '../endings/ending-detection'
 import { EndingCollectionQueries } from '../endings/ending-queries'
 import { StoryArcManager } from './story-arc'
+import { StoryContextBuilder } from './story-context'
+import { TimedChoices } from './timed-choices'
+import { CustomActions, CUSTOM_CHOICE_ID } from './custom-actions'
+import { createSeed, deriveSeed } from '../utils/seeded-random'
+import { AuthoredStoryRegistry, AuthoredStoryPlayer } from '../authored/authored-stories'
+import { HybridStoryPlanner } from '../authored/hybrid-planner'
+import { applyConsequences, getChoiceAvailability, removeItem } from '../utils/game-state'
+import { ItemRegistry } from '../items/item-registry'
+import { CharacterRegistry } from '../characters/character-registry'
 import { 
   safeGetGameState, 
   safeGetPersonalityTraits, 
+  safeGetChoicesArray,
   safeParseJson,
   isDatabaseRow,
   toJson
@@ -21,7 +31,9 @@ import type {
   PersonalityTraits, 
   Choice,
   EndingType,
-  EndingRarity
+  EndingRarity,
+  AnchorGoal,
+  StoryCharacter
 } from '../../types/story'
 
 export interface StorySession {
@@ -42,6 +54,7 @@ export interface StoryProgressionResult {
     tag: string
     type: EndingType
   }
+  customChoice?: Choice // Free-text actions: the action with the consequences the model gave it
 }
 
 export interface ChoiceSelectionResult {
@@ -49,6 +62,11 @@ export interface ChoiceSelectionResult {
   progressionResult?: StoryProgressionResult
 }
 
+export interface StoryFlowOptions {
+  // Receives partial story text while the next step streams in
+  onStoryText?: (text: string) => void
+}
+
 /**
  * Core story flow management service
  */
@@ -57,27 +75,39 @@ export class StoryFlowService {
    * Create a new story session
    */
   static async createStorySession(
-    request: StoryGenerationRequest
+    request: StoryGenerationRequest,
+    options: StoryFlowOptions = {}
   ): Promise<StorySession> {
     try {
+      const authoredStory = request.authoredStoryId
+        ? AuthoredStoryRegistry.get(request.authoredStoryId)
+        : null
+
+      if (request.authoredStoryId && !authoredStory) {
+        throw new Error(`Authored story not found: ${request.authoredStoryId}`)
+      }
+
+      // Decision deadlines are only offered for generated thriller and horror stories
+      const timedChoices = !authoredStory && !!request.timedChoices && TimedChoices.isSupportedGenre(request.genre)
+      const seed = request.seed ?? createSeed()
+
       // Create the story run record
       const storyRun = await StoryRunQueries.create({
         user_id: request.userId || null,
         session_id: request.sessionId,
-        genre: request.genre,
-        length: request.length,
-        challenge: request.challenge
+        genre: authoredStory?.genre || request.genre,
+        length: authoredStory?.length || request.length,
+        challenge: request.challenge,
+        authored_story_id: authoredStory?.id || null,
+        timed_choices: timedChoices,
+        seed
       })
 
       if (!storyRun) {
         throw new Error('Failed to create story run')
       }
 
-      // Generate the initial story content
-      const storyResult = await generateStory(request)
-      
-      // Initialize game state and personality traits
-      const initialGameState: GameState = storyResult.story.gameState || {
+      const defaultGameState: GameState = {
         act: 1,
         flags: ['story_started'],
         relationships: {},
@@ -91,6 +121,31 @@ export class StoryFlowService {
         }
       }
 
+      // Generate the initial story content (authored stories start at their opening node)
+      const opening: StoryResponse = authoredStory
+        ? AuthoredStoryPlayer.getOpening(authoredStory, { ...defaultGameState, ...authoredStory.initialGameState })
+        : (await this.requestStory({
+            ...request,
+            timedChoices,
+            seed: deriveSeed(seed, 1)
+          }, options)).story
+
+      // Start the run's character registry with anyone the opening introduces
+      const { roster, choices: openingChoices } = CharacterRegistry.canonicalizeChoices(
+        CharacterRegistry.registerAll([], opening.newCharacters || [], 1),
+        opening.choices,
+        1
+      )
+      const timeLimit = timedChoices ? TimedChoices.getTimeLimit(opening) : null
+      const story: StoryResponse = {
+        ...opening,
+        choices: timeLimit ? TimedChoices.withDefaultChoice(openingChoices) : openingChoices
+      }
+      const startedRun = roster.length > 0 ? await this.saveCharacters(storyRun, roster) : storyRun
+      
+      // Initialize game state and personality traits
+      const initialGameState: GameState = story.gameState || defaultGameState
+
       const initialTraits: PersonalityTraits = {
         riskTaking: initialGameState.personalityTraits.riskTaking || 50,
         empathy: initialGameState.personalityTraits.empathy || 50,
@@ -103,12 +158,19 @@ export class StoryFlowService {
       const firstStep = await StoryStepQueries.create({
         story_run_id: storyRun.id,
         step_number: 1,
-        story_text: storyResult.story.storyText,
-        choices: storyResult.story.choices,
+        story_text: story.storyText,
+        choices: story.choices,
         game_state: initialGameState,
         traits_snapshot: initialTraits,
-        choice_slug: this.generateStepChoiceSlug(storyResult.story.choices),
-        decision_key_hash: this.generateDecisionKeyHash(storyRun.id, 1, storyResult.story.choices)
+        choice_slug: this.generateStepChoiceSlug(story.choices),
+        time_limit_seconds: timeLimit,
+        quality: story.quality,
+        // Authored nodes hash the same in every run so replays share tree nodes and stats
+        decision_key_hash: this.generateDecisionKeyHash(
+          authoredStory ? `${authoredStory.id}:${authoredStory.startNodeId}` : storyRun.id,
+          1,
+          story.choices
+        )
       })
 
       if (!firstStep) {
@@ -116,10 +178,10 @@ export class StoryFlowService {
       }
 
       // Track choice impressions for all options
-      await this.trackChoiceImpressions(storyResult.story.choices, request.genre)
+      await this.trackChoiceImpressions(story.choices, request.genre)
 
       return {
-        storyRun,
+        storyRun: startedRun,
         currentStep: firstStep,
         gameState: initialGameState,
         personalityTraits: initialTraits,
@@ -178,6 +240,125 @@ export class StoryFlowService {
     }
   }
 
+  /**
+   * Rewind to an earlier step by forking a new run from it.
+   * The fork copies the parent's history up to and including that step,
+   * with the step's choice left open so the player can choose differently.
+   */
+  static async forkFromStep(stepId: string): Promise<StorySession> {
+    try {
+      const branchStep = await StoryStepQueries.getById(stepId)
+      if (!branchStep || !branchStep.story_run_id) {
+        throw new Error('Story step not found')
+      }
+
+      // A typed action isn't one of the step's options, so it isn't offered again in the fork
+      const choices = (safeGetChoicesArray(branchStep.choices as Json) as Choice[])
+        .filter(choice => !CustomActions.isCustomChoice(choice))
+      if (choices.length === 0) {
+        throw new Error('Cannot branch from a step without choices')
+      }
+
+      const parentRun = await StoryRunQueries.getById(branchStep.story_run_id)
+      if (!parentRun) {
+        throw new Error('Story run not found')
+      }
+
+      // Carry the summary over only if it doesn't describe events past the branch point
+      const summaryApplies = !!parentRun.story_summary &&
+        (parentRun.summary_step || 0) <= branchStep.step_number
+
+      const storyRun = await StoryRunQueries.create({
+        user_id: parentRun.user_id,
+        session_id: parentRun.session_id,
+        genre: parentRun.genre,
+        length: parentRun.length,
+        challenge: parentRun.challenge,
+        parent_run_id: parentRun.id,
+        forked_from_step: branchStep.step_number,
+        authored_story_id: parentRun.authored_story_id,
+        timed_choices: parentRun.timed_choices,
+        seed: parentRun.seed,
+        story_summary: summaryApplies ? parentRun.story_summary : null,
+        summary_step: summaryApplies ? parentRun.summary_step : null,
+        // Characters met after the branch point haven't been met in the fork
+        characters: toJson(
+          CharacterRegistry.fromJson(parentRun.characters)
+            .filter(character => character.firstAppearanceStep <= branchStep.step_number)
+        )
+      })
+
+      if (!storyRun) {
+        throw new Error('Failed to create forked story run')
+      }
+
+      const parentSteps = await StoryStepQueries.getByStoryRunId(parentRun.id)
+      const sharedSteps = parentSteps
+        .filter(step => step.step_number <= branchStep.step_number)
+        .map(step => step.id === branchStep.id
+          ? { ...step, choices: toJson(choices), selected_choice_id: null, choice_slug: this.generateStepChoiceSlug(choices) }
+          : step
+        )
+
+      await StoryStepQueries.copyToRun(sharedSteps, storyRun.id)
+
+      const session = await this.loadStorySession(storyRun.id)
+      if (!session) {
+        throw new Error('Failed to load forked story session')
+      }
+
+      return session
+    } catch (error) {
+      console.error('Error forking story session:', error)
+      throw new Error(`Failed to fork story session: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Use an inventory item, applying its consequences to the current step's game state.
+   * Consumable items are removed once used.
+   */
+  static async applyItem(storyRunId: string, itemId: string): Promise<StorySession> {
+    try {
+      const session = await this.loadStorySession(storyRunId)
+      if (!session || !session.currentStep) {
+        throw new Error('Story session not found')
+      }
+      if (session.isCompleted) {
+        throw new Error('Story is already completed')
+      }
+      if (!session.gameState.inventory.includes(itemId)) {
+        throw new Error(`Item not in inventory: ${itemId}`)
+      }
+
+      const item = ItemRegistry.resolve(itemId)
+      if (!ItemRegistry.isUsable(item)) {
+        throw new Error(`${item.name} can't be used`)
+      }
+
+      let gameState = applyConsequences(session.gameState, item.useConsequences || [])
+      if (item.kind === 'consumable') {
+        gameState = removeItem(gameState, itemId)
+      }
+
+      const updatedStep = await StoryStepQueries.update(session.currentStep.id, {
+        game_state: toJson(gameState)
+      })
+      if (!updatedStep) {
+        throw new Error('Failed to save game state')
+      }
+
+      return {
+        ...session,
+        currentStep: updatedStep,
+        gameState
+      }
+    } catch (error) {
+      console.error('Error using item:', error)
+      throw new Error(`Failed to use item: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   /**
    * Handle choice selection and update game state
    */
@@ -185,7 +366,8 @@ export class StoryFlowService {
     storyRunId: string,
     stepId: string,
     choiceId: string,
-    choiceSlug: string
+    choiceSlug: string,
+    options: StoryFlowOptions = {}
   ): Promise<ChoiceSelectionResult> {
     try {
       // Get current session
@@ -202,34 +384,134 @@ export class StoryFlowService {
         throw new Error('Selected choice not found')
       }
 
-      // Update the step with the selected choice
-      const updatedStep = await StoryStepQueries.recordChoice(stepId, choiceId, choiceSlug)
-      if (!updatedStep) {
-        throw new Error('Failed to record choice selection')
+      // Locked choices are shown greyed out, but never trust the client to enforce that
+      const availability = getChoiceAvailability(
+        { ...session.gameState, personalityTraits: session.personalityTraits as unknown as Record<string, number> },
+        selectedChoice
+      )
+      if (!availability.available) {
+        throw new Error(`Choice is locked: ${availability.hint}`)
+      }
+
+      return await this.recordSelection(session, stepId, selectedChoice, choiceSlug, options)
+    } catch (error) {
+      console.error('Error selecting choice:', error)
+      throw new Error(`Failed to select choice: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Take the default choice on a timed step whose deadline ran out
+   */
+  static async expireChoice(
+    storyRunId: string,
+    stepId: string,
+    options: StoryFlowOptions = {}
+  ): Promise<ChoiceSelectionResult> {
+    try {
+      const session = await this.loadStorySession(storyRunId)
+      if (!session || !session.currentStep || session.currentStep.id !== stepId) {
+        throw new Error('Story session not found')
       }
 
-      // Track choice selection statistics
-      await ChoiceStatsQueries.incrementSelections(choiceSlug, choiceId, session.storyRun.genre)
+      if (!session.currentStep.time_limit_seconds) {
+        throw new Error('Step is not timed')
+      }
 
-      // Update personality traits based on choice impact
-      const updatedTraits = this.updatePersonalityTraits(
-        session.personalityTraits,
-        selectedChoice.traits_impact || {}
-      )
+      if (session.currentStep.selected_choice_id) {
+        throw new Error('A choice was already made for this step')
+      }
 
-      // Update user profile for authenticated users only
-      if (session.storyRun.user_id) {
-        await UserProfileQueries.updatePersonalityTraits(session.storyRun.user_id, toJson(updatedTraits))
-        await UserProfileQueries.incrementChoiceCount(session.storyRun.user_id)
+      if (!TimedChoices.hasDeadlinePassed(session.currentStep)) {
+        throw new Error('The deadline for this step has not passed')
+      }
+
+      // Only fall back to choices the player could have picked themselves
+      const choicesData = session.currentStep.choices
+      const choices: Choice[] = Array.isArray(choicesData) ? choicesData : []
+      const gameState = { ...session.gameState, personalityTraits: session.personalityTraits as unknown as Record<string, number> }
+      const available = choices.filter(choice => getChoiceAvailability(gameState, choice).available)
+      const defaultChoice = TimedChoices.getDefaultChoice(available)
+      if (!defaultChoice) {
+        throw new Error('No default choice available')
+      }
+
+      const choiceSlug = session.currentStep.choice_slug || this.generateStepChoiceSlug(choices)
+      return await this.recordSelection(session, stepId, defaultChoice, choiceSlug, options, true)
+    } catch (error) {
+      console.error('Error expiring choice:', error)
+      throw new Error(`Failed to expire choice: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Play a free-text action the player typed instead of picking a choice. The model
+   * narrates its outcome and decides its consequences, so the next step is generated
+   * before the action is recorded on the current step.
+   */
+  static async submitCustomAction(
+    storyRunId: string,
+    stepId: string,
+    actionText: string,
+    options: StoryFlowOptions = {}
+  ): Promise<ChoiceSelectionResult> {
+    try {
+      const validationError = CustomActions.validate(actionText)
+      if (validationError) {
+        throw new Error(validationError)
+      }
+
+      const session = await this.loadStorySession(storyRunId)
+      if (!session || !session.currentStep || session.currentStep.id !== stepId) {
+        throw new Error('Story session not found')
+      }
+
+      if (session.isCompleted || session.currentStep.selected_choice_id) {
+        throw new Error('A choice was already made for this step')
       }
 
-      // Check if we should continue the story
-      const shouldContinue = !session.isCompleted && session.currentStep.step_number < this.getMaxStepsForLength(session.storyRun.length)
+      if (session.storyRun.authored_story_id) {
+        throw new Error('Authored stories only follow their written choices')
+      }
+
+      // Record the action before generating, as selectChoice does. It's kept with the
+      // step's choices so history and context show what the player did.
+      const actionChoice = CustomActions.buildChoice(actionText)
+      const choicesData = session.currentStep.choices
+      const choices: Choice[] = Array.isArray(choicesData) ? choicesData : []
+      const choiceSlug = session.currentStep.choice_slug || this.generateStepChoiceSlug(choices)
+      const recordedStep = await StoryStepQueries.update(stepId, {
+        choices: toJson([...choices, actionChoice]),
+        selected_choice_id: CUSTOM_CHOICE_ID,
+        choice_slug: choiceSlug
+      })
+      if (!recordedStep) {
+        throw new Error('Failed to record custom action')
+      }
+
+      // All typed actions share one "custom" bucket in the step's choice statistics
+      await ChoiceStatsQueries.incrementSelections(choiceSlug, CUSTOM_CHOICE_ID, session.storyRun.genre, choices)
+
+      const progressionResult = await this.progressStory(
+        session,
+        actionChoice,
+        session.personalityTraits,
+        options
+      )
 
-      let progressionResult: StoryProgressionResult | undefined
+      // The consequences the model gave the action are only known once it has been narrated
+      const updatedStep = progressionResult.customChoice
+        ? await StoryStepQueries.update(stepId, {
+            choices: toJson([...choices, progressionResult.customChoice])
+          }) || recordedStep
+        : recordedStep
 
-      if (shouldContinue) {
-        progressionResult = await this.progressStory(session, selectedChoice, updatedTraits)
+      if (session.storyRun.user_id) {
+        await UserProfileQueries.updatePersonalityTraits(
+          session.storyRun.user_id,
+          toJson(progressionResult.session.personalityTraits)
+        )
+        await UserProfileQueries.incrementChoiceCount(session.storyRun.user_id)
       }
 
       return {
@@ -237,8 +519,112 @@ export class StoryFlowService {
         progressionResult
       }
     } catch (error) {
-      console.error('Error selecting choice:', error)
-      throw new Error(`Failed to select choice: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.error('Error submitting custom action:', error)
+      throw new Error(`Failed to submit custom action: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Premium: queue a draft of the next step for every choice the player can pick on
+   * the current step, so committing to one is served without waiting for the model.
+   * Only generated runs are drafted; authored steps are already instant.
+   */
+  static async pregenerateNextSteps(session: StorySession): Promise<PregenerationResult | null> {
+    const step = session.currentStep
+    if (!step || session.isCompleted || step.selected_choice_id || session.storyRun.authored_story_id) {
+      return null
+    }
+
+    if (step.step_number >= this.getMaxStepsForLength(session.storyRun.length)) {
+      return null
+    }
+
+    try {
+      const gameState = { ...session.gameState, personalityTraits: session.personalityTraits as unknown as Record<string, number> }
+      const choices = (safeGetChoicesArray(step.choices as Json) as Choice[])
+        .filter(choice => getChoiceAvailability(gameState, choice).available)
+      if (choices.length === 0) return null
+
+      const storedSteps = await StoryStepQueries.getByStoryRunId(session.storyRun.id)
+      const roster = CharacterRegistry.fromJson(session.storyRun.characters)
+
+      const continuations = choices.map(choice => {
+        // Build each draft's request exactly as committing to the choice would
+        const previousSteps = storedSteps.map(stored =>
+          stored.id === step.id ? { ...stored, selected_choice_id: choice.id } : stored
+        )
+        const traits = this.updatePersonalityTraits(session.personalityTraits, choice.traits_impact || {})
+        const applied = this.applyChoiceToState(session, roster, choice, traits)
+
+        return this.buildContinuationRequest(
+          { ...session, storyRun: { ...session.storyRun, characters: applied.roster } },
+          choice,
+          applied.gameState,
+          step.step_number + 1,
+          previousSteps
+        ).request
+      })
+
+      return await pregenerateStories(continuations[0], continuations)
+    } catch (error) {
+      console.error('Error pregenerating next steps:', error)
+      // Don't throw - the player's choice still generates normally
+      return null
+    }
+  }
+
+  /**
+   * Record a choice, update traits and progress the story. Timed-out selections
+   * are counted separately so timeout rates show up in choice statistics.
+   */
+  private static async recordSelection(
+    session: StorySession,
+    stepId: string,
+    selectedChoice: Choice,
+    choiceSlug: string,
+    options: StoryFlowOptions,
+    timedOut = false
+  ): Promise<ChoiceSelectionResult> {
+    // Update the step with the selected choice
+    const updatedStep = await StoryStepQueries.recordChoice(stepId, selectedChoice.id, choiceSlug)
+    if (!updatedStep) {
+      throw new Error('Failed to record choice selection')
+    }
+
+    // Track choice selection statistics
+    const offeredChoices = safeGetChoicesArray(session.currentStep?.choices as Json) as Choice[]
+    if (timedOut) {
+      await ChoiceStatsQueries.incrementTimeouts(choiceSlug, selectedChoice.id, session.storyRun.genre, offeredChoices)
+    } else {
+      await ChoiceStatsQueries.incrementSelections(choiceSlug, selectedChoice.id, session.storyRun.genre, offeredChoices)
+    }
+
+    // Update personality traits based on choice impact
+    const updatedTraits = this.updatePersonalityTraits(
+      session.personalityTraits,
+      selectedChoice.traits_impact || {}
+    )
+
+    // Update user profile for authenticated users only
+    if (session.storyRun.user_id) {
+      await UserProfileQueries.updatePersonalityTraits(session.storyRun.user_id, toJson(updatedTraits))
+      await UserProfileQueries.incrementChoiceCount(session.storyRun.user_id)
+    }
+
+    // Check if we should continue the story
+    // Authored and hybrid stories run until they reach an ending node rather than a step limit
+    const shouldContinue = !session.isCompleted && (!!session.storyRun.authored_story_id ||
+      (session.currentStep?.step_number || 0) < this.getMaxStepsForLength(session.storyRun.length))
+
+    let progressionResult: StoryProgressionResult | undefined
+
+    if (shouldContinue) {
+      progressionResult = await this.progressStory(session, selectedChoice, updatedTraits, options)
+    }
+
+    return {
+      updatedStep,
+      progressionResult
     }
   }
 
@@ -248,72 +634,119 @@ export class StoryFlowService {
   static async progressStory(
     session: StorySession,
     selectedChoice: Choice,
-    updatedTraits: PersonalityTraits
+    updatedTraits: PersonalityTraits,
+    options: StoryFlowOptions = {}
   ): Promise<StoryProgressionResult> {
     try {
-      // Update game state based on choice consequences
-      const updatedGameState = this.updateGameState(session.gameState, selectedChoice, updatedTraits)
+      // Resolve character names onto the run's registry, then apply the choice's consequences
+      const originalRoster = CharacterRegistry.fromJson(session.storyRun.characters)
+      let { gameState: updatedGameState, roster } = this.applyChoiceToState(
+        session,
+        originalRoster,
+        selectedChoice,
+        updatedTraits
+      )
+      session = { ...session, storyRun: { ...session.storyRun, characters: roster } }
 
-      // Generate next story content
       const nextStepNumber = (session.currentStep?.step_number || 0) + 1
-      const storyRequest: StoryGenerationRequest = {
-        genre: session.storyRun.genre as 'fantasy' | 'mystery' | 'sci-fi',
-        length: session.storyRun.length as 'quick' | 'standard',
-        challenge: session.storyRun.challenge as 'casual' | 'challenging',
-        sessionId: `${session.storyRun.id}_${nextStepNumber}`,
-        userId: session.storyRun.user_id || ''
-      }
-
-      // Add context for story continuation with arc guidance
-      const currentArc = StoryArcManager.getCurrentArc(
-        nextStepNumber, 
-        session.storyRun.length, 
-        updatedGameState
-      )
-      
-      const storyGuidance = StoryArcManager.generateStoryGuidance(
-        currentArc, 
-        [] // TODO: Track previous choices for better guidance
-      )
+      const authoredStory = session.storyRun.authored_story_id
+        ? AuthoredStoryRegistry.get(session.storyRun.authored_story_id)
+        : null
 
-      const continueRequest = {
-        ...storyRequest,
-        storyRunId: session.storyRun.id,
-        currentStep: nextStepNumber,
-        gameState: updatedGameState,
-        previousChoice: selectedChoice.text,
-        storyArc: currentArc,
-        storyGuidance
-      }
+      let story: StoryResponse
+      let endingData: StoryProgressionResult['endingData']
+      let isEnding = false
+      let previousSteps: StoryStep[] = []
+      let refreshSummary = false
+      let decisionScope = session.storyRun.id
+      let customChoice: Choice | undefined
 
-      const storyResult = await generateStory(continueRequest)
+      if (session.storyRun.authored_story_id) {
+        // Authored stories follow the chosen branch instead of generating content
+        if (!authoredStory) {
+          throw new Error(`Authored story not found: ${session.storyRun.authored_story_id}`)
+        }
 
-      // Use the new ending detection system
-      const endingDetection = detectEnding(
-        storyResult.story.storyText,
-        updatedGameState,
-        updatedTraits,
-        session.storyRun.genre,
-        session.storyRun.length
-      )
+        let nextNodeId = selectedChoice.next
+        let nextAnchor: AnchorGoal | undefined
 
-      // More conservative ending detection - only end if explicitly detected OR near max steps
-      const isNearMaxSteps = nextStepNumber >= (this.getMaxStepsForLength(session.storyRun.length) - 1)
-      const isEnding = (endingDetection.isEnding && nextStepNumber >= 5) || 
-                      nextStepNumber >= this.getMaxStepsForLength(session.storyRun.length)
+        // Hybrid stories improvise steps until the next anchor's required flags are set
+        if (authoredStory.mode === 'hybrid') {
+          previousSteps = await StoryStepQueries.getByStoryRunId(session.storyRun.id)
+          const pending = HybridStoryPlanner.findPendingAnchor(authoredStory, previousSteps, selectedChoice)
 
-      let endingData: StoryProgressionResult['endingData']
+          if (pending && HybridStoryPlanner.isAnchorReady(pending, updatedGameState)) {
+            nextNodeId = pending.anchor.id
+          } else if (pending) {
+            nextNodeId = undefined
+            nextAnchor = HybridStoryPlanner.buildAnchorGoal(pending, updatedGameState)
+          }
+        }
+
+        if (nextNodeId) {
+          const { response, node } = AuthoredStoryPlayer.getNext(authoredStory, nextNodeId, updatedGameState)
+          story = response
+          isEnding = response.isEnding
+          // Authored nodes hash the same in every run so replays share tree nodes and stats
+          decisionScope = `${authoredStory.id}:${node.id}`
 
-      if (isEnding && endingDetection.classification) {
-        const classification = endingDetection.classification
-        
-        endingData = {
-          title: classification.title,
-          rarity: classification.rarity,
-          tag: classification.endingTag,
-          type: this.mapCategoryToEndingType(classification.category)
+          if (node.ending) {
+            endingData = { ...node.ending }
+          }
+        } else if (nextAnchor) {
+          // Bridge steps never end the story - only authored endings do
+          const continuation = await this.generateContinuation(
+            session, selectedChoice, updatedGameState, nextStepNumber, options, { previousSteps, nextAnchor }
+          )
+          story = continuation.story
+          refreshSummary = continuation.refreshSummary
+        } else {
+          throw new Error('Selected choice has no next node')
         }
-        
+      } else {
+        const continuation = await this.generateContinuation(
+          session, selectedChoice, updatedGameState, nextStepNumber, options
+        )
+        story = continuation.story
+        previousSteps = continuation.previousSteps
+        refreshSummary = continuation.refreshSummary
+
+        // Free-text actions only get consequences once the model has narrated their outcome
+        if (CustomActions.isCustomChoice(selectedChoice)) {
+          customChoice = CustomActions.interpret(selectedChoice, story.customActionOutcome)
+          updatedTraits = this.updatePersonalityTraits(updatedTraits, customChoice.traits_impact || {})
+          const applied = this.applyChoiceToState(session, roster, customChoice, updatedTraits)
+          updatedGameState = applied.gameState
+          roster = applied.roster
+        }
+
+        // Use the new ending detection system
+        const endingDetection = detectEnding(
+          story.storyText,
+          updatedGameState,
+          updatedTraits,
+          session.storyRun.genre,
+          session.storyRun.length,
+          session.storyRun.seed ? deriveSeed(session.storyRun.seed, nextStepNumber, 'ending') : undefined
+        )
+
+        // More conservative ending detection - only end if explicitly detected OR near max steps
+        isEnding = (endingDetection.isEnding && nextStepNumber >= 5) || 
+                   nextStepNumber >= this.getMaxStepsForLength(session.storyRun.length)
+
+        if (isEnding && endingDetection.classification) {
+          const classification = endingDetection.classification
+          
+          endingData = {
+            title: classification.title,
+            rarity: classification.rarity,
+            tag: classification.endingTag,
+            type: this.mapCategoryToEndingType(classification.category)
+          }
+        }
+      }
+
+      if (isEnding && endingData) {
         // Mark story as completed
         await StoryRunQueries.markCompleted(session.storyRun.id, {
           ending_title: endingData.title,
@@ -339,16 +772,34 @@ export class StoryFlowService {
         }
       }
 
+      // Register characters introduced in this step and use canonical ids in its choices
+      roster = CharacterRegistry.registerAll(roster, story.newCharacters || [], nextStepNumber)
+      const canonicalNext = CharacterRegistry.canonicalizeChoices(roster, story.choices, nextStepNumber)
+      roster = canonicalNext.roster
+
+      // Urgent steps in timed runs get a deadline and a default choice for when it runs out
+      const timeLimit = session.storyRun.timed_choices && !isEnding ? TimedChoices.getTimeLimit(story) : null
+      story = {
+        ...story,
+        choices: timeLimit ? TimedChoices.withDefaultChoice(canonicalNext.choices) : canonicalNext.choices
+      }
+
       // Create the next story step
       const newStep = await StoryStepQueries.create({
         story_run_id: session.storyRun.id,
         step_number: nextStepNumber,
-        story_text: storyResult.story.storyText,
-        choices: isEnding ? [] : storyResult.story.choices,
+        story_text: story.storyText,
+        choices: isEnding ? [] : story.choices,
         game_state: updatedGameState,
         traits_snapshot: updatedTraits,
-        choice_slug: isEnding ? undefined : this.generateStepChoiceSlug(storyResult.story.choices),
-        decision_key_hash: isEnding ? undefined : this.generateDecisionKeyHash(session.storyRun.id, nextStepNumber, storyResult.story.choices)
+        choice_slug: isEnding ? undefined : this.generateStepChoiceSlug(story.choices),
+        time_limit_seconds: timeLimit,
+        quality: story.quality,
+        decision_key_hash: isEnding ? undefined : this.generateDecisionKeyHash(
+          decisionScope,
+          nextStepNumber,
+          story.choices
+        )
       })
 
       if (!newStep) {
@@ -356,13 +807,28 @@ export class StoryFlowService {
       }
 
       // Track choice impressions for new choices (if not ending)
-      if (!isEnding && storyResult.story.choices.length > 0) {
-        await this.trackChoiceImpressions(storyResult.story.choices, session.storyRun.genre)
+      if (!isEnding && story.choices.length > 0) {
+        await this.trackChoiceImpressions(story.choices, session.storyRun.genre)
+      }
+
+      // Keep the rolling summary current so long runs stay within the prompt budget
+      let storyRun = session.storyRun
+      if (refreshSummary && !isEnding) {
+        storyRun = await this.refreshStorySummary(
+          storyRun,
+          [...previousSteps, newStep],
+          story.storySummary
+        )
+      }
+
+      if (JSON.stringify(roster) !== JSON.stringify(originalRoster)) {
+        storyRun = await this.saveCharacters(storyRun, roster)
       }
 
       // Update session
       const updatedSession: StorySession = {
         ...session,
+        storyRun,
         currentStep: newStep,
         gameState: updatedGameState,
         personalityTraits: updatedTraits,
@@ -373,7 +839,8 @@ export class StoryFlowService {
         session: updatedSession,
         newStep,
         isEnding,
-        endingData
+        endingData,
+        customChoice
       }
     } catch (error) {
       console.error('Error progressing story:', error)
@@ -382,87 +849,188 @@ export class StoryFlowService {
   }
 
   /**
-   * Update game state based on choice consequences
+   * Ask the model for the next step, replaying the run so far as context.
+   * Hybrid bridge steps pass the anchor beat the story should steer towards.
    */
-  private static updateGameState(
-    currentState: GameState,
+  private static async generateContinuation(
+    session: StorySession,
+    selectedChoice: Choice,
+    updatedGameState: GameState,
+    nextStepNumber: number,
+    options: StoryFlowOptions,
+    hybrid?: { previousSteps: StoryStep[]; nextAnchor: AnchorGoal }
+  ): Promise<{ story: StoryResponse; previousSteps: StoryStep[]; refreshSummary: boolean }> {
+    const previousSteps = hybrid?.previousSteps || await StoryStepQueries.getByStoryRunId(session.storyRun.id)
+    const { request, refreshSummary } = this.buildContinuationRequest(
+      session, selectedChoice, updatedGameState, nextStepNumber, previousSteps, hybrid?.nextAnchor
+    )
+
+    const { story } = await this.requestStory(request, options)
+    return { story, previousSteps, refreshSummary }
+  }
+
+  /**
+   * Request for the step after a choice. Shared by committed choices and the
+   * drafts pre-generated for premium players, so a draft matches its later request.
+   */
+  private static buildContinuationRequest(
+    session: StorySession,
+    selectedChoice: Choice,
+    updatedGameState: GameState,
+    nextStepNumber: number,
+    previousSteps: StoryStep[],
+    nextAnchor?: AnchorGoal
+  ): { request: StoryGenerationRequest; refreshSummary: boolean } {
+    const storyRequest: StoryGenerationRequest = {
+      genre: session.storyRun.genre as 'fantasy' | 'mystery' | 'sci-fi',
+      length: session.storyRun.length as 'quick' | 'standard',
+      challenge: session.storyRun.challenge as 'casual' | 'challenging',
+      sessionId: `${session.storyRun.id}_${nextStepNumber}`,
+      userId: session.storyRun.user_id || ''
+    }
+
+    // Add context for story continuation with arc guidance
+    const currentArc = StoryArcManager.getCurrentArc(
+      nextStepNumber, 
+      session.storyRun.length, 
+      updatedGameState,
+      nextAnchor?.phase
+    )
+    
+    // Replay the run so far so the model keeps names, plot threads and items consistent
+    const storyContext = StoryContextBuilder.build(
+      previousSteps,
+      updatedGameState,
+      session.storyRun.length,
+      session.storyRun
+    )
+    const refreshSummary = StoryContextBuilder.shouldRefreshSummary(session.storyRun, nextStepNumber)
+
+    const storyGuidance = StoryArcManager.generateStoryGuidance(
+      currentArc, 
+      storyContext.previousChoices
+    )
+
+    const continueRequest = {
+      ...storyRequest,
+      storyRunId: session.storyRun.id,
+      currentStep: nextStepNumber,
+      gameState: updatedGameState,
+      previousChoice: selectedChoice.text,
+      storyArc: currentArc,
+      storyGuidance,
+      storyContext,
+      refreshSummary,
+      nextAnchor,
+      timedChoices: !!session.storyRun.timed_choices,
+      customAction: CustomActions.isCustomChoice(selectedChoice) ? selectedChoice.text : undefined,
+      seed: session.storyRun.seed ? deriveSeed(session.storyRun.seed, nextStepNumber) : undefined,
+      draft: session.currentStep && !nextAnchor && !CustomActions.isCustomChoice(selectedChoice)
+        ? { stepId: session.currentStep.id, choiceId: selectedChoice.id }
+        : undefined
+    }
+
+    return { request: continueRequest, refreshSummary }
+  }
+
+  /**
+   * Apply a choice's consequences with relationship targets resolved onto canonical
+   * character ids, merging any relationships stored under other spellings.
+   * Public so StoryReplay runs recorded choices through the same rules.
+   */
+  static applyChoiceToState(
+    session: StorySession,
+    roster: StoryCharacter[],
     selectedChoice: Choice,
     updatedTraits: PersonalityTraits
-  ): GameState {
-    const newState: GameState = {
-      ...currentState,
-      personalityTraits: updatedTraits as unknown as Record<string, number>
+  ): { gameState: GameState; roster: StoryCharacter[] } {
+    const stepNumber = session.currentStep?.step_number || 0
+    const canonical = CharacterRegistry.canonicalizeChoices(roster, [selectedChoice], stepNumber)
+    const gameState = this.updateGameState(session.gameState, canonical.choices[0], updatedTraits)
+    const normalized = CharacterRegistry.normalizeRelationships(canonical.roster, gameState.relationships, stepNumber)
+
+    return {
+      gameState: { ...gameState, relationships: normalized.relationships },
+      roster: normalized.roster
     }
+  }
 
-    // Process choice consequences
-    if (selectedChoice.consequences) {
-      for (const consequence of selectedChoice.consequences) {
-        this.applyConsequence(newState, consequence)
-      }
+  /**
+   * Persist the run's character registry
+   */
+  private static async saveCharacters(storyRun: StoryRun, roster: StoryCharacter[]): Promise<StoryRun> {
+    try {
+      const updatedRun = await StoryRunQueries.update(storyRun.id, { characters: toJson(roster) })
+      return updatedRun || { ...storyRun, characters: roster }
+    } catch (error) {
+      console.error('Error saving story characters:', error)
+      // Don't throw - names are resolved again on the next step
+      return { ...storyRun, characters: roster }
     }
+  }
 
-    // Increment act if certain conditions are met
-    if (this.shouldIncrementAct(newState, selectedChoice)) {
-      newState.act += 1
+  /**
+   * Store a fresh "story so far" summary on the run, falling back to an
+   * extractive recap when the model didn't return one
+   */
+  private static async refreshStorySummary(
+    storyRun: StoryRun,
+    steps: StoryStep[],
+    modelSummary?: string
+  ): Promise<StoryRun> {
+    const throughStep = Math.max(...steps.map(step => step.step_number))
+    const summary = modelSummary?.trim() || StoryContextBuilder.summarizeRun(steps, storyRun.length)
+
+    try {
+      const updatedRun = await StoryRunQueries.updateSummary(storyRun.id, summary, throughStep)
+      return updatedRun || storyRun
+    } catch (error) {
+      console.error('Error refreshing story summary:', error)
+      // Don't throw - the next refresh will catch up
+      return storyRun
     }
+  }
 
-    return newState
+  /**
+   * Generate story content, streaming it when a text listener is supplied
+   */
+  private static async requestStory(
+    request: StoryGenerationRequest,
+    options: StoryFlowOptions
+  ): Promise<StoryGenerationResult> {
+    if (options.onStoryText) {
+      return generateStoryStream(request, { onStoryText: options.onStoryText })
+    }
+
+    return generateStory(request)
   }
 
   /**
-   * Apply a single consequence to game state
+   * Update game state based on choice consequences
    */
-  private static applyConsequence(gameState: GameState, consequence: string): void {
-    // Parse consequence string and apply changes
-    // Format examples: "add_flag:met_wizard", "set_relationship:wizard:10", "add_item:magic_sword"
-    
-    const [action, ...params] = consequence.split(':')
-    
-    switch (action) {
-      case 'add_flag':
-        if (params[0] && !gameState.flags.includes(params[0])) {
-          gameState.flags.push(params[0])
-        }
-        break
-        
-      case 'remove_flag':
-        if (params[0]) {
-          gameState.flags = gameState.flags.filter(flag => flag !== params[0])
-        }
-        break
-        
-      case 'set_relationship':
-        if (params[0] && params[1]) {
-          gameState.relationships[params[0]] = parseInt(params[1], 10) || 0
-        }
-        break
-        
-      case 'modify_relationship':
-        if (params[0] && params[1]) {
-          const current = gameState.relationships[params[0]] || 0
-          const change = parseInt(params[1], 10) || 0
-          gameState.relationships[params[0]] = Math.max(-100, Math.min(100, current + change))
-        }
-        break
-        
-      case 'add_item':
-        if (params[0] && !gameState.inventory.includes(params[0])) {
-          gameState.inventory.push(params[0])
-        }
-        break
-        
-      case 'remove_item':
-        if (params[0]) {
-          gameState.inventory = gameState.inventory.filter(item => item !== params[0])
-        }
-        break
+  private static updateGameState(
+    currentState: GameState,
+    selectedChoice: Choice,
+    updatedTraits: PersonalityTraits
+  ): GameState {
+    // Process choice consequences with the shared game state engine
+    const newState: GameState = applyConsequences(
+      { ...currentState, personalityTraits: updatedTraits as unknown as Record<string, number> },
+      selectedChoice.consequences || []
+    )
+
+    // Increment act if certain conditions are met
+    if (this.shouldIncrementAct(newState, selectedChoice)) {
+      newState.act += 1
     }
+
+    return newState
   }
 
   /**
    * Update personality traits based on choice impact
    */
-  private static updatePersonalityTraits(
+  static updatePersonalityTraits(
     currentTraits: PersonalityTraits,
     impact: Record<string, number>
   ): PersonalityTraits {
@@ -637,14 +1205,16 @@ export class StoryFlowService {
   /**
    * Generate decision key hash for collision prevention
    */
-  private static generateDecisionKeyHash(storyRunId: string, stepNumber: number, choices: Choice[]): string {
+  private static generateDecisionKeyHash(scope: string, stepNumber: number, choices: Choice[]): string {
     const choiceTexts = choices.map(c => c.text).join('|')
-    const hashInput = `${storyRunId}_${stepNumber}_${choiceTexts}`
-    
+    return this.hashString(`${scope}_${stepNumber}_${choiceTexts}`)
+  }
+
+  private static hashString(input: string): string {
     // Simple hash function (in production, use crypto.subtle.digest)
     let hash = 0
-    for (let i = 0; i < hashInput.length; i++) {
-      const char = hashInput.charCodeAt(i)
+    for (let i = 0; i < input.length; i++) {
+      const char = input.charCodeAt(i)
       hash = ((hash << 5) - hash) + char
       hash = hash & hash // Convert to 32-bit integer
     }
@@ -658,7 +1228,7 @@ export class StoryFlowService {
   private static async trackChoiceImpressions(choices: Choice[], genre: string): Promise<void> {
     try {
       for (const choice of choices) {
-        await ChoiceStatsQueries.incrementImpressions(choice.slug, choice.id, genre)
+        await ChoiceStatsQueries.incrementImpressions(choice.slug, choice.id, genre, choices)
       }
     } catch (error) {
       console.error('Error tracking choice impressions:', error)
@@ -0,0 +1,139 @@
+import { StoryFlowService, type StorySession } from './story-flow'
+import { CharacterRegistry } from '../characters/character-registry'
+import { safeGetChoicesArray, safeGetGameState, safeGetPersonalityTraits } from '../utils/type-safety'
+import type { Json } from '../../types/database'
+import type { Choice, GameState, StoryRun, StoryStep } from '../../types/story'
+
+export interface GameStateDifference {
+  field: string
+  recorded: unknown
+  replayed: unknown
+}
+
+export interface ReplayStepResult {
+  stepNumber: number // Step whose game state was compared
+  choiceId: string // Choice replayed on the step before it
+  choiceText: string
+  differences: GameStateDifference[]
+}
+
+export interface ReplayResult {
+  storyRunId: string
+  seed: number | null
+  steps: ReplayStepResult[]
+  firstDivergence: number | null // First step whose replayed state differs
+}
+
+/**
+ * Re-executes a run's recorded choices and diffs the resulting game states against
+ * the recorded ones. The stored step payloads stand in for the provider, so a run
+ * replays the same way whichever model generated it; only the game state rules run again.
+ */
+export class StoryReplay {
+  static replay(storyRun: StoryRun, steps: StoryStep[]): ReplayResult {
+    const ordered = [...steps].sort((a, b) => a.step_number - b.step_number)
+    const results: ReplayStepResult[] = []
+
+    if (ordered.length > 0) {
+      let session: StorySession = {
+        storyRun,
+        currentStep: ordered[0],
+        gameState: this.getRecordedState(ordered[0]),
+        personalityTraits: safeGetPersonalityTraits(ordered[0].traits_snapshot as Json),
+        isCompleted: false
+      }
+      let roster = CharacterRegistry.fromJson(storyRun.characters)
+
+      for (let i = 0; i < ordered.length - 1; i++) {
+        const step = ordered[i]
+        const next = ordered[i + 1]
+        if (!step.selected_choice_id) break
+
+        const choice = this.getRecordedChoices(step).find(c => c.id === step.selected_choice_id)
+        if (!choice) break
+
+        const traits = StoryFlowService.updatePersonalityTraits(session.personalityTraits, choice.traits_impact || {})
+        const applied = StoryFlowService.applyChoiceToState(session, roster, choice, traits)
+        roster = applied.roster
+
+        results.push({
+          stepNumber: next.step_number,
+          choiceId: choice.id,
+          choiceText: choice.text,
+          differences: this.diffGameStates(this.getRecordedState(next), applied.gameState)
+        })
+
+        session = { ...session, currentStep: next, gameState: applied.gameState, personalityTraits: traits }
+      }
+    }
+
+    const diverged = results.find(result => result.differences.length > 0)
+
+    return {
+      storyRunId: storyRun.id,
+      seed: storyRun.seed ?? null,
+      steps: results,
+      firstDivergence: diverged ? diverged.stepNumber : null
+    }
+  }
+
+  /**
+   * Fields that differ between two game states. Lists are compared as sets and
+   * missing records count as empty, so only meaningful differences are reported.
+   */
+  static diffGameStates(recorded: GameState, replayed: GameState): GameStateDifference[] {
+    const fields = Array.from(new Set([...Object.keys(recorded), ...Object.keys(replayed)])).sort()
+
+    return fields
+      .filter(field => this.normalize(recorded[field as keyof GameState]) !== this.normalize(replayed[field as keyof GameState]))
+      .map(field => ({
+        field,
+        recorded: recorded[field as keyof GameState],
+        replayed: replayed[field as keyof GameState]
+      }))
+  }
+
+  static formatReport(result: ReplayResult): string {
+    const lines = [
+      `Run ${result.storyRunId} (seed ${result.seed ?? 'none'}): ${result.steps.length} step(s) replayed`
+    ]
+
+    for (const step of result.steps) {
+      const marker = step.differences.length > 0 ? '❌' : '✅'
+      lines.push(`  ${marker} step ${step.stepNumber} after ${step.choiceId}: "${step.choiceText}"`)
+
+      for (const difference of step.differences) {
+        lines.push(`      ${difference.field}: recorded ${JSON.stringify(difference.recorded)}, replayed ${JSON.stringify(difference.replayed)}`)
+      }
+    }
+
+    lines.push(result.firstDivergence === null
+      ? 'Replayed game states match the recording'
+      : `First divergence at step ${result.firstDivergence}`)
+
+    return lines.join('\n')
+  }
+
+  private static getRecordedState(step: StoryStep): GameState {
+    return safeGetGameState(step.game_state as Json)
+  }
+
+  private static getRecordedChoices(step: StoryStep): Choice[] {
+    return safeGetChoicesArray(step.choices as Json) as Choice[]
+  }
+
+  private static normalize(value: unknown): string {
+    if (value === undefined || value === null) return ''
+
+    if (Array.isArray(value)) {
+      return value.length > 0 ? JSON.stringify([...value].map(item => JSON.stringify(item)).sort()) : ''
+    }
+
+    if (typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+      return entries.length > 0 ? JSON.stringify(entries) : ''
+    }
+
+    return JSON.stringify(value)
+  }
+}
@@ -0,0 +1,141 @@
+import { safeGetChoicesArray } from '../utils/type-safety'
+import type { Json } from '../../types/database'
+import { EndingRarity, type StoryRun, type StoryStep, type Choice } from '../../types/story'
+
+export interface StoryTreeEnding {
+  title: string
+  rarity: EndingRarity
+  tag: string | null
+}
+
+export interface StoryTreeEdge {
+  choiceId: string
+  choiceText: string
+  choiceSlug: string | null
+  child: StoryTreeNode
+}
+
+export interface StoryTreeNode {
+  key: string
+  stepNumber: number
+  storyText: string
+  runIds: string[] // Runs that passed through this step
+  edges: StoryTreeEdge[]
+  ending?: StoryTreeEnding
+}
+
+export interface StoryTree {
+  genre: string
+  roots: StoryTreeNode[]
+  runCount: number
+  endingCount: number
+}
+
+/**
+ * Merges a player's runs into branching trees (one per genre).
+ * Steps with the same decision key hash are the same node, so forks and
+ * replays that share a prefix collapse into a single path.
+ */
+export class StoryTreeBuilder {
+  static build(runs: StoryRun[], stepsByRun: Record<string, StoryStep[]>): StoryTree[] {
+    const trees = new Map<string, StoryTree>()
+
+    const orderedRuns = [...runs].sort((a, b) =>
+      (a.created_at || '').localeCompare(b.created_at || '')
+    )
+
+    for (const run of orderedRuns) {
+      const steps = [...(stepsByRun[run.id] || [])].sort((a, b) => a.step_number - b.step_number)
+      if (steps.length === 0) continue
+
+      let tree = trees.get(run.genre)
+      if (!tree) {
+        tree = { genre: run.genre, roots: [], runCount: 0, endingCount: 0 }
+        trees.set(run.genre, tree)
+      }
+      tree.runCount++
+
+      let node = this.findOrAdd(tree.roots, steps[0], run.id)
+
+      for (let i = 1; i < steps.length; i++) {
+        const previous = steps[i - 1]
+        const choices = safeGetChoicesArray(previous.choices as Json) as Choice[]
+        const chosen = choices.find(choice => choice?.id === previous.selected_choice_id)
+
+        // The same choice can lead to different steps when runs were generated separately
+        const childKey = this.getNodeKey(steps[i])
+        let edge = node.edges.find(existing =>
+          existing.choiceId === previous.selected_choice_id && existing.child.key === childKey
+        )
+        if (!edge) {
+          edge = {
+            choiceId: previous.selected_choice_id || '',
+            choiceText: chosen?.text || 'Unknown choice',
+            choiceSlug: chosen?.slug || null,
+            child: this.createNode(steps[i])
+          }
+          node.edges.push(edge)
+        }
+
+        node = edge.child
+        if (!node.runIds.includes(run.id)) {
+          node.runIds.push(run.id)
+        }
+      }
+
+      if (run.completed && run.ending_title && !node.ending) {
+        node.ending = {
+          title: run.ending_title,
+          rarity: this.toRarity(run.ending_rarity),
+          tag: run.ending_tag
+        }
+        tree.endingCount++
+      }
+    }
+
+    return Array.from(trees.values())
+  }
+
+  /**
+   * Count the leaves below a node (used to size branches in the view)
+   */
+  static countLeaves(node: StoryTreeNode): number {
+    if (node.edges.length === 0) return 1
+    return node.edges.reduce((total, edge) => total + this.countLeaves(edge.child), 0)
+  }
+
+  private static findOrAdd(nodes: StoryTreeNode[], step: StoryStep, runId: string): StoryTreeNode {
+    const key = this.getNodeKey(step)
+    let node = nodes.find(existing => existing.key === key)
+
+    if (!node) {
+      node = this.createNode(step)
+      nodes.push(node)
+    }
+    if (!node.runIds.includes(runId)) {
+      node.runIds.push(runId)
+    }
+
+    return node
+  }
+
+  private static createNode(step: StoryStep): StoryTreeNode {
+    return {
+      key: this.getNodeKey(step),
+      stepNumber: step.step_number,
+      storyText: step.story_text,
+      runIds: [],
+      edges: []
+    }
+  }
+
+  // Ending steps have no decision key, so they are always distinct leaves
+  private static getNodeKey(step: StoryStep): string {
+    return step.decision_key_hash || step.id
+  }
+
+  private static toRarity(rarity: string | null): EndingRarity {
+    const values = Object.values(EndingRarity) as string[]
+    return rarity && values.includes(rarity) ? rarity as EndingRarity : EndingRarity.COMMON
+  }
+}
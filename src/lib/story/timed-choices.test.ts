@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { TimedChoices } from './timed-choices'
+
+const CREATED_AT = '2026-01-01T12:00:00.000Z'
+const CREATED_MS = new Date(CREATED_AT).getTime()
+
+describe('TimedChoices.getDeadline', () => {
+  it('adds the time limit to the given time', () => {
+    expect(TimedChoices.getDeadline(20, CREATED_MS)).toBe('2026-01-01T12:00:20.000Z')
+  })
+
+  it('is null for untimed steps', () => {
+    expect(TimedChoices.getDeadline(null)).toBeNull()
+    expect(TimedChoices.getDeadline(0)).toBeNull()
+  })
+})
+
+describe('TimedChoices.getStepDeadline', () => {
+  it('prefers the stored deadline', () => {
+    const step = { choice_deadline_at: '2026-01-01T12:05:00.000Z', time_limit_seconds: 20, created_at: CREATED_AT }
+    expect(TimedChoices.getStepDeadline(step)).toBe('2026-01-01T12:05:00.000Z')
+  })
+
+  it('counts older steps from when they were created', () => {
+    const step = { choice_deadline_at: null, time_limit_seconds: 15, created_at: CREATED_AT }
+    expect(TimedChoices.getStepDeadline(step)).toBe('2026-01-01T12:00:15.000Z')
+  })
+
+  it('is null for untimed steps', () => {
+    expect(TimedChoices.getStepDeadline({ choice_deadline_at: null, time_limit_seconds: null, created_at: CREATED_AT })).toBeNull()
+  })
+})
+
+describe('TimedChoices.hasDeadlinePassed', () => {
+  const step = { choice_deadline_at: '2026-01-01T12:00:20.000Z', time_limit_seconds: 20, created_at: CREATED_AT }
+
+  it('is false before the deadline and true from it on', () => {
+    expect(TimedChoices.hasDeadlinePassed(step, CREATED_MS + 19_999)).toBe(false)
+    expect(TimedChoices.hasDeadlinePassed(step, CREATED_MS + 20_000)).toBe(true)
+  })
+
+  it('is false for untimed steps', () => {
+    expect(TimedChoices.hasDeadlinePassed({ choice_deadline_at: null, time_limit_seconds: null, created_at: CREATED_AT })).toBe(false)
+  })
+})
@@ -0,0 +1,63 @@
+import type { Choice, StoryResponse, StoryStep } from '../../types/story'
+
+// Genres where the player can opt into decision deadlines
+export const TIMED_CHOICE_GENRES = ['thriller', 'horror']
+
+// Bounds for model-suggested deadlines, in seconds
+const MIN_TIME_LIMIT = 8
+const MAX_TIME_LIMIT = 45
+
+/**
+ * Decision deadlines for timed runs: which steps are timed and what
+ * happens when the player runs out of time
+ */
+export class TimedChoices {
+  static isSupportedGenre(genre: string): boolean {
+    return TIMED_CHOICE_GENRES.includes(genre)
+  }
+
+  /**
+   * Deadline for a generated step, or null when the model didn't mark it as urgent
+   */
+  static getTimeLimit(story: StoryResponse): number | null {
+    if (!story.timeLimitSeconds || story.choices.length === 0) return null
+    return Math.round(Math.max(MIN_TIME_LIMIT, Math.min(MAX_TIME_LIMIT, story.timeLimitSeconds)))
+  }
+
+  /**
+   * Absolute deadline for a step stored now with the given limit, or null when it isn't timed
+   */
+  static getDeadline(timeLimitSeconds: number | null | undefined, from = Date.now()): string | null {
+    return timeLimitSeconds ? new Date(from + timeLimitSeconds * 1000).toISOString() : null
+  }
+
+  /**
+   * A stored step's deadline. Steps saved before deadlines were stored count
+   * from when they were created.
+   */
+  static getStepDeadline(step: Pick<StoryStep, 'choice_deadline_at' | 'time_limit_seconds' | 'created_at'>): string | null {
+    if (step.choice_deadline_at) return step.choice_deadline_at
+    if (!step.time_limit_seconds || !step.created_at) return null
+    return this.getDeadline(step.time_limit_seconds, new Date(step.created_at).getTime())
+  }
+
+  static hasDeadlinePassed(step: Pick<StoryStep, 'choice_deadline_at' | 'time_limit_seconds' | 'created_at'>, now = Date.now()): boolean {
+    const deadline = this.getStepDeadline(step)
+    return !!deadline && new Date(deadline).getTime() <= now
+  }
+
+  /**
+   * Make sure exactly one choice is the default; falls back to the last
+   * choice, which prompts describe as the hesitant option
+   */
+  static withDefaultChoice(choices: Choice[]): Choice[] {
+    const defaultIndex = choices.findIndex(choice => choice.is_default)
+    const index = defaultIndex >= 0 ? defaultIndex : choices.length - 1
+
+    return choices.map((choice, i) => ({ ...choice, is_default: i === index }))
+  }
+
+  static getDefaultChoice(choices: Choice[]): Choice | null {
+    return choices.find(choice => choice.is_default) || choices[choices.length - 1] || null
+  }
+}
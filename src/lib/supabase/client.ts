@@ -12,6 +12,13 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   }
 })
 
+// URL of a deployed Edge Function, for calls that need the raw fetch Response (e.g. streaming)
+export function getEdgeFunctionUrl(functionName: string): string {
+  return `${supabaseUrl}/functions/v1/${functionName}`
+}
+
+export { supabaseAnonKey }
+
 // Helper function to set session ID for anonymous users
 // This will be used in Edge Functions where we can set PostgreSQL session variables
 export function setSessionId(sessionId: string) {
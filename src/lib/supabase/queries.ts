@@ -1,6 +1,6 @@
 import { supabase } from './client'
 import type { Database, Json } from '@/types/database'
-import type { StoryRun, StoryStep, GameState, PersonalityTraits } from '@/types/story'
+import type { StoryRun, StoryStep, GameState, PersonalityTraits, QualityReport, Choice } from '@/types/story'
 import {
   safeGetPersonalityTraits,
   safeGetJsonArray,
@@ -8,12 +8,28 @@ import {
   isDatabaseRow,
   toJson
 } from '@/lib/utils/type-safety'
+import { ContentReportQueries } from '@/lib/moderation/content-reports'
+import { TimedChoices } from '@/lib/story/timed-choices'
 
 type StoryRunInsert = Database['public']['Tables']['story_runs']['Insert']
 type StoryRunUpdate = Database['public']['Tables']['story_runs']['Update']
 type StoryStepInsert = Database['public']['Tables']['story_steps']['Insert']
 type StoryStepUpdate = Database['public']['Tables']['story_steps']['Update']
 
+// Only changed through the PIN-checked RPCs in ContentRatings, never by a profile update
+const CONTENT_SETTING_COLUMNS = ['content_rating', 'content_preferences', 'content_settings_locked'] as const
+type UserProfileUpdate = Omit<Database['public']['Tables']['user_profiles']['Update'], typeof CONTENT_SETTING_COLUMNS[number]>
+
+// Shown in place of a step a moderator has hidden
+export const HIDDEN_STEP_TEXT = 'This passage was removed by a moderator.'
+
+/**
+ * Replace the text of a hidden step so no view (or prompt) sees the original
+ */
+function withHiddenText(step: StoryStep): StoryStep {
+  return step.hidden_at ? { ...step, story_text: HIDDEN_STEP_TEXT } : step
+}
+
 // Story Run CRUD Operations
 export class StoryRunQueries {
   static async create(data: StoryRunInsert): Promise<StoryRun | null> {
@@ -64,6 +80,21 @@ export class StoryRunQueries {
     return storyRuns || []
   }
 
+  static async getForks(parentRunId: string): Promise<StoryRun[]> {
+    const { data: storyRuns, error } = await supabase
+      .from('story_runs')
+      .select('*')
+      .eq('parent_run_id', parentRunId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching story run forks:', error)
+      throw new Error(`Failed to fetch story run forks: ${error.message}`)
+    }
+
+    return storyRuns || []
+  }
+
   static async getBySessionId(sessionId: string): Promise<StoryRun[]> {
     const { data: storyRuns, error } = await supabase
       .from('story_runs')
@@ -120,6 +151,13 @@ export class StoryRunQueries {
       ...endingData
     })
   }
+
+  static async updateSummary(id: string, summary: string, throughStep: number): Promise<StoryRun | null> {
+    return this.update(id, {
+      story_summary: summary,
+      summary_step: throughStep
+    })
+  }
 }
 
 // Story Step CRUD Operations
@@ -133,6 +171,8 @@ export class StoryStepQueries {
     traits_snapshot?: PersonalityTraits
     choice_slug?: string
     decision_key_hash?: string
+    time_limit_seconds?: number | null
+    quality?: QualityReport
   }): Promise<StoryStep | null> {
     // Validate and safely convert choices array
     const validChoices = safeGetJsonArray(toJson(data.choices), isValidChoice)
@@ -145,7 +185,13 @@ export class StoryStepQueries {
       game_state: toJson(data.game_state || {}),
       traits_snapshot: toJson(data.traits_snapshot || {}),
       choice_slug: data.choice_slug,
-      decision_key_hash: data.decision_key_hash
+      decision_key_hash: data.decision_key_hash,
+      time_limit_seconds: data.time_limit_seconds ?? null,
+      choice_deadline_at: TimedChoices.getDeadline(data.time_limit_seconds),
+      quality_score: data.quality?.score ?? null,
+      quality_checks: data.quality
+        ? toJson({ checks: data.quality.checks, issues: data.quality.issues, regenerated: !!data.quality.regenerated })
+        : null
     }
 
     const { data: storyStep, error } = await supabase
@@ -162,6 +208,45 @@ export class StoryStepQueries {
     return isDatabaseRow(storyStep) ? storyStep as StoryStep : null
   }
 
+  /**
+   * Copy existing steps into another run, keeping their recorded choices
+   */
+  static async copyToRun(steps: StoryStep[], storyRunId: string): Promise<StoryStep[]> {
+    if (steps.length === 0) return []
+
+    const insertData: StoryStepInsert[] = steps.map(step => ({
+      story_run_id: storyRunId,
+      step_number: step.step_number,
+      story_text: step.story_text,
+      choices: step.choices,
+      game_state: step.game_state,
+      traits_snapshot: step.traits_snapshot,
+      selected_choice_id: step.selected_choice_id,
+      choice_slug: step.choice_slug,
+      decision_key_hash: step.decision_key_hash,
+      time_limit_seconds: step.time_limit_seconds ?? null,
+      // The step the copy continues from gets a fresh deadline, answered ones keep theirs
+      choice_deadline_at: step.selected_choice_id
+        ? step.choice_deadline_at ?? null
+        : TimedChoices.getDeadline(step.time_limit_seconds),
+      quality_score: step.quality_score ?? null,
+      quality_checks: step.quality_checks ?? null
+    }))
+
+    const { data: storySteps, error } = await supabase
+      .from('story_steps')
+      .insert(insertData)
+      .select()
+      .order('step_number', { ascending: true })
+
+    if (error) {
+      console.error('Error copying story steps:', error)
+      throw new Error(`Failed to copy story steps: ${error.message}`)
+    }
+
+    return (storySteps || []).filter(isDatabaseRow) as StoryStep[]
+  }
+
   static async getById(id: string): Promise<StoryStep | null> {
     const { data: storyStep, error } = await supabase
       .from('story_steps')
@@ -177,7 +262,7 @@ export class StoryStepQueries {
       throw new Error(`Failed to fetch story step: ${error.message}`)
     }
 
-    return isDatabaseRow(storyStep) ? storyStep as StoryStep : null
+    return isDatabaseRow(storyStep) ? withHiddenText(storyStep as StoryStep) : null
   }
 
   static async getByStoryRunId(storyRunId: string): Promise<StoryStep[]> {
@@ -192,7 +277,7 @@ export class StoryStepQueries {
       throw new Error(`Failed to fetch story steps: ${error.message}`)
     }
 
-    return (storySteps || []).filter(isDatabaseRow) as StoryStep[]
+    return ((storySteps || []).filter(isDatabaseRow) as StoryStep[]).map(withHiddenText)
   }
 
   static async update(id: string, data: StoryStepUpdate): Promise<StoryStep | null> {
@@ -247,7 +332,7 @@ export class StoryStepQueries {
       throw new Error(`Failed to fetch latest story step: ${error.message}`)
     }
 
-    return isDatabaseRow(storyStep) ? storyStep as StoryStep : null
+    return isDatabaseRow(storyStep) ? withHiddenText(storyStep as StoryStep) : null
   }
 }
 
@@ -304,9 +389,12 @@ export class UserProfileQueries {
     return profile!
   }
 
-  static async update(userId: string, data: Database['public']['Tables']['user_profiles']['Update']): Promise<Database['public']['Tables']['user_profiles']['Row'] | null> {
+  static async update(userId: string, data: UserProfileUpdate): Promise<Database['public']['Tables']['user_profiles']['Row'] | null> {
+    const allowed = Object.fromEntries(
+      Object.entries(data).filter(([column]) => !(CONTENT_SETTING_COLUMNS as readonly string[]).includes(column))
+    )
     const updateData = {
-      ...data,
+      ...allowed,
       updated_at: new Date().toISOString()
     }
 
@@ -441,8 +529,10 @@ export class UserProfileQueries {
 
 // Choice Statistics Operations
 export class ChoiceStatsQueries {
-  static async incrementImpressions(choiceSlug: string, optionId: string, genre: string): Promise<void> {
+  static async incrementImpressions(choiceSlug: string, optionId: string, genre: string, choices: Choice[] = []): Promise<void> {
     try {
+      if (await ContentReportQueries.isChoiceSlugBanned(choiceSlug, choices)) return
+
       const { error } = await supabase.rpc('increment_choice_impressions' as any, {
         p_choice_slug: choiceSlug,
         p_option_id: optionId,
@@ -459,8 +549,10 @@ export class ChoiceStatsQueries {
     }
   }
 
-  static async incrementSelections(choiceSlug: string, optionId: string, genre: string): Promise<void> {
+  static async incrementSelections(choiceSlug: string, optionId: string, genre: string, choices: Choice[] = []): Promise<void> {
     try {
+      if (await ContentReportQueries.isChoiceSlugBanned(choiceSlug, choices)) return
+
       const { error } = await supabase.rpc('increment_choice_selections' as any, {
         p_choice_slug: choiceSlug,
         p_option_id: optionId,
@@ -477,7 +569,37 @@ export class ChoiceStatsQueries {
     }
   }
 
-  static async getChoiceStatistics(choiceSlug: string, genre: string) {
+  /**
+   * Count a timed step where the player ran out of time and the default option was taken.
+   * Timeouts are kept apart from selections so they don't skew choice percentages.
+   */
+  static async incrementTimeouts(choiceSlug: string, optionId: string, genre: string, choices: Choice[] = []): Promise<void> {
+    try {
+      if (await ContentReportQueries.isChoiceSlugBanned(choiceSlug, choices)) return
+
+      const { error } = await supabase.rpc('increment_choice_timeouts', {
+        p_choice_slug: choiceSlug,
+        p_option_id: optionId,
+        p_genre: genre
+      })
+
+      if (error) {
+        console.error('Error incrementing timeouts:', error)
+        // Don't throw - this is non-critical for user experience
+      }
+    } catch (error) {
+      console.error('Error calling increment_choice_timeouts:', error)
+      // Silently fail to not break story flow
+    }
+  }
+
+  /**
+   * Statistics for a step. Pass the step's choices so a ban on any of them hides the step's statistics.
+   */
+  static async getChoiceStatistics(choiceSlug: string, genre: string, choices: Choice[] = []) {
+    // Moderator-banned slugs don't show statistics
+    if (await ContentReportQueries.isChoiceSlugBanned(choiceSlug, choices)) return []
+
     const { data: stats, error } = await supabase
       .from('choice_statistics_cached')
       .select('*')
@@ -508,7 +630,8 @@ export class ChoiceStatsQueries {
       return []
     }
 
-    return stats || []
+    const bannedSlugs = await ContentReportQueries.getBannedSlugs()
+    return (stats || []).filter(stat => !stat.choice_slug || !bannedSlugs.has(stat.choice_slug))
   }
 
   static async getCronJobHealth() {
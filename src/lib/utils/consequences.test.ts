@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { parseConsequence, parseConsequences, parseCondition, compareValues, describeCondition } from './consequences'
+import { applyConsequence, applyConsequences, createInitialGameState } from './game-state'
+import type { GameState } from '../../types/story'
+
+function makeState(overrides: Partial<GameState> = {}): GameState {
+  return { ...createInitialGameState('fantasy'), ...overrides }
+}
+
+describe('parseConsequence', () => {
+  it('parses simple effects', () => {
+    const result = parseConsequence('add_item:magic_sword')
+    expect(result).toEqual({
+      ok: true,
+      consequence: { source: 'add_item:magic_sword', conditions: [], effect: { action: 'add_item', item: 'magic_sword' } }
+    })
+  })
+
+  it('parses numeric effects, including negative values', () => {
+    const result = parseConsequence('modify_stat:gold:-5')
+    expect(result.ok && result.consequence.effect).toEqual({ action: 'modify_stat', stat: 'gold', value: -5 })
+  })
+
+  it('defaults increment_counter to one', () => {
+    const result = parseConsequence('increment_counter:visits')
+    expect(result.ok && result.consequence.effect).toEqual({ action: 'increment_counter', counter: 'visits', value: 1 })
+  })
+
+  it('parses conditional effects with several conditions', () => {
+    const result = parseConsequence('if flag:met_wizard and stat:gold >= 10 then add_item:spellbook')
+    expect(result.ok && result.consequence.conditions).toEqual([
+      { type: 'flag', name: 'met_wizard', negate: false },
+      { type: 'stat', name: 'gold', operator: '>=', value: 10 }
+    ])
+  })
+
+  it('reports unknown actions', () => {
+    const result = parseConsequence('summon_dragon:red')
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.error.kind).toBe('unknown_action')
+  })
+
+  it('reports missing parameters', () => {
+    const result = parseConsequence('modify_relationship:elena')
+    expect(!result.ok && result.error.kind).toBe('invalid_params')
+  })
+
+  it('reports malformed conditions', () => {
+    expect(parseConsequence('if flag:a add_flag:b').ok).toBe(false)
+    const result = parseConsequence('if mood:happy then add_flag:b')
+    expect(!result.ok && result.error.kind).toBe('invalid_condition')
+  })
+})
+
+describe('parseConsequences', () => {
+  it('splits valid consequences from errors', () => {
+    const { consequences, errors } = parseConsequences(['add_flag:a', 'bogus', 'increment_act'])
+    expect(consequences.map(consequence => consequence.effect.action)).toEqual(['add_flag', 'increment_act'])
+    expect(errors).toHaveLength(1)
+    expect(errors[0].source).toBe('bogus')
+  })
+})
+
+describe('parseCondition', () => {
+  it('parses negated presence checks', () => {
+    expect(parseCondition('not item:torch')).toEqual({ type: 'item', name: 'torch', negate: true })
+  })
+
+  it('parses act comparisons', () => {
+    expect(parseCondition('act >= 2')).toEqual({ type: 'act', operator: '>=', value: 2 })
+  })
+
+  it('returns null for unknown syntax', () => {
+    expect(parseCondition('gold > 5')).toBeNull()
+  })
+})
+
+describe('compareValues', () => {
+  it('supports every operator', () => {
+    expect(compareValues(3, '>=', 3)).toBe(true)
+    expect(compareValues(3, '<=', 2)).toBe(false)
+    expect(compareValues(3, '>', 2)).toBe(true)
+    expect(compareValues(3, '<', 3)).toBe(false)
+    expect(compareValues(3, '==', 3)).toBe(true)
+    expect(compareValues(3, '!=', 3)).toBe(false)
+  })
+})
+
+describe('describeCondition', () => {
+  it('humanizes names for players', () => {
+    expect(describeCondition({ type: 'item', name: 'magic_sword', negate: false })).toBe('Requires magic sword')
+    expect(describeCondition({ type: 'relationship', name: 'elena', operator: '>=', value: 5 }))
+      .toBe('Requires elena relationship >= 5')
+  })
+})
+
+describe('applyConsequence', () => {
+  it('applies effects without mutating the original state', () => {
+    const state = makeState()
+    const next = applyConsequence(state, 'add_item:lantern')
+    expect(next.inventory).toContain('lantern')
+    expect(state.inventory).not.toContain('lantern')
+  })
+
+  it('keeps stats at or above zero', () => {
+    const next = applyConsequences(makeState(), ['set_stat:gold:3', 'modify_stat:gold:-10'])
+    expect(next.stats?.gold).toBe(0)
+  })
+
+  it('tracks and resets counters', () => {
+    const counted = applyConsequences(makeState(), ['increment_counter:visits', 'increment_counter:visits:2'])
+    expect(counted.counters?.visits).toBe(3)
+    expect(applyConsequence(counted, 'reset_counter:visits').counters?.visits).toBe(0)
+  })
+
+  it('only applies conditional effects when their conditions hold', () => {
+    const state = makeState()
+    expect(applyConsequence(state, 'if flag:met_wizard then add_item:spellbook').inventory).not.toContain('spellbook')
+
+    const met = applyConsequence(state, 'add_flag:met_wizard')
+    expect(applyConsequence(met, 'if flag:met_wizard then add_item:spellbook').inventory).toContain('spellbook')
+  })
+
+  it('checks conditions against the state left by earlier consequences', () => {
+    const next = applyConsequences(makeState(), ['add_flag:door_open', 'if flag:door_open then increment_act'])
+    expect(next.act).toBe(2)
+  })
+
+  it('ignores consequences that do not parse', () => {
+    const state = makeState()
+    expect(applyConsequence(state, 'summon_dragon:red')).toBe(state)
+  })
+})
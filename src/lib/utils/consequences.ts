@@ -0,0 +1,229 @@
+/**
+ * Consequence grammar shared by choices, authored stories and the game state engine.
+ *
+ *   consequence := ["if" condition ("and" condition)* "then"] effect
+ *   effect      := action(":" param)*            e.g. add_item:magic_sword, modify_stat:gold:-5
+ *   condition   := ["not"] (flag|item):name      e.g. not flag:met_wizard
+ *                | (relationship|stat|counter|trait):name op number
+ *                | act op number                 op is one of >= <= > < == !=
+ *
+ * Choice `requires` entries use the same condition syntax.
+ */
+
+/**
+ * Effect actions understood by applyConsequence
+ */
+export const CONSEQUENCE_ACTIONS = [
+  'add_flag',
+  'remove_flag',
+  'set_relationship',
+  'modify_relationship',
+  'add_item',
+  'remove_item',
+  'increment_act',
+  'set_stat',
+  'modify_stat',
+  'increment_counter',
+  'reset_counter'
+] as const
+
+export type ConsequenceAction = typeof CONSEQUENCE_ACTIONS[number]
+
+export type ConsequenceEffect =
+  | { action: 'add_flag' | 'remove_flag'; flag: string }
+  | { action: 'add_item' | 'remove_item'; item: string }
+  | { action: 'set_relationship' | 'modify_relationship'; character: string; value: number }
+  | { action: 'set_stat' | 'modify_stat'; stat: string; value: number }
+  | { action: 'increment_counter'; counter: string; value: number }
+  | { action: 'reset_counter'; counter: string }
+  | { action: 'increment_act' }
+
+export type ComparisonOperator = '>=' | '<=' | '>' | '<' | '==' | '!='
+
+export type ConsequenceCondition =
+  | { type: 'flag' | 'item'; name: string; negate: boolean }
+  | { type: 'relationship' | 'stat' | 'counter' | 'trait'; name: string; operator: ComparisonOperator; value: number }
+  | { type: 'act'; operator: ComparisonOperator; value: number }
+
+export interface ParsedConsequence {
+  source: string
+  conditions: ConsequenceCondition[] // All must hold for the effect to apply
+  effect: ConsequenceEffect
+}
+
+export type ConsequenceErrorKind = 'unknown_action' | 'invalid_params' | 'invalid_condition'
+
+export interface ConsequenceParseError {
+  source: string
+  kind: ConsequenceErrorKind
+  message: string
+}
+
+export type ConsequenceParseResult =
+  | { ok: true; consequence: ParsedConsequence }
+  | { ok: false; error: ConsequenceParseError }
+
+const COMPARISON = /^(relationship|stat|counter|trait):([^\s<>=!]+)\s*(>=|<=|==|!=|>|<)\s*(-?\d+)$/
+const ACT_COMPARISON = /^act\s*(>=|<=|==|!=|>|<)\s*(-?\d+)$/
+const PRESENCE = /^(not\s+)?(flag|item):(\S+)$/
+
+/**
+ * Parse one consequence string, reporting why it can't be applied instead of dropping it
+ */
+export function parseConsequence(source: string): ConsequenceParseResult {
+  const text = source.trim()
+  const fail = (kind: ConsequenceErrorKind, message: string): ConsequenceParseResult =>
+    ({ ok: false, error: { source, kind, message } })
+
+  let effectText = text
+  const conditions: ConsequenceCondition[] = []
+
+  if (/^if\s/i.test(text)) {
+    const match = text.match(/^if\s+(.+?)\s+then\s+(.+)$/i)
+    if (!match) {
+      return fail('invalid_condition', 'Conditional consequences must look like "if <condition> then <effect>"')
+    }
+
+    for (const part of match[1].split(/\s+and\s+/i)) {
+      const condition = parseCondition(part.trim())
+      if (!condition) {
+        return fail('invalid_condition', `Can't parse condition "${part.trim()}"`)
+      }
+      conditions.push(condition)
+    }
+    effectText = match[2].trim()
+  }
+
+  const [action, ...params] = effectText.split(':').map(part => part.trim())
+
+  if (!(CONSEQUENCE_ACTIONS as readonly string[]).includes(action)) {
+    return fail('unknown_action', `Unknown consequence action "${action}"`)
+  }
+
+  const effect = parseEffect(action as ConsequenceAction, params)
+  if (!effect) {
+    return fail('invalid_params', `"${effectText}" is missing ${needsNumber(action as ConsequenceAction) ? 'a name or numeric value' : 'a parameter'}`)
+  }
+
+  return { ok: true, consequence: { source, conditions, effect } }
+}
+
+/**
+ * Parse a list of consequences, splitting the valid ones from the errors
+ */
+export function parseConsequences(sources: string[]): {
+  consequences: ParsedConsequence[]
+  errors: ConsequenceParseError[]
+} {
+  const consequences: ParsedConsequence[] = []
+  const errors: ConsequenceParseError[] = []
+
+  for (const source of sources) {
+    const result = parseConsequence(source)
+    if (result.ok) {
+      consequences.push(result.consequence)
+    } else {
+      errors.push(result.error)
+    }
+  }
+
+  return { consequences, errors }
+}
+
+/**
+ * Compare a value using a parsed operator
+ */
+export function compareValues(actual: number, operator: ComparisonOperator, expected: number): boolean {
+  switch (operator) {
+    case '>=': return actual >= expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '<': return actual < expected
+    case '==': return actual === expected
+    case '!=': return actual !== expected
+  }
+}
+
+function parseEffect(action: ConsequenceAction, params: string[]): ConsequenceEffect | null {
+  const [name, rawValue] = params
+  const value = rawValue !== undefined && /^-?\d+$/.test(rawValue) ? parseInt(rawValue, 10) : NaN
+
+  switch (action) {
+    case 'add_flag':
+    case 'remove_flag':
+      return name ? { action, flag: name } : null
+
+    case 'add_item':
+    case 'remove_item':
+      return name ? { action, item: name } : null
+
+    case 'set_relationship':
+    case 'modify_relationship':
+      return name && !isNaN(value) ? { action, character: name, value } : null
+
+    case 'set_stat':
+    case 'modify_stat':
+      return name && !isNaN(value) ? { action, stat: name, value } : null
+
+    case 'increment_counter':
+      if (!name || (rawValue !== undefined && isNaN(value))) return null
+      return { action, counter: name, value: rawValue === undefined ? 1 : value }
+
+    case 'reset_counter':
+      return name ? { action, counter: name } : null
+
+    case 'increment_act':
+      return { action }
+  }
+}
+
+/**
+ * Parse a single condition, as used in "if ... then" consequences and choice requirements
+ */
+export function parseCondition(text: string): ConsequenceCondition | null {
+  text = text.trim()
+
+  const presence = text.match(PRESENCE)
+  if (presence) {
+    return { type: presence[2] as 'flag' | 'item', name: presence[3], negate: !!presence[1] }
+  }
+
+  const comparison = text.match(COMPARISON)
+  if (comparison) {
+    return {
+      type: comparison[1] as 'relationship' | 'stat' | 'counter' | 'trait',
+      name: comparison[2],
+      operator: comparison[3] as ComparisonOperator,
+      value: parseInt(comparison[4], 10)
+    }
+  }
+
+  const act = text.match(ACT_COMPARISON)
+  if (act) {
+    return { type: 'act', operator: act[1] as ComparisonOperator, value: parseInt(act[2], 10) }
+  }
+
+  return null
+}
+
+/**
+ * Describe a condition for players, e.g. "Requires magic sword"
+ */
+export function describeCondition(condition: ConsequenceCondition): string {
+  const humanize = (name: string) => name.replace(/_/g, ' ')
+
+  switch (condition.type) {
+    case 'flag':
+      return condition.negate ? `Unavailable after ${humanize(condition.name)}` : `Requires ${humanize(condition.name)}`
+    case 'item':
+      return condition.negate ? `Can't be carrying ${humanize(condition.name)}` : `Requires ${humanize(condition.name)}`
+    case 'act':
+      return `Requires act ${condition.operator} ${condition.value}`
+    default:
+      return `Requires ${humanize(condition.name)} ${condition.type === 'relationship' ? 'relationship ' : ''}${condition.operator} ${condition.value}`
+  }
+}
+
+function needsNumber(action: ConsequenceAction): boolean {
+  return ['set_relationship', 'modify_relationship', 'set_stat', 'modify_stat'].includes(action)
+}
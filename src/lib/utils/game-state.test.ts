@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { createInitialGameState, evaluateCondition, getChoiceAvailability, setRelationship } from './game-state'
+import type { Choice, GameState } from '../../types/story'
+
+function makeChoice(overrides: Partial<Choice> = {}): Choice {
+  return { id: 'A', text: 'Open the vault', slug: 'open_vault', ...overrides }
+}
+
+function makeState(overrides: Partial<GameState> = {}): GameState {
+  return { ...createInitialGameState('fantasy'), ...overrides }
+}
+
+describe('getChoiceAvailability', () => {
+  it('treats choices without requirements as available', () => {
+    expect(getChoiceAvailability(makeState(), makeChoice())).toEqual({ available: true, unmet: [], hint: undefined })
+  })
+
+  it('is available when every requirement is met', () => {
+    const state = setRelationship(makeState({ inventory: ['vault_key'] }), 'banker', 25)
+    const choice = makeChoice({ requires: ['item:vault_key', 'relationship:banker >= 20'] })
+
+    expect(getChoiceAvailability(state, choice).available).toBe(true)
+  })
+
+  it('lists unmet requirements and describes the first one', () => {
+    const choice = makeChoice({ requires: ['flag:story_started', 'item:vault_key', 'stat:gold >= 100'] })
+    const availability = getChoiceAvailability(makeState(), choice)
+
+    expect(availability.available).toBe(false)
+    expect(availability.unmet).toEqual(['item:vault_key', 'stat:gold >= 100'])
+    expect(availability.hint).toBe('Requires vault key')
+  })
+
+  it('prefers the authored locked hint', () => {
+    const choice = makeChoice({ requires: ['item:vault_key'], locked_hint: 'The vault needs a key' })
+    expect(getChoiceAvailability(makeState(), choice).hint).toBe('The vault needs a key')
+  })
+
+  it('supports negated requirements', () => {
+    const choice = makeChoice({ requires: ['not flag:alarm_raised'] })
+
+    expect(getChoiceAvailability(makeState(), choice).available).toBe(true)
+    expect(getChoiceAvailability(makeState({ flags: ['alarm_raised'] }), choice).available).toBe(false)
+  })
+
+  it('ignores requirements that do not parse', () => {
+    const choice = makeChoice({ requires: ['vault is open'] })
+    expect(getChoiceAvailability(makeState(), choice).available).toBe(true)
+  })
+})
+
+describe('evaluateCondition', () => {
+  it('compares the current act', () => {
+    const state = makeState({ act: 2 })
+    expect(evaluateCondition(state, { type: 'act', operator: '>=', value: 2 })).toBe(true)
+    expect(evaluateCondition(state, { type: 'act', operator: '>', value: 2 })).toBe(false)
+  })
+
+  it('treats missing traits as neutral', () => {
+    const state = makeState({ personalityTraits: {} })
+    expect(evaluateCondition(state, { type: 'trait', name: 'courage', operator: '==', value: 50 })).toBe(true)
+  })
+})
@@ -1,3 +1,11 @@
+import {
+  parseConsequence,
+  parseCondition,
+  compareValues,
+  describeCondition,
+  type ConsequenceCondition,
+  type ParsedConsequence
+} from './consequences'
 import type { GameState, PersonalityTraits, Choice } from '../../types/story'
 
 /**
@@ -157,44 +165,155 @@ export function applyConsequences(gameState: GameState, consequences: string[]):
 }
 
 /**
- * Apply a single consequence to game state
+ * Get a numeric stat such as health or gold
  */
-export function applyConsequence(gameState: GameState, consequence: string): GameState {
-  const [action, ...params] = consequence.split(':')
-  
-  switch (action) {
+export function getStat(gameState: GameState, stat: string): number {
+  return gameState.stats?.[stat] || 0
+}
+
+/**
+ * Set a numeric stat (immutable). Stats never drop below zero.
+ */
+export function setStat(gameState: GameState, stat: string, value: number): GameState {
+  return {
+    ...gameState,
+    stats: {
+      ...gameState.stats,
+      [stat]: Math.max(0, value)
+    }
+  }
+}
+
+/**
+ * Modify a numeric stat (immutable)
+ */
+export function modifyStat(gameState: GameState, stat: string, change: number): GameState {
+  return setStat(gameState, stat, getStat(gameState, stat) + change)
+}
+
+/**
+ * Get how many times a counter has been incremented
+ */
+export function getCounter(gameState: GameState, counter: string): number {
+  return gameState.counters?.[counter] || 0
+}
+
+/**
+ * Set a counter value (immutable)
+ */
+export function setCounter(gameState: GameState, counter: string, value: number): GameState {
+  return {
+    ...gameState,
+    counters: {
+      ...gameState.counters,
+      [counter]: value
+    }
+  }
+}
+
+/**
+ * Check a single consequence condition against game state
+ */
+export function evaluateCondition(gameState: GameState, condition: ConsequenceCondition): boolean {
+  switch (condition.type) {
+    case 'flag':
+      return hasFlag(gameState, condition.name) !== condition.negate
+    case 'item':
+      return hasItem(gameState, condition.name) !== condition.negate
+    case 'relationship':
+      return compareValues(getRelationship(gameState, condition.name), condition.operator, condition.value)
+    case 'stat':
+      return compareValues(getStat(gameState, condition.name), condition.operator, condition.value)
+    case 'counter':
+      return compareValues(getCounter(gameState, condition.name), condition.operator, condition.value)
+    case 'trait':
+      return compareValues(gameState.personalityTraits[condition.name] ?? 50, condition.operator, condition.value)
+    case 'act':
+      return compareValues(gameState.act, condition.operator, condition.value)
+  }
+}
+
+/**
+ * Apply a parsed consequence (immutable). Conditions are checked against the
+ * state as it is when the consequence is reached, after earlier ones applied.
+ */
+export function applyParsedConsequence(gameState: GameState, consequence: ParsedConsequence): GameState {
+  if (!consequence.conditions.every(condition => evaluateCondition(gameState, condition))) {
+    return gameState
+  }
+
+  const effect = consequence.effect
+
+  switch (effect.action) {
     case 'add_flag':
-      return params[0] ? addFlag(gameState, params[0]) : gameState
-      
+      return addFlag(gameState, effect.flag)
     case 'remove_flag':
-      return params[0] ? removeFlag(gameState, params[0]) : gameState
-      
+      return removeFlag(gameState, effect.flag)
     case 'set_relationship':
-      if (params[0] && params[1]) {
-        const value = parseInt(params[1], 10) || 0
-        return setRelationship(gameState, params[0], value)
-      }
-      return gameState
-      
+      return setRelationship(gameState, effect.character, effect.value)
     case 'modify_relationship':
-      if (params[0] && params[1]) {
-        const change = parseInt(params[1], 10) || 0
-        return modifyRelationship(gameState, params[0], change)
-      }
-      return gameState
-      
+      return modifyRelationship(gameState, effect.character, effect.value)
     case 'add_item':
-      return params[0] ? addItem(gameState, params[0]) : gameState
-      
+      return addItem(gameState, effect.item)
     case 'remove_item':
-      return params[0] ? removeItem(gameState, params[0]) : gameState
-      
+      return removeItem(gameState, effect.item)
     case 'increment_act':
       return { ...gameState, act: gameState.act + 1 }
-      
-    default:
-      console.warn(`Unknown consequence action: ${action}`)
-      return gameState
+    case 'set_stat':
+      return setStat(gameState, effect.stat, effect.value)
+    case 'modify_stat':
+      return modifyStat(gameState, effect.stat, effect.value)
+    case 'increment_counter':
+      return setCounter(gameState, effect.counter, getCounter(gameState, effect.counter) + effect.value)
+    case 'reset_counter':
+      return setCounter(gameState, effect.counter, 0)
+  }
+}
+
+/**
+ * Apply a single consequence string to game state (see ./consequences for the grammar)
+ */
+export function applyConsequence(gameState: GameState, consequence: string): GameState {
+  const result = parseConsequence(consequence)
+
+  if (!result.ok) {
+    console.warn(`Ignoring consequence "${consequence}": ${result.error.message}`)
+    return gameState
+  }
+
+  return applyParsedConsequence(gameState, result.consequence)
+}
+
+export interface ChoiceAvailability {
+  available: boolean
+  unmet: string[] // Requirements that don't hold
+  hint?: string // Player-facing reason the choice is locked
+}
+
+/**
+ * Check a choice's requirements against game state.
+ * Requirements that don't parse are logged and ignored rather than locking the choice.
+ */
+export function getChoiceAvailability(gameState: GameState, choice: Choice): ChoiceAvailability {
+  const unmet: string[] = []
+  let firstUnmet: ConsequenceCondition | null = null
+
+  for (const requirement of choice.requires || []) {
+    const condition = parseCondition(requirement)
+    if (!condition) {
+      console.warn(`Ignoring choice requirement "${requirement}" on ${choice.slug}`)
+      continue
+    }
+    if (!evaluateCondition(gameState, condition)) {
+      unmet.push(requirement)
+      firstUnmet = firstUnmet || condition
+    }
+  }
+
+  return {
+    available: unmet.length === 0,
+    unmet,
+    hint: firstUnmet ? choice.locked_hint || describeCondition(firstUnmet) : undefined
   }
 }
 
@@ -330,6 +449,12 @@ export function generateStoryContext(gameState: GameState): string {
     context.push(`Inventory: ${gameState.inventory.join(', ')}`)
   }
   
+  // Add numeric stats
+  const stats = Object.entries(gameState.stats || {}).map(([stat, value]) => `${stat}: ${value}`)
+  if (stats.length > 0) {
+    context.push(`Stats: ${stats.join(', ')}`)
+  }
+  
   // Add personality summary
   const dominantTraits = getDominantTraits(gameState.personalityTraits as unknown as PersonalityTraits)
   const traitSummary = dominantTraits.map(t => `${t.trait}: ${t.value}`).join(', ')
@@ -377,6 +502,14 @@ export function sanitizeGameState(gameState: GameState): GameState {
         .map(([key, value]) => [key, Math.max(-100, Math.min(100, value))])
     ),
     inventory: Array.from(new Set(gameState.inventory.filter(item => typeof item === 'string'))),
+    stats: gameState.stats && Object.fromEntries(
+      Object.entries(gameState.stats)
+        .filter(([, value]) => typeof value === 'number')
+        .map(([key, value]) => [key, Math.max(0, value)])
+    ),
+    counters: gameState.counters && Object.fromEntries(
+      Object.entries(gameState.counters).filter(([, value]) => typeof value === 'number')
+    ),
     personalityTraits: {
       riskTaking: Math.max(0, Math.min(100, gameState.personalityTraits.riskTaking || 50)),
       empathy: Math.max(0, Math.min(100, gameState.personalityTraits.empathy || 50)),
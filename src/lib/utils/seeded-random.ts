@@ -0,0 +1,48 @@
+/**
+ * Seeded randomness so story runs can be reproduced from their stored seed.
+ * Mirrored in supabase/functions/generate-story/seeded-random.ts - keep them in sync.
+ */
+
+/**
+ * New run seed: a positive 31-bit integer, accepted by every provider's seed parameter
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff) + 1
+}
+
+/**
+ * Derive a stable sub-seed, e.g. per step or per retry, from a run seed
+ */
+export function deriveSeed(seed: number, ...parts: (string | number)[]): number {
+  let hash = seed | 0
+  const input = parts.join(':')
+
+  for (let i = 0; i < input.length; i++) {
+    hash = Math.imul(hash ^ input.charCodeAt(i), 0x5bd1e995)
+    hash ^= hash >>> 15
+  }
+
+  return (Math.abs(hash) % 0x7fffffff) + 1
+}
+
+/**
+ * Deterministic generator returning floats in [0, 1) (mulberry32)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed | 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick an item with the seed when there is one, otherwise at random
+ */
+export function pickItem<T>(items: T[], seed?: number | null): T {
+  const random = seed ? createSeededRandom(seed)() : Math.random()
+  return items[Math.floor(random * items.length)]
+}
@@ -333,9 +333,27 @@ export const safeGetGameState = (json: Json | null | undefined): GameState => {
     extractedState.personalityTraits = traits
   }
 
+  if (isJsonObject(json.stats)) {
+    extractedState.stats = extractNumberRecord(json.stats)
+  }
+
+  if (isJsonObject(json.counters)) {
+    extractedState.counters = extractNumberRecord(json.counters)
+  }
+
   return extractedState
 }
 
+const extractNumberRecord = (json: Record<string, Json>): Record<string, number> => {
+  const record: Record<string, number> = {}
+  Object.entries(json).forEach(([key, value]) => {
+    if (typeof value === 'number') {
+      record[key] = value
+    }
+  })
+  return record
+}
+
 /**
  * Safe choices array extraction from database Json
  */
@@ -22,7 +22,9 @@ export const GameStateSchema = z.object({
   flags: z.array(z.string()),
   relationships: z.record(z.string(), z.number()),
   inventory: z.array(z.string()),
-  personalityTraits: PersonalityTraitsSchema
+  personalityTraits: PersonalityTraitsSchema,
+  stats: z.record(z.string(), z.number()).optional(),
+  counters: z.record(z.string(), z.number()).optional()
 })
 
 export const ChoiceSchema = z.object({
@@ -30,7 +32,10 @@ export const ChoiceSchema = z.object({
   text: z.string().min(1).max(500),
   slug: z.string().min(1).max(100),
   consequences: z.array(z.string()).optional(),
-  traits_impact: z.record(z.string(), z.number()).optional()
+  traits_impact: z.record(z.string(), z.number()).optional(),
+  requires: z.array(z.string()).optional(),
+  locked_hint: z.string().max(200).optional(),
+  is_default: z.boolean().optional()
 })
 
 // Story generation schemas
@@ -122,7 +122,8 @@ export class StoryValidator {
   }
 
   /**
-   * Attempts to repair a malformed choice object
+   * Attempts to repair a malformed choice object.
+   * The edge function's response-repair.ts applies the same rules to model output.
    */
   private static repairChoice(choice: any, index: number): Choice | null {
     if (typeof choice !== 'object' || choice === null) {
@@ -14,6 +14,30 @@ export type Database = {
   }
   public: {
     Tables: {
+      banned_choice_slugs: {
+        Row: {
+          banned_by: string | null
+          choice_slug: string
+          created_at: string
+          reason: string | null
+          report_id: string | null
+        }
+        Insert: {
+          banned_by?: string | null
+          choice_slug: string
+          created_at?: string
+          reason?: string | null
+          report_id?: string | null
+        }
+        Update: {
+          banned_by?: string | null
+          choice_slug?: string
+          created_at?: string
+          reason?: string | null
+          report_id?: string | null
+        }
+        Relationships: []
+      }
       choice_aggregates: {
         Row: {
           choice_slug: string
@@ -21,6 +45,7 @@ export type Database = {
           impressions: number | null
           option_id: string
           selections: number | null
+          timeouts: number | null
         }
         Insert: {
           choice_slug: string
@@ -28,6 +53,7 @@ export type Database = {
           impressions?: number | null
           option_id: string
           selections?: number | null
+          timeouts?: number | null
         }
         Update: {
           choice_slug?: string
@@ -35,9 +61,63 @@ export type Database = {
           impressions?: number | null
           option_id?: string
           selections?: number | null
+          timeouts?: number | null
         }
         Relationships: []
       }
+      content_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string | null
+          reporter_session_id: string | null
+          resolution: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          step_id: string
+          story_run_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id?: string | null
+          reporter_session_id?: string | null
+          resolution?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          step_id: string
+          story_run_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string | null
+          reporter_session_id?: string | null
+          resolution?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          step_id?: string
+          story_run_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "story_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ending_catalog: {
         Row: {
           created_at: string | null
@@ -65,6 +145,175 @@ export type Database = {
         }
         Relationships: []
       }
+      fallback_segments: {
+        Row: {
+          act: number | null
+          arc_phase: string | null
+          choices: Json
+          created_at: string
+          created_by: string | null
+          excluded_flags: string[]
+          genre: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          required_flags: string[]
+          story_text: string
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          act?: number | null
+          arc_phase?: string | null
+          choices: Json
+          created_at?: string
+          created_by?: string | null
+          excluded_flags?: string[]
+          genre?: string | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          required_flags?: string[]
+          story_text: string
+          updated_at?: string
+          weight?: number
+        }
+        Update: {
+          act?: number | null
+          arc_phase?: string | null
+          choices?: Json
+          created_at?: string
+          created_by?: string | null
+          excluded_flags?: string[]
+          genre?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          required_flags?: string[]
+          story_text?: string
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      generation_failures: {
+        Row: {
+          attempt: number
+          created_at: string | null
+          detail: string | null
+          genre: string
+          id: string
+          provider: string | null
+          reason: string
+          repaired: boolean
+          session_id: string | null
+        }
+        Insert: {
+          attempt: number
+          created_at?: string | null
+          detail?: string | null
+          genre: string
+          id?: string
+          provider?: string | null
+          reason: string
+          repaired?: boolean
+          session_id?: string | null
+        }
+        Update: {
+          attempt?: number
+          created_at?: string | null
+          detail?: string | null
+          genre?: string
+          id?: string
+          provider?: string | null
+          reason?: string
+          repaired?: boolean
+          session_id?: string | null
+        }
+        Relationships: []
+      }
+      guardian_pins: {
+        Row: {
+          created_at: string
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_audits: {
+        Row: {
+          action: string
+          challenge: string
+          content_rating: string | null
+          created_at: string | null
+          flagged_categories: Json
+          id: string
+          scores: Json
+          session_id: string
+          source: string
+          step_number: number | null
+          story_run_id: string | null
+          subject: string
+        }
+        Insert: {
+          action: string
+          challenge: string
+          content_rating?: string | null
+          created_at?: string | null
+          flagged_categories?: Json
+          id?: string
+          scores: Json
+          session_id: string
+          source: string
+          step_number?: number | null
+          story_run_id?: string | null
+          subject: string
+        }
+        Update: {
+          action?: string
+          challenge?: string
+          content_rating?: string | null
+          created_at?: string | null
+          flagged_categories?: Json
+          id?: string
+          scores?: Json
+          session_id?: string
+          source?: string
+          step_number?: number | null
+          story_run_id?: string | null
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_audits_story_run_id_fkey"
+            columns: ["story_run_id"]
+            isOneToOne: false
+            referencedRelation: "story_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       premium_purchases: {
         Row: {
           amount_paid: number
@@ -121,89 +370,255 @@ export type Database = {
           },
         ]
       }
+      provider_circuits: {
+        Row: {
+          failure_count: number
+          last_error: string | null
+          last_failure_at: string | null
+          last_success_at: string | null
+          opened_at: string | null
+          provider: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          failure_count?: number
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_success_at?: string | null
+          opened_at?: string | null
+          provider: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          failure_count?: number
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_success_at?: string | null
+          opened_at?: string | null
+          provider?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      story_generation_cache: {
+        Row: {
+          challenge: string
+          content_key: string
+          created_at: string | null
+          expires_at: string
+          genre: string
+          hit_count: number
+          id: string
+          length: string
+          path_hash: string
+          response: Json
+        }
+        Insert: {
+          challenge: string
+          content_key: string
+          created_at?: string | null
+          expires_at: string
+          genre: string
+          hit_count?: number
+          id?: string
+          length: string
+          path_hash: string
+          response: Json
+        }
+        Update: {
+          challenge?: string
+          content_key?: string
+          created_at?: string | null
+          expires_at?: string
+          genre?: string
+          hit_count?: number
+          id?: string
+          length?: string
+          path_hash?: string
+          response?: Json
+        }
+        Relationships: []
+      }
       story_runs: {
         Row: {
+          authored_story_id: string | null
           challenge: string
+          characters: Json | null
           completed: boolean | null
           completed_at: string | null
           created_at: string | null
           ending_rarity: string | null
           ending_tag: string | null
           ending_title: string | null
+          forked_from_step: number | null
           genre: string
           id: string
           length: string
+          parent_run_id: string | null
+          seed: number | null
           session_id: string | null
+          story_summary: string | null
+          summary_step: number | null
+          timed_choices: boolean | null
           user_id: string | null
         }
         Insert: {
+          authored_story_id?: string | null
           challenge: string
+          characters?: Json | null
           completed?: boolean | null
           completed_at?: string | null
           created_at?: string | null
           ending_rarity?: string | null
           ending_tag?: string | null
           ending_title?: string | null
+          forked_from_step?: number | null
           genre: string
           id?: string
           length: string
+          parent_run_id?: string | null
+          seed?: number | null
           session_id?: string | null
+          story_summary?: string | null
+          summary_step?: number | null
+          timed_choices?: boolean | null
           user_id?: string | null
         }
         Update: {
+          authored_story_id?: string | null
           challenge?: string
+          characters?: Json | null
           completed?: boolean | null
           completed_at?: string | null
           created_at?: string | null
           ending_rarity?: string | null
           ending_tag?: string | null
           ending_title?: string | null
+          forked_from_step?: number | null
           genre?: string
           id?: string
           length?: string
+          parent_run_id?: string | null
+          seed?: number | null
           session_id?: string | null
+          story_summary?: string | null
+          summary_step?: number | null
+          timed_choices?: boolean | null
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "story_runs_parent_run_id_fkey"
+            columns: ["parent_run_id"]
+            isOneToOne: false
+            referencedRelation: "story_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_step_drafts: {
+        Row: {
+          choice_id: string
+          created_at: string | null
+          expires_at: string
+          id: string
+          response: Json
+          state_hash: string
+          step_id: string
+          story_run_id: string | null
+          tokens_used: number
+          user_id: string | null
+        }
+        Insert: {
+          choice_id: string
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          response: Json
+          state_hash: string
+          step_id: string
+          story_run_id?: string | null
+          tokens_used?: number
+          user_id?: string | null
+        }
+        Update: {
+          choice_id?: string
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          response?: Json
+          state_hash?: string
+          step_id?: string
+          story_run_id?: string | null
+          tokens_used?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_step_drafts_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "story_steps"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       story_steps: {
         Row: {
+          choice_deadline_at: string | null
           choice_slug: string | null
           choices: Json
           created_at: string | null
           decision_key_hash: string | null
           game_state: Json | null
+          hidden_at: string | null
           id: string
+          quality_checks: Json | null
+          quality_score: number | null
           selected_choice_id: string | null
           step_number: number
           story_run_id: string | null
           story_text: string
+          time_limit_seconds: number | null
           traits_snapshot: Json | null
         }
         Insert: {
+          choice_deadline_at?: string | null
           choice_slug?: string | null
           choices: Json
           created_at?: string | null
           decision_key_hash?: string | null
           game_state?: Json | null
+          hidden_at?: string | null
           id?: string
+          quality_checks?: Json | null
+          quality_score?: number | null
           selected_choice_id?: string | null
           step_number: number
           story_run_id?: string | null
           story_text: string
+          time_limit_seconds?: number | null
           traits_snapshot?: Json | null
         }
         Update: {
+          choice_deadline_at?: string | null
           choice_slug?: string | null
           choices?: Json
           created_at?: string | null
           decision_key_hash?: string | null
           game_state?: Json | null
+          hidden_at?: string | null
           id?: string
+          quality_checks?: Json | null
+          quality_score?: number | null
           selected_choice_id?: string | null
           step_number?: number
           story_run_id?: string | null
           story_text?: string
+          time_limit_seconds?: number | null
           traits_snapshot?: Json | null
         }
         Relationships: [
@@ -219,10 +634,14 @@ export type Database = {
       user_profiles: {
         Row: {
           avatar_url: string | null
+          content_preferences: Json | null
+          content_rating: string | null
+          content_settings_locked: boolean
           created_at: string
           display_name: string | null
           email: string | null
           id: string
+          is_moderator: boolean
           personality_traits: Json | null
           premium_days_purchased: number | null
           premium_expires_at: string | null
@@ -234,10 +653,14 @@ export type Database = {
         }
         Insert: {
           avatar_url?: string | null
+          content_preferences?: Json | null
+          content_rating?: string | null
+          content_settings_locked?: boolean
           created_at?: string
           display_name?: string | null
           email?: string | null
           id: string
+          is_moderator?: boolean
           personality_traits?: Json | null
           premium_days_purchased?: number | null
           premium_expires_at?: string | null
@@ -249,10 +672,14 @@ export type Database = {
         }
         Update: {
           avatar_url?: string | null
+          content_preferences?: Json | null
+          content_rating?: string | null
+          content_settings_locked?: boolean
           created_at?: string
           display_name?: string | null
           email?: string | null
           id?: string
+          is_moderator?: boolean
           personality_traits?: Json | null
           premium_days_purchased?: number | null
           premium_expires_at?: string | null
@@ -274,6 +701,7 @@ export type Database = {
           option_id: string | null
           percentage: number | null
           selections: number | null
+          timeouts: number | null
         }
         Insert: {
           choice_slug?: string | null
@@ -282,6 +710,7 @@ export type Database = {
           option_id?: string | null
           percentage?: never
           selections?: number | null
+          timeouts?: number | null
         }
         Update: {
           choice_slug?: string | null
@@ -290,6 +719,7 @@ export type Database = {
           option_id?: string | null
           percentage?: never
           selections?: number | null
+          timeouts?: number | null
         }
         Relationships: []
       }
@@ -301,6 +731,7 @@ export type Database = {
           option_id: string | null
           percentage: number | null
           selections: number | null
+          timeouts: number | null
         }
         Relationships: []
       }
@@ -314,6 +745,10 @@ export type Database = {
         Args: { user_uuid: string }
         Returns: boolean
       }
+      claim_provider_trial: {
+        Args: { p_cooldown_seconds: number; p_provider: string }
+        Returns: boolean
+      }
       get_choice_statistics_job_health: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -357,10 +792,22 @@ export type Database = {
         Args: { p_choice_slug: string; p_genre: string; p_option_id: string }
         Returns: undefined
       }
+      increment_choice_timeouts: {
+        Args: { p_choice_slug: string; p_genre: string; p_option_id: string }
+        Returns: undefined
+      }
       increment_user_choice_count: {
         Args: { user_id: string }
         Returns: undefined
       }
+      record_provider_failure: {
+        Args: { p_error: string; p_provider: string; p_threshold: number }
+        Returns: {
+          failure_count: number
+          opened_at: string | null
+          status: string
+        }[]
+      }
       refresh_choice_statistics: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -369,6 +816,14 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      set_guardian_pin: {
+        Args: { current_pin?: string; new_pin?: string }
+        Returns: boolean
+      }
+      update_content_settings: {
+        Args: { guardian_pin?: string; new_preferences: Json; new_rating: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -5,6 +5,11 @@ export interface StoryGenerationRequest {
   challenge: 'casual' | 'challenging'
   userId: string
   sessionId: string
+  provider?: 'gemini' | 'openai' | 'mock' // Optional per-request model provider override
+  authoredStoryId?: string // Play a hand-written story instead of generating one
+  timedChoices?: boolean // Thriller/horror: urgent steps get a decision deadline
+  seed?: number // Run seed; pass a recorded one to reproduce a run
+  draft?: { stepId: string; choiceId: string } // Choice this continues; served from a pre-generated draft when one matches
 }
 
 // Database entity types
@@ -21,6 +26,14 @@ export interface StoryRun {
   completed: boolean | null
   created_at: string | null
   completed_at: string | null
+  story_summary?: string | null // Rolling "story so far" recap
+  summary_step?: number | null // Last step covered by story_summary
+  parent_run_id?: string | null // Run this one was forked from
+  forked_from_step?: number | null // Step number in the parent run where the fork branched off
+  authored_story_id?: string | null // Set for runs of hand-written stories
+  characters?: any // StoryCharacter[] JSON - the run's NPC registry
+  timed_choices?: boolean | null // Urgent steps carry a decision deadline
+  seed?: number | null // Each step's generation seed is derived from this
 }
 
 export interface StoryStep {
@@ -37,6 +50,11 @@ export interface StoryStep {
   created_at: string | null
   trait_risk?: number | null
   trait_empathy?: number | null
+  time_limit_seconds?: number | null // Set on timed steps; the default choice is taken when it runs out
+  choice_deadline_at?: string | null // Timed steps: when the default choice is taken, fixed when the step is stored
+  quality_score?: number | null // Generation quality (0-100); null for authored and fallback steps
+  quality_checks?: any // JSON data from database: QualityReport without the score
+  hidden_at?: string | null // Set when a moderator hides the step; its text is replaced on read
 }
 
 export interface StoryResponse {
@@ -45,6 +63,27 @@ export interface StoryResponse {
   gameState: GameState
   isEnding: boolean
   endingType?: EndingType
+  storySummary?: string // Present when a summary refresh was requested
+  newCharacters?: { name: string; bio: string }[] // Named characters introduced in this step
+  timeLimitSeconds?: number // Timed runs: seconds the player has to decide
+  customActionOutcome?: { // Free-text actions: what the model decided the player's action does
+    consequences: string[]
+    traitsImpact: Record<string, number>
+  }
+  quality?: QualityReport // Generated steps: how the edge function scored this step
+}
+
+// Generation quality score (0-100) with each check's 0-1 result
+export interface QualityReport {
+  score: number
+  checks: {
+    choiceDiversity: number
+    textLength: number
+    traitsImpact: number
+    arcPhase: number
+  }
+  issues: string[]
+  regenerated?: boolean // A low first score triggered a targeted regeneration
 }
 
 export interface Choice {
@@ -53,6 +92,10 @@ export interface Choice {
   slug: string // Stable identifier like "trust_stranger"
   consequences?: string[]
   traits_impact?: Record<string, number> | undefined // Allow undefined for MVP flexibility
+  next?: string // Authored stories: id of the node this choice leads to
+  requires?: string[] // Game state conditions, e.g. "item:magic_sword" or "relationship:wizard >= 20"
+  locked_hint?: string // Shown instead of the generated hint while requirements aren't met
+  is_default?: boolean // Timed steps: taken automatically when time runs out
 }
 
 export interface GameState {
@@ -61,6 +104,8 @@ export interface GameState {
   relationships: Record<string, number>
   inventory: string[]
   personalityTraits: Record<string, number>
+  stats?: Record<string, number> // Numeric stats such as health or gold
+  counters?: Record<string, number> // Named counters driven by consequences
 }
 
 export interface PersonalityTraits {
@@ -158,6 +203,7 @@ export interface StoryProgressionResult {
   session: StorySession
   newStep: StoryStep
   isEnding: boolean
+  customChoice?: Choice // Free-text actions: the action with the consequences the model gave it
   endingData?: {
     title: string
     rarity: string
@@ -169,4 +215,91 @@ export interface StoryProgressionResult {
 export interface ChoiceSelectionResult {
   updatedStep: StoryStep
   progressionResult?: StoryProgressionResult
-}
\ No newline at end of file
+}
+
+// Authored story types
+export type StoryPhase = 'setup' | 'rising_action' | 'climax' | 'resolution'
+
+export interface AuthoredStory {
+  id: string
+  title: string
+  description: string
+  genre: StoryGenerationRequest['genre']
+  length: StoryGenerationRequest['length']
+  mode?: 'authored' | 'hybrid' // Hybrid stories let the model improvise steps between nodes
+  startNodeId: string
+  initialGameState?: Partial<GameState> // Merged over the default starting state
+  nodes: AuthoredStoryNode[]
+}
+
+export interface AuthoredStoryNode {
+  id: string
+  storyText: string
+  choices: AuthoredChoice[]
+  ending?: AuthoredEnding // Ending nodes have no choices
+  // Hybrid mode: nodes are anchor beats the model steers towards
+  phase?: StoryPhase
+  goal?: string // What has to happen in the story before this beat
+  requiredFlags?: string[] // Flags that must be set before the beat plays
+  maxBridgeSteps?: number // Improvised steps allowed before the beat plays regardless
+}
+
+export interface AuthoredChoice extends Choice {
+  next: string
+}
+
+export interface AuthoredEnding {
+  title: string
+  rarity: EndingRarity
+  tag: string
+  type: EndingType
+}
+
+// Next authored beat a hybrid story's improvised steps are heading for
+export interface AnchorGoal {
+  anchorId: string
+  goal: string
+  phase?: StoryPhase
+  requiredFlags: string[]
+  missingFlags: string[]
+  stepsRemaining: number
+}
+
+// Item types
+export type ItemKind = 'consumable' | 'key' // Consumables are removed from the inventory when used
+
+export interface ItemDefinition {
+  id: string // Matches the name used in add_item / remove_item consequences
+  name: string
+  description: string
+  icon: string
+  kind: ItemKind
+  genres?: StoryGenerationRequest['genre'][] // Omit for items found in every genre
+  useConsequences?: string[] // Applied when the player uses the item; items without them can't be used
+}
+
+// Character types
+export interface StoryCharacter {
+  id: string // Canonical key used in GameState.relationships
+  name: string // Display name as first introduced
+  aliases: string[] // Other spellings that resolve to this character
+  bio: string
+  firstAppearanceStep: number
+}
+
+export type ContentRating = 'kids' | 'teen' | 'mature'
+
+export type ContentTheme = 'violence' | 'romance' | 'fear'
+
+// Audience rating and the themes it allows, saved on the user's profile
+export interface ContentSettings {
+  rating: ContentRating
+  violence: boolean
+  romance: boolean
+  fear: boolean
+}
+
+export type ContentReportReason = 'inappropriate' | 'violent' | 'sexual' | 'hateful' | 'other'
+
+// How a moderator closed a report
+export type ContentReportResolution = 'hidden' | 'slug_banned' | 'false_positive' | 'dismissed'
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  getProviderCircuits,
+  acquireProvider,
+  recordProviderSuccess,
+  recordProviderFailure
+} from './circuit-breaker.ts'
+
+interface CircuitRow {
+  provider: string
+  status: string
+  failure_count: number
+  opened_at: string | null
+  updated_at: string
+}
+
+/**
+ * In-memory provider_circuits table whose RPCs behave like the SQL functions:
+ * each call reads and writes the row in one step
+ */
+function createFakeSupabase() {
+  const rows = new Map<string, CircuitRow>()
+  const secondsAgo = (timestamp: string | null) => (Date.now() - new Date(timestamp || 0).getTime()) / 1000
+
+  const rpcs: Record<string, (args: any) => unknown> = {
+    claim_provider_trial: ({ p_provider, p_cooldown_seconds }) => {
+      const row = rows.get(p_provider)
+      const claimable = !!row && (
+        (row.status === 'open' && secondsAgo(row.opened_at) >= p_cooldown_seconds) ||
+        (row.status === 'half_open' && secondsAgo(row.updated_at) >= p_cooldown_seconds)
+      )
+      if (row && claimable) {
+        row.status = 'half_open'
+        row.updated_at = new Date().toISOString()
+      }
+      return claimable
+    },
+    record_provider_failure: ({ p_provider, p_threshold }) => {
+      const now = new Date().toISOString()
+      const row = rows.get(p_provider) || { provider: p_provider, status: 'closed', failure_count: 0, opened_at: null, updated_at: now }
+      row.failure_count += 1
+      if (row.status !== 'open' && (row.status === 'half_open' || row.failure_count >= p_threshold)) {
+        row.status = 'open'
+        row.opened_at = now
+      }
+      row.updated_at = now
+      rows.set(p_provider, row)
+      return [{ status: row.status, failure_count: row.failure_count, opened_at: row.opened_at }]
+    }
+  }
+
+  const supabase = {
+    from: () => ({
+      select: () => ({
+        in: async (_column: string, providers: string[]) => ({
+          data: providers.filter(provider => rows.has(provider)).map(provider => ({ ...rows.get(provider) })),
+          error: null
+        })
+      }),
+      upsert: async (row: CircuitRow) => {
+        rows.set(row.provider, { ...rows.get(row.provider), ...row })
+        return { error: null }
+      }
+    }),
+    rpc: vi.fn(async (name: string, args: unknown): Promise<{ data: unknown; error: { message: string } | null }> => ({
+      data: rpcs[name](args),
+      error: null
+    }))
+  }
+
+  return { supabase, rows }
+}
+
+describe('circuit breaker', () => {
+  let db: ReturnType<typeof createFakeSupabase>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'))
+    vi.stubGlobal('Deno', {
+      env: { get: (name: string) => ({ CIRCUIT_FAILURE_THRESHOLD: '3', CIRCUIT_COOLDOWN_SECONDS: '60' } as Record<string, string>)[name] }
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    db = createFakeSupabase()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  async function loadCircuit() {
+    return (await getProviderCircuits(db.supabase, ['gemini'])).gemini
+  }
+
+  async function openCircuit() {
+    const circuit = await loadCircuit()
+    for (let i = 0; i < 3; i++) {
+      await recordProviderFailure(db.supabase, circuit, 'HTTP 503')
+    }
+    return circuit
+  }
+
+  it('treats providers without a row as closed and available', async () => {
+    const circuit = await loadCircuit()
+
+    expect(circuit).toEqual({ provider: 'gemini', status: 'closed', failureCount: 0, openedAt: null })
+    expect(await acquireProvider(db.supabase, circuit)).toBe(true)
+    expect(db.supabase.rpc).not.toHaveBeenCalled()
+  })
+
+  it('opens once consecutive failures reach the threshold', async () => {
+    const circuit = await loadCircuit()
+
+    await recordProviderFailure(db.supabase, circuit, 'HTTP 503')
+    await recordProviderFailure(db.supabase, circuit, 'HTTP 503')
+    expect(circuit.status).toBe('closed')
+
+    await recordProviderFailure(db.supabase, circuit, 'HTTP 503')
+    expect(circuit).toMatchObject({ status: 'open', failureCount: 3, openedAt: '2026-01-01T12:00:00.000Z' })
+  })
+
+  it('counts concurrent failures from separate invocations', async () => {
+    const circuits = await Promise.all([loadCircuit(), loadCircuit(), loadCircuit()])
+    await Promise.all(circuits.map(circuit => recordProviderFailure(db.supabase, circuit, 'timeout')))
+
+    expect(db.rows.get('gemini')).toMatchObject({ status: 'open', failure_count: 3 })
+  })
+
+  it('skips an open circuit until the cooldown has passed', async () => {
+    await openCircuit()
+    const circuit = await loadCircuit()
+
+    vi.advanceTimersByTime(59_000)
+    expect(await acquireProvider(db.supabase, circuit)).toBe(false)
+    expect(db.supabase.rpc).not.toHaveBeenCalledWith('claim_provider_trial', expect.anything())
+
+    vi.advanceTimersByTime(1_000)
+    expect(await acquireProvider(db.supabase, circuit)).toBe(true)
+    expect(circuit.status).toBe('half_open')
+  })
+
+  it('lets only one invocation take the half-open trial', async () => {
+    await openCircuit()
+    vi.advanceTimersByTime(60_000)
+
+    const [first, second] = await Promise.all([loadCircuit(), loadCircuit()])
+    const results = await Promise.all([acquireProvider(db.supabase, first), acquireProvider(db.supabase, second)])
+
+    expect(results.sort()).toEqual([false, true])
+    expect(db.rows.get('gemini')?.status).toBe('half_open')
+
+    // The invocation holding the trial can retry the provider
+    const holder = first.trialClaimed ? first : second
+    expect(await acquireProvider(db.supabase, holder)).toBe(true)
+  })
+
+  it('closes the circuit when the trial succeeds', async () => {
+    await openCircuit()
+    vi.advanceTimersByTime(60_000)
+    const circuit = await loadCircuit()
+    await acquireProvider(db.supabase, circuit)
+
+    await recordProviderSuccess(db.supabase, circuit)
+
+    expect(db.rows.get('gemini')).toMatchObject({ status: 'closed', failure_count: 0, opened_at: null })
+    expect(await acquireProvider(db.supabase, await loadCircuit())).toBe(true)
+  })
+
+  it('reopens the circuit when the trial fails', async () => {
+    await openCircuit()
+    vi.advanceTimersByTime(60_000)
+    const circuit = await loadCircuit()
+    await acquireProvider(db.supabase, circuit)
+
+    await recordProviderFailure(db.supabase, circuit, 'HTTP 500')
+
+    expect(circuit).toMatchObject({ status: 'open', openedAt: '2026-01-01T12:01:00.000Z', trialClaimed: false })
+    expect(await acquireProvider(db.supabase, circuit)).toBe(false)
+  })
+
+  it('lets a stalled trial be claimed again after another cooldown', async () => {
+    await openCircuit()
+    vi.advanceTimersByTime(60_000)
+    expect(await acquireProvider(db.supabase, await loadCircuit())).toBe(true)
+
+    const other = await loadCircuit()
+    expect(await acquireProvider(db.supabase, other)).toBe(false)
+
+    vi.advanceTimersByTime(60_000)
+    expect(await acquireProvider(db.supabase, other)).toBe(true)
+  })
+
+  it('lets calls through when the database is unavailable', async () => {
+    await openCircuit()
+    vi.advanceTimersByTime(60_000)
+    db.supabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'connection refused' } })
+
+    expect(await acquireProvider(db.supabase, await loadCircuit())).toBe(true)
+  })
+})
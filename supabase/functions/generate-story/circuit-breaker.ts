@@ -0,0 +1,189 @@
+import { ProviderName } from './types.ts'
+
+/**
+ * Per-provider circuit breaker. State lives in provider_circuits so every edge
+ * invocation sees the same view of a provider's health: after
+ * CIRCUIT_FAILURE_THRESHOLD consecutive provider errors the circuit opens and
+ * the provider is skipped for CIRCUIT_COOLDOWN_SECONDS. The first request after
+ * the cooldown is let through as a trial; its outcome closes or reopens it.
+ *
+ * Claiming the trial and counting failures go through the claim_provider_trial
+ * and record_provider_failure functions, which change the row in one statement,
+ * so concurrent invocations can't both take the trial or lose each other's counts.
+ */
+
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_COOLDOWN_SECONDS = 60
+
+export type CircuitStatus = 'closed' | 'open' | 'half_open'
+
+export interface ProviderCircuit {
+  provider: ProviderName
+  status: CircuitStatus
+  failureCount: number // Consecutive provider errors since the last success
+  openedAt: string | null
+  trialClaimed?: boolean // This invocation holds the half-open trial call
+}
+
+function getFailureThreshold(): number {
+  return Number(Deno.env.get('CIRCUIT_FAILURE_THRESHOLD')) || DEFAULT_FAILURE_THRESHOLD
+}
+
+function getCooldownSeconds(): number {
+  return Number(Deno.env.get('CIRCUIT_COOLDOWN_SECONDS')) || DEFAULT_COOLDOWN_SECONDS
+}
+
+/**
+ * Load the circuits for a set of providers. Providers without a row, or every
+ * provider when the lookup fails, are treated as closed so a database problem
+ * never stops generation.
+ */
+export async function getProviderCircuits(
+  supabase: any,
+  providers: ProviderName[]
+): Promise<Record<string, ProviderCircuit>> {
+  const circuits: Record<string, ProviderCircuit> = {}
+  providers.forEach(provider => {
+    circuits[provider] = { provider, status: 'closed', failureCount: 0, openedAt: null }
+  })
+
+  try {
+    const { data, error } = await supabase
+      .from('provider_circuits')
+      .select('provider, status, failure_count, opened_at')
+      .in('provider', providers)
+
+    if (error) {
+      console.error('Provider circuit lookup error:', error)
+      return circuits
+    }
+
+    for (const row of data || []) {
+      circuits[row.provider] = {
+        provider: row.provider,
+        status: row.status,
+        failureCount: row.failure_count || 0,
+        openedAt: row.opened_at
+      }
+    }
+  } catch (error) {
+    console.error('Provider circuit lookup exception:', error)
+  }
+
+  return circuits
+}
+
+/**
+ * Whether this invocation may call a provider. Closed circuits always allow it.
+ * Otherwise the trial has to be claimed in the database: only one invocation
+ * wins it once the cooldown has passed, and a half-open trial that never
+ * reported back can be claimed again after another cooldown.
+ */
+export async function acquireProvider(
+  supabase: any,
+  circuit: ProviderCircuit
+): Promise<boolean> {
+  if (circuit.status === 'closed' || circuit.trialClaimed) return true
+
+  const openedAt = circuit.openedAt ? new Date(circuit.openedAt).getTime() : 0
+  if (circuit.status === 'open' && Date.now() - openedAt < getCooldownSeconds() * 1000) return false
+
+  try {
+    const { data, error } = await supabase.rpc('claim_provider_trial', {
+      p_provider: circuit.provider,
+      p_cooldown_seconds: getCooldownSeconds()
+    })
+
+    if (error) {
+      console.error('Provider trial claim error:', error)
+      // Same as a failed lookup: the breaker is advisory, so let the call through
+      return true
+    }
+
+    if (data !== true) return false
+  } catch (error) {
+    console.error('Provider trial claim exception:', error)
+    return true
+  }
+
+  circuit.status = 'half_open'
+  circuit.trialClaimed = true
+  return true
+}
+
+/**
+ * Close a provider's circuit after a successful call. Healthy circuits are left
+ * alone so the common path doesn't write on every request.
+ */
+export async function recordProviderSuccess(
+  supabase: any,
+  circuit: ProviderCircuit
+): Promise<void> {
+  if (circuit.status === 'closed' && circuit.failureCount === 0) return
+
+  circuit.status = 'closed'
+  circuit.failureCount = 0
+  circuit.openedAt = null
+  circuit.trialClaimed = false
+
+  const now = new Date().toISOString()
+
+  try {
+    const { error } = await supabase
+      .from('provider_circuits')
+      .upsert({
+        provider: circuit.provider,
+        status: 'closed',
+        failure_count: 0,
+        opened_at: null,
+        last_success_at: now,
+        updated_at: now
+      }, { onConflict: 'provider' })
+
+    if (error) {
+      console.error('Provider circuit update error:', error)
+      // Don't throw - the breaker is advisory and generation carries on
+    }
+  } catch (error) {
+    console.error('Provider circuit update exception:', error)
+  }
+}
+
+/**
+ * Count a provider error. The database increments the count and opens the
+ * circuit once the threshold is reached or when a half-open trial fails; the
+ * resulting row replaces the local view of the circuit.
+ */
+export async function recordProviderFailure(
+  supabase: any,
+  circuit: ProviderCircuit,
+  errorMessage: string
+): Promise<void> {
+  circuit.trialClaimed = false
+
+  try {
+    const { data, error } = await supabase.rpc('record_provider_failure', {
+      p_provider: circuit.provider,
+      p_error: errorMessage.substring(0, 500),
+      p_threshold: getFailureThreshold()
+    })
+
+    if (error) {
+      console.error('Provider circuit update error:', error)
+      // Don't throw - the breaker is advisory and generation carries on
+      return
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row) return
+
+    if (row.status === 'open' && circuit.status !== 'open') {
+      console.warn(`Opening circuit for ${circuit.provider} after ${row.failure_count} failure(s)`)
+    }
+    circuit.status = row.status
+    circuit.failureCount = row.failure_count
+    circuit.openedAt = row.opened_at
+  } catch (error) {
+    console.error('Provider circuit update exception:', error)
+  }
+}
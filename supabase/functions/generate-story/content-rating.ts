@@ -0,0 +1,106 @@
+import { StoryGenerationRequest, ContentSettings, ContentRating } from './types.ts'
+
+// Mirrors src/lib/content-rating/content-settings.ts
+
+export type ContentTheme = 'violence' | 'romance' | 'fear'
+
+const RATINGS: ContentRating[] = ['kids', 'teen', 'mature']
+
+// Themes a rating allows until the player (or their guardian) changes them
+const RATING_DEFAULTS: Record<ContentRating, Omit<ContentSettings, 'rating'>> = {
+  kids: { violence: false, romance: false, fear: false },
+  teen: { violence: true, romance: true, fear: true },
+  mature: { violence: true, romance: true, fear: true }
+}
+
+// Genres that can't be told without a theme
+const GENRE_THEMES: Partial<Record<StoryGenerationRequest['genre'], ContentTheme>> = {
+  horror: 'fear',
+  romance: 'romance',
+  thriller: 'violence'
+}
+
+/**
+ * Settings for players without a saved preference: the rating follows the
+ * challenge level and every theme is allowed, as before ratings existed
+ */
+export function getDefaultContentSettings(challenge: string): ContentSettings {
+  return {
+    rating: challenge === 'challenging' ? 'mature' : 'teen',
+    violence: true,
+    romance: true,
+    fear: true
+  }
+}
+
+/**
+ * Load the content settings saved on a user's profile, falling back to the
+ * challenge level's defaults for guests and users who haven't set a rating
+ */
+export async function getContentSettings(
+  supabase: any,
+  userId: string | undefined,
+  challenge: string
+): Promise<ContentSettings> {
+  if (!userId) return getDefaultContentSettings(challenge)
+
+  try {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('content_rating, content_preferences')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Content settings lookup error:', error)
+      return getDefaultContentSettings(challenge)
+    }
+
+    if (!data || !RATINGS.includes(data.content_rating)) {
+      return getDefaultContentSettings(challenge)
+    }
+
+    const rating = data.content_rating as ContentRating
+    const preferences = data.content_preferences && typeof data.content_preferences === 'object'
+      ? data.content_preferences
+      : {}
+    const defaults = RATING_DEFAULTS[rating]
+
+    return {
+      rating,
+      violence: typeof preferences.violence === 'boolean' ? preferences.violence : defaults.violence,
+      romance: typeof preferences.romance === 'boolean' ? preferences.romance : defaults.romance,
+      fear: typeof preferences.fear === 'boolean' ? preferences.fear : defaults.fear
+    }
+  } catch (error) {
+    console.error('Content settings lookup exception:', error)
+    return getDefaultContentSettings(challenge)
+  }
+}
+
+/**
+ * The settings a request is generated under
+ */
+export function resolveContentSettings(request: StoryGenerationRequest): ContentSettings {
+  return request.contentSettings || getDefaultContentSettings(request.challenge)
+}
+
+/**
+ * Whether a genre's core theme is allowed by the settings
+ */
+export function isGenreAllowed(genre: string, settings: ContentSettings): boolean {
+  const theme = GENRE_THEMES[genre as StoryGenerationRequest['genre']]
+  return !theme || settings[theme]
+}
+
+/**
+ * Short key identifying settings that moderate alike, e.g. "teen:vrf"
+ */
+export function getContentSettingsKey(settings: ContentSettings): string {
+  const themes = [
+    settings.violence ? 'v' : '',
+    settings.romance ? 'r' : '',
+    settings.fear ? 'f' : ''
+  ].join('')
+  return `${settings.rating}:${themes}`
+}
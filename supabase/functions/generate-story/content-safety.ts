@@ -1,107 +1,114 @@
-import { StoryResponse } from './types.ts'
+import { StoryResponse, ContentSettings } from './types.ts'
+import { moderateText, softenText, getSoftenedCategories, ModerationCategory, ModerationResult } from './moderation.ts'
+
+// Matches the limit enforced by CustomActions on the client
+const MAX_PLAYER_ACTION_LENGTH = 200
 
 /**
- * Apply content safety filters based on challenge level
+ * Moderate everything a step shows the player. When the policy only calls for
+ * softening, the flagged categories are softened here; a regenerate or block
+ * action is left to the caller.
  */
-export async function applyContentSafetyFilter(
+export async function moderateStory(
   story: StoryResponse,
-  challengeLevel: string
-): Promise<StoryResponse> {
-  // Apply different safety levels based on challenge
-  const safetyLevel = challengeLevel === 'casual' ? 'strict' : 'moderate'
-  
-  // Filter story text
-  const filteredStoryText = filterContent(story.storyText, safetyLevel)
-  
-  // Filter choice texts
-  const filteredChoices = story.choices.map(choice => ({
-    ...choice,
-    text: filterContent(choice.text, safetyLevel),
-    consequences: choice.consequences?.map(c => filterContent(c, safetyLevel))
-  }))
-  
+  settings: ContentSettings
+): Promise<{ story: StoryResponse; moderation: ModerationResult }> {
+  const moderation = await moderateText(getStoryText(story), settings)
+
+  if (moderation.action !== 'soften') {
+    return { story, moderation }
+  }
+
+  return { story: softenStory(story, moderation.flagged), moderation }
+}
+
+/**
+ * Check an action the player typed before it reaches the prompt. Actions the
+ * policy would regenerate or block are rejected; softenable wording is softened.
+ */
+export async function checkPlayerAction(
+  text: string,
+  settings: ContentSettings
+): Promise<{ allowed: boolean; text: string; reason?: string; moderation?: ModerationResult }> {
+  const trimmed = text.trim()
+
+  if (!trimmed || trimmed.length > MAX_PLAYER_ACTION_LENGTH) {
+    return { allowed: false, text: trimmed, reason: `Actions must be 1-${MAX_PLAYER_ACTION_LENGTH} characters` }
+  }
+
+  const moderation = await moderateText(trimmed, settings)
+
+  if (moderation.action === 'regenerate' || moderation.action === 'block') {
+    return { allowed: false, text: trimmed, reason: 'This action isn\'t allowed in this story', moderation }
+  }
+
   return {
-    ...story,
-    storyText: filteredStoryText,
-    choices: filteredChoices
+    allowed: true,
+    text: moderation.action === 'soften' ? softenText(trimmed, moderation.flagged) : trimmed,
+    moderation
   }
 }
 
 /**
- * Filter content based on safety level
+ * Soften streamed text incrementally. Text after the last whitespace is held
+ * back so a word split across chunks is softened as a whole. The complete step
+ * is still moderated once it has been generated.
  */
-function filterContent(text: string, safetyLevel: 'strict' | 'moderate'): string {
-  let filteredText = text
-  
-  // Common filters for both levels
-  const commonFilters = [
-    // Violence filters
-    { pattern: /\b(kill|murder|assassinate)\b/gi, replacement: 'defeat' },
-    { pattern: /\b(blood|gore|brutal)\b/gi, replacement: 'intense' },
-    { pattern: /\b(torture|torment)\b/gi, replacement: 'interrogate' },
-    
-    // Inappropriate content
-    { pattern: /\b(damn|hell)\b/gi, replacement: 'darn' },
-  ]
-  
-  // Strict filters (for casual difficulty)
-  const strictFilters = [
-    { pattern: /\b(death|die|dying)\b/gi, replacement: 'defeat' },
-    { pattern: /\b(attack|assault)\b/gi, replacement: 'confront' },
-    { pattern: /\b(weapon|sword|knife)\b/gi, replacement: 'tool' },
-    { pattern: /\b(fight|battle)\b/gi, replacement: 'challenge' },
-  ]
-  
-  // Apply filters based on safety level
-  const filtersToApply = safetyLevel === 'strict' 
-    ? [...commonFilters, ...strictFilters]
-    : commonFilters
-  
-  for (const filter of filtersToApply) {
-    filteredText = filteredText.replace(filter.pattern, filter.replacement)
+export function createStreamingSafetyFilter(settings: ContentSettings) {
+  const categories = getSoftenedCategories(settings)
+  let pending = ''
+
+  return {
+    push(delta: string): string {
+      pending += delta
+      const boundary = pending.search(/\s\S*$/)
+      if (boundary < 0) return ''
+
+      const ready = pending.slice(0, boundary + 1)
+      pending = pending.slice(boundary + 1)
+      return softenText(ready, categories)
+    },
+    flush(): string {
+      const rest = pending
+      pending = ''
+      return softenText(rest, categories)
+    }
   }
-  
-  return filteredText
 }
 
 /**
- * Check if content contains prohibited elements
+ * All player-facing text in a step, one field per line. Consequences are
+ * included so they count towards the score, but softenStory leaves them alone.
  */
-export function containsProhibitedContent(text: string): boolean {
-  const prohibitedPatterns = [
-    /\b(suicide|self-harm)\b/gi,
-    /\b(explicit|graphic|nsfw)\b/gi,
-    /\b(hate|racism|discrimination)\b/gi,
-    /\b(drugs|narcotics|addiction)\b/gi,
-  ]
-  
-  return prohibitedPatterns.some(pattern => pattern.test(text))
+function getStoryText(story: StoryResponse): string {
+  return [
+    story.storyText,
+    ...story.choices.flatMap(choice => [choice.text, choice.locked_hint || '', ...(choice.consequences || [])]),
+    story.storySummary || '',
+    ...(story.newCharacters || []).flatMap(character => [character.name, character.bio]),
+    ...(story.customActionOutcome?.consequences || [])
+  ].filter(Boolean).join('\n')
 }
 
 /**
- * Validate content safety before returning to user
+ * Soften the text a player reads. Consequences are game state identifiers, so
+ * rewriting them would break the flags and items they refer to.
  */
-export function validateContentSafety(story: StoryResponse): boolean {
-  // Check story text
-  if (containsProhibitedContent(story.storyText)) {
-    return false
-  }
-  
-  // Check all choice texts
-  for (const choice of story.choices) {
-    if (containsProhibitedContent(choice.text)) {
-      return false
-    }
-    
-    // Check consequences if present
-    if (choice.consequences) {
-      for (const consequence of choice.consequences) {
-        if (containsProhibitedContent(consequence)) {
-          return false
-        }
-      }
-    }
+function softenStory(story: StoryResponse, categories: ModerationCategory[]): StoryResponse {
+  const soften = (text: string) => softenText(text, categories)
+
+  return {
+    ...story,
+    storyText: soften(story.storyText),
+    choices: story.choices.map(choice => ({
+      ...choice,
+      text: soften(choice.text),
+      locked_hint: choice.locked_hint && soften(choice.locked_hint)
+    })),
+    storySummary: story.storySummary && soften(story.storySummary),
+    newCharacters: story.newCharacters?.map(character => ({
+      name: character.name,
+      bio: soften(character.bio)
+    }))
   }
-  
-  return true
-}
\ No newline at end of file
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { getFallbackContent, selectFallbackEntry, type FallbackEntry } from './fallback-content.ts'
+import type { StoryGenerationRequest } from './types.ts'
+import mysteryBundle from './fallback/mystery.json' with { type: 'json' }
+import genericBundle from './fallback/generic.json' with { type: 'json' }
+
+const CHOICES = [
+  { id: 'A', text: 'Go left', slug: 'go_left' },
+  { id: 'B', text: 'Go right', slug: 'go_right' }
+]
+
+function entry(id: string, overrides: Partial<FallbackEntry> = {}): FallbackEntry {
+  return { id, kind: 'bridge', storyText: `Text of ${id}`, choices: CHOICES, ...overrides }
+}
+
+function criteria(overrides: Partial<Parameters<typeof selectFallbackEntry>[1]> = {}): Parameters<typeof selectFallbackEntry>[1] {
+  return { kind: 'bridge', genre: 'mystery', act: 1, arcPhase: 'setup', flags: [], ...overrides }
+}
+
+/**
+ * Ids picked over a range of seeds, to check what selection can and can't return
+ */
+function pickedIds(library: FallbackEntry[], request: Parameters<typeof selectFallbackEntry>[1]): Set<string> {
+  return new Set(Array.from({ length: 50 }, (_, index) => selectFallbackEntry(library, request, index + 1).id))
+}
+
+function makeRequest(overrides: Partial<StoryGenerationRequest> = {}): StoryGenerationRequest {
+  return { genre: 'mystery', length: 'standard', challenge: 'casual', sessionId: 'session-1', seed: 7, ...overrides }
+}
+
+function emptyLibrary() {
+  return {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) })
+  }
+}
+
+describe('selectFallbackEntry', () => {
+  const library = [
+    entry('mystery-act-1', { genre: 'mystery', act: 1 }),
+    entry('mystery-act-2', { genre: 'mystery', act: 2 }),
+    entry('horror-act-1', { genre: 'horror', act: 1 }),
+    entry('generic-any'),
+    entry('generic-climax', { arcPhase: 'climax' }),
+    entry('needs-clue', { genre: 'mystery', requiredFlags: ['found_clue'] }),
+    entry('not-after-betrayal', { excludedFlags: ['betrayed'] }),
+    entry('opening', { kind: 'opening', genre: 'mystery' })
+  ]
+
+  it('only picks entries for the genre, act and arc phase', () => {
+    expect(pickedIds(library, criteria())).toEqual(new Set(['mystery-act-1', 'generic-any', 'not-after-betrayal']))
+    expect(pickedIds(library, criteria({ genre: 'horror', act: 3, arcPhase: 'climax' })))
+      .toEqual(new Set(['generic-any', 'generic-climax', 'not-after-betrayal']))
+  })
+
+  it('checks required and excluded flags against the game state', () => {
+    const picked = pickedIds(library, criteria({ act: 2, arcPhase: 'rising_action', flags: ['found_clue', 'betrayed'] }))
+    expect(picked).toEqual(new Set(['mystery-act-2', 'generic-any', 'needs-clue']))
+  })
+
+  it('weights specific entries above generic ones', () => {
+    const specific = entry('specific', { genre: 'mystery', act: 1, arcPhase: 'setup' })
+    const counts = { specific: 0, generic: 0 }
+    for (let seed = 1; seed <= 400; seed++) {
+      const picked = selectFallbackEntry([specific, entry('generic')], criteria(), seed)
+      counts[picked.id as keyof typeof counts]++
+    }
+    expect(counts.specific).toBeGreaterThan(counts.generic * 2)
+  })
+
+  it('does not repeat the segment the player just read', () => {
+    const picked = pickedIds(library, criteria({ previousText: 'Text of mystery-act-1' }))
+    expect(picked.has('mystery-act-1')).toBe(false)
+  })
+
+  it('repeats the last segment when nothing else fits', () => {
+    const only = [entry('only', { genre: 'mystery' })]
+    expect(selectFallbackEntry(only, criteria({ previousText: 'Text of only' }), 1).id).toBe('only')
+  })
+
+  it('falls back to unconditional entries when nothing matches', () => {
+    const sparse = [entry('horror-only', { genre: 'horror' }), entry('needs-flag', { genre: 'horror', requiredFlags: ['x'] })]
+    expect(pickedIds(sparse, criteria())).toEqual(new Set(['horror-only']))
+  })
+
+  it('is deterministic for a seed', () => {
+    expect(selectFallbackEntry(library, criteria(), 42).id).toBe(selectFallbackEntry(library, criteria(), 42).id)
+  })
+})
+
+describe('getFallbackContent', () => {
+  it('opens with a bundled opening for the genre', async () => {
+    const story = await getFallbackContent(makeRequest(), emptyLibrary())
+    expect(story.gameState).toMatchObject({ act: 1, flags: ['story_started'] })
+    expect(story.choices.length).toBeGreaterThanOrEqual(2)
+    expect(story.isEnding).toBe(false)
+  })
+
+  it('bridges with a segment that fits the act', async () => {
+    const texts = new Set<string>()
+    for (let seed = 1; seed <= 30; seed++) {
+      const story = await getFallbackContent(makeRequest({
+        seed,
+        currentStep: 8,
+        gameState: {
+          act: 2,
+          flags: [],
+          relationships: {},
+          inventory: [],
+          personalityTraits: { riskTaking: 50, empathy: 50, pragmatism: 50, creativity: 50, leadership: 50 }
+        }
+      }), emptyLibrary())
+
+      expect(story.gameState.act).toBe(3)
+      expect(story.gameState.flags).toContain('bridge_segment')
+      texts.add(story.storyText)
+    }
+
+    // Only act 3 climax segments, or ones open to any act, without required flags
+    const expected = [...mysteryBundle.entries, ...genericBundle.entries]
+      .filter(entry => entry.kind === 'bridge' && !('requiredFlags' in entry))
+      .filter(entry => !('act' in entry) || entry.act === 3)
+      .map(entry => entry.storyText)
+    expect(texts.size).toBeGreaterThan(1)
+    Array.from(texts).forEach(text => expect(expected).toContain(text))
+  })
+})
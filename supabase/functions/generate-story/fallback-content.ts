@@ -1,167 +1,118 @@
-import { StoryGenerationRequest, StoryResponse } from './types.ts'
+import { StoryGenerationRequest, StoryResponse, Choice, GameState } from './types.ts'
 import { generateChoiceSlug } from './choice-utils.ts'
+import { createSeededRandom } from './seeded-random.ts'
+import fantasyBundle from './fallback/fantasy.json' with { type: 'json' }
+import mysteryBundle from './fallback/mystery.json' with { type: 'json' }
+import sciFiBundle from './fallback/sci-fi.json' with { type: 'json' }
+import horrorBundle from './fallback/horror.json' with { type: 'json' }
+import romanceBundle from './fallback/romance.json' with { type: 'json' }
+import thrillerBundle from './fallback/thriller.json' with { type: 'json' }
+import genericBundle from './fallback/generic.json' with { type: 'json' }
+
+type ArcPhase = 'setup' | 'rising_action' | 'climax' | 'resolution'
+
+/**
+ * One opening or bridge segment. Unset genre, act and arc phase match any
+ * request; required and excluded flags are checked against the game state.
+ */
+export interface FallbackEntry {
+  id: string
+  kind: 'opening' | 'bridge'
+  genre?: string | null
+  act?: number | null
+  arcPhase?: ArcPhase | null
+  requiredFlags?: string[]
+  excludedFlags?: string[]
+  weight?: number
+  storyText: string
+  choices: Choice[]
+}
+
+interface FallbackBundle {
+  genre: string | null
+  entries: FallbackEntry[]
+}
+
+interface FallbackCriteria {
+  kind: FallbackEntry['kind']
+  genre: string
+  act: number
+  arcPhase: ArcPhase
+  flags: string[]
+  previousText?: string
+}
+
+const BUNDLES = [
+  fantasyBundle,
+  mysteryBundle,
+  sciFiBundle,
+  horrorBundle,
+  romanceBundle,
+  thrillerBundle,
+  genericBundle
+] as unknown as FallbackBundle[]
+
+const BUNDLED_ENTRIES: FallbackEntry[] = BUNDLES.flatMap(bundle =>
+  bundle.entries.map(entry => ({ ...entry, genre: entry.genre ?? bundle.genre }))
+)
+
+// Entries admins add to fallback_segments are picked up without a deploy
+const LIBRARY_TTL_MS = 5 * 60 * 1000
+let storedEntries: { entries: FallbackEntry[]; loadedAt: number } | null = null
+
+// Arc phase assumed for each act when the request doesn't carry a story arc
+const ACT_PHASES: Record<number, ArcPhase> = {
+  1: 'setup',
+  2: 'rising_action',
+  3: 'climax'
+}
 
 export async function getFallbackContent(
   request: StoryGenerationRequest,
   supabase: any
 ): Promise<StoryResponse> {
+  const library = [...BUNDLED_ENTRIES, ...await getStoredEntries(supabase)]
+
   // Get fallback content based on genre and current state
   if (request.currentStep && request.gameState) {
-    return getBridgeSegment(request)
+    return getBridgeSegment(request, library)
   } else {
-    return getOpeningFallback(request)
+    return getOpeningFallback(request, library)
   }
 }
 
-function getOpeningFallback(request: StoryGenerationRequest): StoryResponse {
-  const openings = {
-    fantasy: {
-      storyText: "You stand at the crossroads of destiny, where ancient magic still whispers through the wind. A mysterious figure approaches, their cloak billowing in the ethereal breeze. In their outstretched hand lies an artifact that pulses with otherworldly energy.",
-      choices: [
-        {
-          id: "A",
-          text: "Accept the mysterious artifact",
-          slug: "accept_artifact",
-          traits_impact: { riskTaking: 1, creativity: 1 }
-        },
-        {
-          id: "B", 
-          text: "Question the stranger's motives",
-          slug: "question_stranger",
-          traits_impact: { pragmatism: 1, empathy: 0 }
-        },
-        {
-          id: "C",
-          text: "Politely decline and walk away",
-          slug: "decline_artifact",
-          traits_impact: { pragmatism: 1, riskTaking: -1 }
-        }
-      ]
-    },
-    mystery: {
-      storyText: "The old mansion creaks ominously as you step through its threshold. Rain pounds against the windows while shadows dance in the flickering candlelight. A scream echoes from somewhere upstairs, followed by an unsettling silence.",
-      choices: [
-        {
-          id: "A",
-          text: "Rush upstairs toward the scream",
-          slug: "rush_upstairs",
-          traits_impact: { riskTaking: 1, empathy: 1 }
-        },
-        {
-          id: "B",
-          text: "Search the ground floor first",
-          slug: "search_ground_floor", 
-          traits_impact: { pragmatism: 1, leadership: 0 }
-        },
-        {
-          id: "C",
-          text: "Call out to see if anyone responds",
-          slug: "call_out",
-          traits_impact: { empathy: 1, riskTaking: 0 }
-        }
-      ]
-    },
-    'sci-fi': {
-      storyText: "The space station's alarms blare as you float through the zero-gravity corridor. Emergency lights cast eerie red shadows on the metallic walls. Through the viewport, you see an unknown vessel approaching, its design unlike anything in the galactic database.",
-      choices: [
-        {
-          id: "A",
-          text: "Attempt to communicate with the vessel",
-          slug: "communicate_vessel",
-          traits_impact: { empathy: 1, creativity: 1 }
-        },
-        {
-          id: "B",
-          text: "Prepare the station's defenses",
-          slug: "prepare_defenses",
-          traits_impact: { pragmatism: 1, leadership: 1 }
-        },
-        {
-          id: "C",
-          text: "Gather more data before acting",
-          slug: "gather_data",
-          traits_impact: { pragmatism: 1, riskTaking: -1 }
-        }
-      ]
+function getOpeningFallback(request: StoryGenerationRequest, library: FallbackEntry[]): StoryResponse {
+  const gameState: GameState = {
+    act: 1,
+    flags: ['story_started'],
+    relationships: {},
+    inventory: [],
+    personalityTraits: {
+      riskTaking: 0,
+      empathy: 0,
+      pragmatism: 0,
+      creativity: 0,
+      leadership: 0
     }
   }
 
-  const content = openings[request.genre as keyof typeof openings]
-  
+  const opening = selectFallbackEntry(library, {
+    kind: 'opening',
+    genre: request.genre,
+    act: 1,
+    arcPhase: getArcPhase(request, 1),
+    flags: gameState.flags
+  }, request.seed)
+
   return {
-    storyText: content.storyText,
-    choices: content.choices,
-    gameState: {
-      act: 1,
-      flags: ['story_started'],
-      relationships: {},
-      inventory: [],
-      personalityTraits: {
-        riskTaking: 0,
-        empathy: 0,
-        pragmatism: 0,
-        creativity: 0,
-        leadership: 0
-      }
-    },
+    storyText: opening.storyText,
+    choices: opening.choices,
+    gameState,
     isEnding: false
   }
 }
 
-function getBridgeSegment(request: StoryGenerationRequest): StoryResponse {
-  // Generic bridge segments that can connect any story flow
-  const bridges = [
-    {
-      storyText: "Time passes as you contemplate your next move. The situation has grown more complex, and new opportunities present themselves. You must decide how to proceed.",
-      choices: [
-        {
-          id: "A",
-          text: "Take bold action",
-          slug: "take_bold_action",
-          traits_impact: { riskTaking: 1, leadership: 1 }
-        },
-        {
-          id: "B",
-          text: "Seek more information",
-          slug: "seek_information", 
-          traits_impact: { pragmatism: 1, creativity: 0 }
-        },
-        {
-          id: "C",
-          text: "Try to find allies",
-          slug: "find_allies",
-          traits_impact: { empathy: 1, leadership: 0 }
-        }
-      ]
-    },
-    {
-      storyText: "The path ahead splits into multiple directions, each offering its own challenges and rewards. You pause to consider which route aligns best with your goals.",
-      choices: [
-        {
-          id: "A",
-          text: "Choose the direct path",
-          slug: "direct_path",
-          traits_impact: { riskTaking: 1, pragmatism: 0 }
-        },
-        {
-          id: "B",
-          text: "Take the safer route",
-          slug: "safer_route",
-          traits_impact: { pragmatism: 1, riskTaking: -1 }
-        },
-        {
-          id: "C",
-          text: "Look for a creative alternative",
-          slug: "creative_alternative",
-          traits_impact: { creativity: 1, empathy: 0 }
-        }
-      ]
-    }
-  ]
-
-  // Select a random bridge segment
-  const bridge = bridges[Math.floor(Math.random() * bridges.length)]
-  
+function getBridgeSegment(request: StoryGenerationRequest, library: FallbackEntry[]): StoryResponse {
   // Preserve existing game state but increment act if needed
   const gameState = { ...request.gameState! }
   if (request.currentStep! > 3 && gameState.act === 1) {
@@ -170,8 +121,20 @@ function getBridgeSegment(request: StoryGenerationRequest): StoryResponse {
     gameState.act = 3
   }
 
+  const recentSteps = request.storyContext?.recentSteps || []
+  const bridge = selectFallbackEntry(library, {
+    kind: 'bridge',
+    genre: request.genre,
+    act: gameState.act,
+    arcPhase: getArcPhase(request, gameState.act),
+    flags: gameState.flags || [],
+    previousText: recentSteps[recentSteps.length - 1]?.storyText
+  }, request.seed)
+
   // Add bridge flag
-  gameState.flags = [...gameState.flags, 'bridge_segment']
+  if (!gameState.flags.includes('bridge_segment')) {
+    gameState.flags = [...gameState.flags, 'bridge_segment']
+  }
 
   return {
     storyText: bridge.storyText,
@@ -179,4 +142,124 @@ function getBridgeSegment(request: StoryGenerationRequest): StoryResponse {
     gameState,
     isEnding: false
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Pick an entry that fits the request. More specific entries (matching genre,
+ * act, arc phase or flags) are weighted up so generic ones only fill gaps, and
+ * the segment the player just read isn't repeated.
+ */
+export function selectFallbackEntry(
+  library: FallbackEntry[],
+  criteria: FallbackCriteria,
+  seed?: number
+): FallbackEntry {
+  const ofKind = library.filter(entry => entry.kind === criteria.kind)
+  let candidates = ofKind.filter(entry => matchesCriteria(entry, criteria))
+
+  if (candidates.length > 1 && criteria.previousText) {
+    const unseen = candidates.filter(entry => entry.storyText !== criteria.previousText)
+    if (unseen.length > 0) candidates = unseen
+  }
+
+  // Bundles always carry unconditional generic bridges; this only guards against
+  // a library with nothing for the genre
+  if (candidates.length === 0) {
+    candidates = ofKind.filter(entry => !entry.requiredFlags?.length)
+  }
+
+  const weights = candidates.map(entry => (entry.weight ?? 1) * (1 + getSpecificity(entry)))
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  let target = (seed ? createSeededRandom(seed)() : Math.random()) * total
+
+  for (let i = 0; i < candidates.length; i++) {
+    target -= weights[i]
+    if (target < 0) return candidates[i]
+  }
+
+  return candidates[candidates.length - 1]
+}
+
+function matchesCriteria(entry: FallbackEntry, criteria: FallbackCriteria): boolean {
+  if (entry.genre && entry.genre !== criteria.genre) return false
+  if (entry.act && entry.act !== criteria.act) return false
+  if (entry.arcPhase && entry.arcPhase !== criteria.arcPhase) return false
+  if (entry.requiredFlags?.some(flag => !criteria.flags.includes(flag))) return false
+  if (entry.excludedFlags?.some(flag => criteria.flags.includes(flag))) return false
+  return true
+}
+
+function getSpecificity(entry: FallbackEntry): number {
+  return (entry.genre ? 1 : 0) +
+    (entry.act ? 1 : 0) +
+    (entry.arcPhase ? 1 : 0) +
+    (entry.requiredFlags?.length || 0)
+}
+
+function getArcPhase(request: StoryGenerationRequest, act: number): ArcPhase {
+  const arc = request.storyArc as { phase?: ArcPhase } | undefined
+  return arc?.phase || ACT_PHASES[act] || 'climax'
+}
+
+/**
+ * Active entries from fallback_segments, kept briefly so fallbacks during an
+ * outage don't each query the database
+ */
+async function getStoredEntries(supabase: any): Promise<FallbackEntry[]> {
+  if (storedEntries && Date.now() - storedEntries.loadedAt < LIBRARY_TTL_MS) {
+    return storedEntries.entries
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('fallback_segments')
+      .select('id, kind, genre, act, arc_phase, required_flags, excluded_flags, weight, story_text, choices')
+      .eq('is_active', true)
+
+    if (error) {
+      console.error('Fallback library lookup error:', error)
+      return storedEntries?.entries || []
+    }
+
+    const entries = (data || [])
+      .map(toFallbackEntry)
+      .filter((entry: FallbackEntry | null): entry is FallbackEntry => entry !== null)
+
+    storedEntries = { entries, loadedAt: Date.now() }
+    return entries
+  } catch (error) {
+    console.error('Fallback library lookup exception:', error)
+    return storedEntries?.entries || []
+  }
+}
+
+/**
+ * Map a fallback_segments row to an entry. Rows are written by hand, so
+ * missing choice ids and slugs are filled in and unusable rows are skipped.
+ */
+function toFallbackEntry(row: any): FallbackEntry | null {
+  const choices = Array.isArray(row.choices) ? row.choices.filter((choice: any) => choice?.text) : []
+
+  if ((row.kind !== 'opening' && row.kind !== 'bridge') || !row.story_text || choices.length < 2) {
+    console.warn(`Skipping invalid fallback segment ${row.id}`)
+    return null
+  }
+
+  return {
+    id: row.id,
+    kind: row.kind,
+    genre: row.genre,
+    act: row.act,
+    arcPhase: row.arc_phase,
+    requiredFlags: row.required_flags || [],
+    excludedFlags: row.excluded_flags || [],
+    weight: typeof row.weight === 'number' && row.weight > 0 ? row.weight : 1,
+    storyText: row.story_text,
+    choices: choices.map((choice: any, index: number) => ({
+      ...choice,
+      id: choice.id || String.fromCharCode(65 + index),
+      slug: choice.slug || generateChoiceSlug(choice.text),
+      traits_impact: choice.traits_impact || {}
+    }))
+  }
+}
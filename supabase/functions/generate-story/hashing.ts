@@ -0,0 +1,30 @@
+/**
+ * Stable fingerprints of request state, shared by the draft queue and the response cache
+ */
+
+/**
+ * Hex-encoded SHA-256 of a value's stable JSON
+ */
+export async function hashValue(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(value)))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * JSON with object keys sorted, since stored game states don't keep key order
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+
+  return JSON.stringify(value) ?? 'null'
+}
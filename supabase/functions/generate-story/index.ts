@@ -3,9 +3,14 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
 import { validateSession } from '../_shared/session.ts'
 import { generateStoryContent } from './story-generator.ts'
-import { validateStoryResponse, StoryGenerationRequest, StoryResponse } from './types.ts'
-import { enforceRateLimit } from './rate-limiter.ts'
+import { validateStoryResponse, StoryGenerationRequest, StoryResponse, StoryGenerationResult, StreamHandlers } from './types.ts'
+import { enforceRateLimit, checkPremiumFeatureAccess } from './rate-limiter.ts'
 import { logTokenUsage } from './usage-tracker.ts'
+import { encodeStreamEvent } from './streaming.ts'
+import { checkPlayerAction } from './content-safety.ts'
+import { logModerationAudit } from './moderation.ts'
+import { getContentSettings, isGenreAllowed } from './content-rating.ts'
+import { queuePregeneration, takeDraft, buildPregenerationRequests } from './pregeneration-queue.ts'
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -40,6 +45,11 @@ serve(async (req) => {
 
     // Validate session and get user info
     const { user, isGuest } = await validateSession(req, supabase)
+
+    // Provider overrides pick what the request is billed to, so only trusted server-side callers may set one
+    if (requestBody.provider !== undefined && req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      delete requestBody.provider
+    }
     
     // Set session context for RLS
     if (isGuest) {
@@ -71,6 +81,62 @@ serve(async (req) => {
       }
     }
 
+    // Always loaded from the profile, so guardian-locked limits can't be bypassed by the client
+    const contentSettings = await getContentSettings(supabase, user?.id, requestBody.challenge)
+    requestBody.contentSettings = contentSettings
+    if (!isGenreAllowed(requestBody.genre, contentSettings)) {
+      return new Response(
+        JSON.stringify({ error: 'Genre not allowed', reason: 'content_settings' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Typed player actions go into the prompt, so check them before any generation
+    if (requestBody.customAction !== undefined) {
+      const actionCheck = await checkPlayerAction(String(requestBody.customAction), contentSettings)
+
+      // Only actions moderation acted on are audited
+      if (actionCheck.moderation && actionCheck.moderation.action !== 'allow') {
+        await logModerationAudit(supabase, {
+          sessionId: requestBody.sessionId,
+          storyRunId: requestBody.storyRunId,
+          stepNumber: requestBody.currentStep,
+          subject: 'player_action',
+          challenge: requestBody.challenge,
+          contentRating: contentSettings.rating,
+          result: actionCheck.moderation
+        })
+      }
+
+      if (!actionCheck.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Action not allowed', message: actionCheck.reason }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      requestBody.customAction = actionCheck.text
+      requestBody.previousChoice = actionCheck.text
+    }
+
+    // Speculative drafts count against the rate limit as they are generated
+    if (requestBody.pregenerate) {
+      const hasAccess = !!user?.id && await checkPremiumFeatureAccess(supabase, user.id, 'pregeneration')
+      if (!hasAccess) {
+        return new Response(
+          JSON.stringify({ error: 'Premium feature required', reason: 'pregeneration_premium', upgradeRequired: true }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Every draft inherits the genre, length and content settings checked above
+      const continuations = buildPregenerationRequests({ ...requestBody, userId: user!.id })
+      const pregenerationResult = await queuePregeneration(supabase, user!.id, continuations)
+      return new Response(
+        JSON.stringify(pregenerationResult),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Enforce rate limits
     const rateLimitResult = await enforceRateLimit(
       supabase,
@@ -89,8 +155,13 @@ serve(async (req) => {
       )
     }
 
+    // Stream story text as server-sent events when requested
+    if (requestBody.stream) {
+      return streamStoryResponse(requestBody, supabase, user?.id, rateLimitResult.remainingRequests)
+    }
+
     // Generate story content
-    const storyResult = await generateStoryContent(requestBody, supabase)
+    const storyResult = await generateOrTakeDraft(requestBody, supabase, user?.id)
     
     // Log token usage
     await logTokenUsage(supabase, {
@@ -98,7 +169,7 @@ serve(async (req) => {
       sessionId: requestBody.sessionId,
       genre: requestBody.genre,
       tokensUsed: storyResult.tokensUsed,
-      requestType: 'story_generation'
+      requestType: getRequestType(storyResult)
     })
 
     // Return successful response
@@ -110,6 +181,8 @@ serve(async (req) => {
           ...corsHeaders, 
           'Content-Type': 'application/json',
           'X-Tokens-Used': storyResult.tokensUsed.toString(),
+          'X-Story-Provider': storyResult.fromDraft ? 'draft' : storyResult.cached ? 'cache' : storyResult.provider || 'fallback',
+          'X-Cache': storyResult.cached ? 'HIT' : 'MISS',
           'X-Rate-Limit-Remaining': rateLimitResult.remainingRequests.toString()
         } 
       }
@@ -129,4 +202,88 @@ serve(async (req) => {
       }
     )
   }
-})
\ No newline at end of file
+})
+
+/**
+ * Serve the pre-generated draft for the committed choice when there is one,
+ * otherwise generate the step
+ */
+async function generateOrTakeDraft(
+  requestBody: StoryGenerationRequest,
+  supabase: any,
+  userId: string | undefined,
+  streamHandlers?: StreamHandlers
+): Promise<StoryGenerationResult> {
+  const draft = await takeDraft(supabase, requestBody, userId)
+  if (draft) {
+    streamHandlers?.onText(draft.storyText)
+    return { story: draft, tokensUsed: 0, fromDraft: true }
+  }
+
+  return generateStoryContent(requestBody, supabase, streamHandlers)
+}
+
+/**
+ * Token log request type; steps served from a draft or the cache cost no tokens
+ */
+function getRequestType(storyResult: StoryGenerationResult): string {
+  if (storyResult.fromDraft) return 'story_generation_draft_hit'
+  if (storyResult.cached) return 'story_generation_cache_hit'
+  return 'story_generation'
+}
+
+/**
+ * Generate a story segment as a server-sent event stream: "text" frames carry
+ * prose as it is generated, "reset" discards text from a failed attempt, and a
+ * final "final" frame carries the complete story with choices and game state.
+ */
+function streamStoryResponse(
+  requestBody: StoryGenerationRequest,
+  supabase: any,
+  userId: string | undefined,
+  remainingRequests: number
+): Response {
+  const body = new ReadableStream({
+    async start(controller) {
+      try {
+        const storyResult = await generateOrTakeDraft(requestBody, supabase, userId, {
+          onText: (delta) => controller.enqueue(encodeStreamEvent({ type: 'text', delta })),
+          onReset: () => controller.enqueue(encodeStreamEvent({ type: 'reset' }))
+        })
+
+        await logTokenUsage(supabase, {
+          userId,
+          sessionId: requestBody.sessionId,
+          genre: requestBody.genre,
+          tokensUsed: storyResult.tokensUsed,
+          requestType: getRequestType(storyResult)
+        })
+
+        controller.enqueue(encodeStreamEvent({
+          type: 'final',
+          story: storyResult.story,
+          tokensUsed: storyResult.tokensUsed
+        }))
+      } catch (error) {
+        console.error('Story streaming error:', error)
+        controller.enqueue(encodeStreamEvent({
+          type: 'error',
+          error: 'Internal server error',
+          message: error.message
+        }))
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'X-Rate-Limit-Remaining': remainingRequests.toString()
+    }
+  })
+}
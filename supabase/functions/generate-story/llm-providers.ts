@@ -0,0 +1,411 @@
+import { StoryGenerationRequest, ProviderName } from './types.ts'
+import { PromptTemplate } from './prompt-templates.ts'
+
+export interface GenerationOptions {
+  temperature: number
+  maxOutputTokens: number
+  seed?: number // Passed to providers that support seeded sampling
+  responseSchema?: Record<string, unknown> // JSON schema for providers with structured output
+}
+
+export interface ProviderResponse {
+  content: string
+  tokensUsed: number
+}
+
+export interface ProviderStreamChunk {
+  text?: string
+  tokensUsed?: number
+}
+
+/**
+ * Common interface for every model backend the generation loop can call
+ */
+export interface LLMProvider {
+  name: ProviderName
+  generate(
+    request: StoryGenerationRequest,
+    prompt: PromptTemplate,
+    options: GenerationOptions
+  ): Promise<ProviderResponse>
+  // Optional incremental variant; providers without it are called through generate()
+  stream?(
+    request: StoryGenerationRequest,
+    prompt: PromptTemplate,
+    options: GenerationOptions
+  ): AsyncGenerator<ProviderStreamChunk>
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'mock']
+const DEFAULT_PROVIDER: ProviderName = 'gemini'
+
+/**
+ * Resolve the provider for a request.
+ * A valid per-request override wins over the LLM_PROVIDER env setting; the
+ * handler only keeps overrides sent with the service role key.
+ */
+export function resolveProvider(request: StoryGenerationRequest): LLMProvider {
+  // @ts-ignore: Deno global
+  const configured = Deno.env.get('LLM_PROVIDER') as ProviderName | undefined
+  const name = [request.provider, configured].find(isProviderName) || DEFAULT_PROVIDER
+
+  return getProvider(name)
+}
+
+/**
+ * Providers to try for a request, in order: the resolved provider, then
+ * LLM_FALLBACK_PROVIDER when it's set to a different one
+ */
+export function getProviderChain(request: StoryGenerationRequest): LLMProvider[] {
+  const primary = resolveProvider(request)
+  // @ts-ignore: Deno global
+  const fallback = Deno.env.get('LLM_FALLBACK_PROVIDER')
+
+  return isProviderName(fallback) && fallback !== primary.name
+    ? [primary, getProvider(fallback)]
+    : [primary]
+}
+
+export function getProvider(name: ProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return openAICompatibleProvider
+    case 'mock':
+      return mockProvider
+    default:
+      return geminiProvider
+  }
+}
+
+function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && PROVIDER_NAMES.includes(value as ProviderName)
+}
+
+/**
+ * Google Gemini (generateContent API)
+ */
+const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  async generate(_request, prompt, options) {
+    const response = await callGemini('generateContent', prompt, options)
+    const data = await response.json()
+    const content = data.candidates?.[0]?.content?.parts?.[0]?.text
+
+    if (!content) {
+      throw new Error('No content received from Gemini')
+    }
+
+    return {
+      content,
+      tokensUsed: data.usageMetadata?.totalTokenCount || 0
+    }
+  },
+
+  async *stream(_request, prompt, options) {
+    const response = await callGemini('streamGenerateContent', prompt, options)
+
+    for await (const payload of readServerSentEvents(response)) {
+      const data = JSON.parse(payload)
+      yield {
+        text: data.candidates?.[0]?.content?.parts?.[0]?.text,
+        tokensUsed: data.usageMetadata?.totalTokenCount
+      }
+    }
+  }
+}
+
+async function callGemini(
+  method: 'generateContent' | 'streamGenerateContent',
+  prompt: PromptTemplate,
+  options: GenerationOptions
+): Promise<Response> {
+  // @ts-ignore: Deno global
+  const apiKey = Deno.env.get('GEMINI_API_KEY')
+  // @ts-ignore: Deno global
+  const model = Deno.env.get('GEMINI_MODEL') || 'gemini-1.5-flash'
+
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY environment variable is not set')
+  }
+
+  // Gemini has no separate system role here, so combine system and user prompts
+  const combinedPrompt = `${prompt.systemPrompt}\n\n${prompt.userPrompt}\n\nPlease respond with valid JSON only.`
+  const streamParam = method === 'streamGenerateContent' ? 'alt=sse&' : ''
+
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?${streamParam}key=${apiKey}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents: [
+        {
+          parts: [
+            {
+              text: combinedPrompt
+            }
+          ]
+        }
+      ],
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+        topP: 0.8,
+        topK: 10,
+        ...(options.seed !== undefined ? { seed: options.seed } : {}),
+        ...getGeminiResponseFormat(options)
+      }
+    })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(`Gemini API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`)
+  }
+
+  return response
+}
+
+/**
+ * Gemini output mode from GEMINI_RESPONSE_FORMAT: "json" (default) asks for JSON
+ * output, "json_schema" also enforces the response schema (newer models only)
+ * and "none" leaves the output format to the prompt
+ */
+function getGeminiResponseFormat(options: GenerationOptions): Record<string, unknown> {
+  // @ts-ignore: Deno global
+  const format = Deno.env.get('GEMINI_RESPONSE_FORMAT') || 'json'
+
+  if (format === 'none') return {}
+  if (format === 'json_schema' && options.responseSchema) {
+    return { responseMimeType: 'application/json', responseJsonSchema: options.responseSchema }
+  }
+  return { responseMimeType: 'application/json' }
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (OpenAI, OpenRouter, vLLM, Ollama...)
+ */
+const openAICompatibleProvider: LLMProvider = {
+  name: 'openai',
+  async generate(_request, prompt, options) {
+    const response = await callOpenAICompatible(prompt, options, false)
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+
+    if (!content) {
+      throw new Error('No content received from OpenAI-compatible provider')
+    }
+
+    return {
+      content,
+      tokensUsed: data.usage?.total_tokens || 0
+    }
+  },
+
+  async *stream(_request, prompt, options) {
+    const response = await callOpenAICompatible(prompt, options, true)
+
+    for await (const payload of readServerSentEvents(response)) {
+      if (payload === '[DONE]') {
+        return
+      }
+
+      const data = JSON.parse(payload)
+      yield {
+        text: data.choices?.[0]?.delta?.content,
+        tokensUsed: data.usage?.total_tokens
+      }
+    }
+  }
+}
+
+async function callOpenAICompatible(
+  prompt: PromptTemplate,
+  options: GenerationOptions,
+  stream: boolean
+): Promise<Response> {
+  // @ts-ignore: Deno global
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  // @ts-ignore: Deno global
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1').replace(/\/+$/, '')
+  // @ts-ignore: Deno global
+  const model = Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini'
+
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is not set')
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: prompt.systemPrompt },
+        { role: 'user', content: `${prompt.userPrompt}\n\nPlease respond with valid JSON only.` }
+      ],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      ...(options.seed !== undefined ? { seed: options.seed } : {}),
+      ...getOpenAIResponseFormat(options),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+    })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`)
+  }
+
+  return response
+}
+
+/**
+ * OpenAI output mode from OPENAI_RESPONSE_FORMAT: "json_schema" (default) enforces
+ * the response schema, "json_object" only asks for JSON and "none" is for
+ * compatible endpoints that support neither
+ */
+function getOpenAIResponseFormat(options: GenerationOptions): Record<string, unknown> {
+  // @ts-ignore: Deno global
+  const format = Deno.env.get('OPENAI_RESPONSE_FORMAT') || 'json_schema'
+
+  if (format === 'none') return {}
+  if (format === 'json_schema' && options.responseSchema) {
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'story_response', schema: options.responseSchema, strict: false }
+      }
+    }
+  }
+  return { response_format: { type: 'json_object' } }
+}
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * The same request always produces the same response and uses no tokens.
+ */
+const mockProvider: LLMProvider = {
+  name: 'mock',
+  async generate(request) {
+    return {
+      content: buildMockContent(request),
+      tokensUsed: 0
+    }
+  },
+
+  async *stream(request) {
+    const content = buildMockContent(request)
+    const chunkSize = 40
+
+    for (let i = 0; i < content.length; i += chunkSize) {
+      yield { text: content.slice(i, i + chunkSize) }
+    }
+    yield { tokensUsed: 0 }
+  }
+}
+
+function buildMockContent(request: StoryGenerationRequest): string {
+  const step = request.currentStep || 1
+  const maxSteps = request.length === 'quick' ? 8 : request.length === 'extended' ? 16 : 12
+  const isEnding = step >= maxSteps && !request.nextAnchor
+  const previousState = request.gameState
+
+  const gameState = {
+    act: previousState?.act || 1,
+    flags: [...(previousState?.flags || ['story_started']), `mock_step_${step}`],
+    relationships: { ...(previousState?.relationships || {}) },
+    inventory: [...(previousState?.inventory || [])],
+    personality_traits: { ...(previousState?.personalityTraits || {}) },
+    stats: { resolve: 5, ...(previousState?.stats || {}) },
+    counters: { ...(previousState?.counters || {}) }
+  }
+
+  const storyText = step === 1
+    ? `Your ${request.genre} adventure begins. This is a mock opening used for offline testing.`
+    : `Step ${step} of your ${request.genre} adventure. You chose: "${request.previousChoice || 'nothing'}".`
+
+  const response = {
+    story_text: storyText,
+    choices: [
+      {
+        id: 'A',
+        text: 'Press forward boldly',
+        slug: `mock_bold_${step}`,
+        // Hybrid bridges: picking A sets the flag the next authored beat is waiting on
+        consequences: [`add_flag:${request.nextAnchor?.missingFlags[0] || `mock_bold_${step}`}`, 'modify_stat:resolve:1'],
+        traits_impact: { riskTaking: 2 }
+      },
+      {
+        id: 'B',
+        text: 'Look for someone to help',
+        slug: `mock_ally_${step}`,
+        consequences: [`modify_relationship:mock_companion:5`],
+        traits_impact: { empathy: 2 }
+      },
+      {
+        id: 'C',
+        text: 'Study the situation carefully',
+        slug: `mock_study_${step}`,
+        consequences: [
+          `add_flag:mock_study_${step}`,
+          'increment_counter:mock_study',
+          'if counter:mock_study >= 2 and not flag:mock_expert then add_flag:mock_expert'
+        ],
+        traits_impact: { pragmatism: 2 },
+        is_default: request.timedChoices ? true : undefined
+      }
+    ],
+    game_state: gameState,
+    characters: step === 1
+      ? [{ name: 'Mock Companion', bio: 'A stand-in ally who appears in every offline test story.' }]
+      : [],
+    time_limit_seconds: request.timedChoices && !isEnding ? 20 : undefined,
+    player_action: request.customAction
+      ? { consequences: ['modify_relationship:mock_companion:3'], traits_impact: { creativity: 2 } }
+      : undefined,
+    is_ending: isEnding,
+    ending_type: isEnding ? 'mysterious' : undefined,
+    ending_tag: isEnding ? 'mock_ending' : undefined,
+    story_summary: request.refreshSummary
+      ? `Mock recap of your ${request.genre} adventure through step ${step}.`
+      : undefined
+  }
+
+  return JSON.stringify(response)
+}
+
+/**
+ * Yield the data payload of each server-sent event in a streaming response
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body')
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (trimmed.startsWith('data:')) {
+        yield trimmed.slice(5).trim()
+      }
+    }
+  }
+
+  if (buffer.trim().startsWith('data:')) {
+    yield buffer.trim().slice(5).trim()
+  }
+}
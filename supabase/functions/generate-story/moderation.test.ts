@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { moderateText, softenText, getSoftenedCategories, getRevisionNotes } from './moderation.ts'
+import { checkPlayerAction, createStreamingSafetyFilter, moderateStory } from './content-safety.ts'
+import type { ContentSettings, StoryResponse } from './types.ts'
+
+const TEEN: ContentSettings = { rating: 'teen', violence: true, romance: true, fear: true }
+const KIDS: ContentSettings = { rating: 'kids', violence: false, romance: false, fear: false }
+const MATURE: ContentSettings = { rating: 'mature', violence: true, romance: true, fear: true }
+
+function stubEnv(env: Record<string, string> = {}) {
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } })
+}
+
+beforeEach(() => {
+  stubEnv()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('moderateText', () => {
+  it('allows everyday adventure prose', async () => {
+    const result = await moderateText('You draw your sword and face the knight in a fair duel.', KIDS)
+
+    expect(result.action).toBe('allow')
+    expect(result.flagged).toEqual([])
+    expect(result.source).toBe('lexicon')
+  })
+
+  it('picks the action from the content rating', async () => {
+    const text = 'The bandits killed the guard at the gate.'
+
+    expect((await moderateText(text, MATURE)).action).toBe('allow')
+    expect(await moderateText(text, TEEN)).toMatchObject({ action: 'soften', flagged: ['violence'] })
+  })
+
+  it('scores repeated matches higher than a single one', async () => {
+    const once = await moderateText('They killed him.', TEEN)
+    const often = await moderateText('They killed him. They killed her. Then they slaughtered the rest and murdered the witnesses.', TEEN)
+
+    expect(often.scores.violence).toBeGreaterThan(once.scores.violence)
+    expect(often.action).toBe('regenerate')
+  })
+
+  it('escalates self-harm from regenerate to block for younger audiences', async () => {
+    const text = 'She thought about suicide.'
+
+    expect((await moderateText(text, TEEN)).action).toBe('regenerate')
+    expect((await moderateText(text, KIDS)).action).toBe('block')
+  })
+
+  it('reports only the categories behind the strongest action', async () => {
+    const result = await moderateText('He killed the guard and thought about suicide.', TEEN)
+
+    expect(result.action).toBe('regenerate')
+    expect(result.flagged).toEqual(['self_harm'])
+  })
+
+  it('tightens thresholds for themes the player turned off', async () => {
+    const text = 'They kissed under the lanterns.'
+
+    expect((await moderateText(text, TEEN)).action).toBe('allow')
+    expect((await moderateText(text, { ...TEEN, romance: false })).flagged).toEqual(['romance'])
+  })
+
+  it('combines lexicon scores with the model check when enabled', async () => {
+    stubEnv({ MODERATION_MODEL_CHECK: 'openai', OPENAI_API_KEY: 'test-key' })
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ results: [{ category_scores: { 'self-harm/intent': 0.9 } }] })
+    }))
+
+    const result = await moderateText('A quiet evening by the fire.', TEEN)
+
+    expect(result.source).toBe('lexicon+model')
+    expect(result.scores.self_harm).toBe(0.9)
+    expect(result.action).toBe('block')
+  })
+
+  it('falls back to the lexicon when the model check fails', async () => {
+    stubEnv({ MODERATION_MODEL_CHECK: 'openai', OPENAI_API_KEY: 'test-key' })
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect((await moderateText('A quiet evening by the fire.', TEEN)).source).toBe('lexicon')
+  })
+})
+
+describe('softenText', () => {
+  it('replaces listed words, keeping word form and case', () => {
+    expect(softenText('Killed! They KILL and keep killing.', ['violence']))
+      .toBe('Defeated! They DEFEAT and keep defeating.')
+  })
+
+  it('leaves other categories and partial words alone', () => {
+    expect(softenText('The skilled hunter kissed the damned map.', ['violence', 'profanity']))
+      .toBe('The skilled hunter kissed the darned map.')
+  })
+})
+
+describe('getSoftenedCategories', () => {
+  it('lists the categories a policy softens', () => {
+    expect(getSoftenedCategories(MATURE)).toEqual(['gore', 'drugs', 'profanity'])
+    expect(getSoftenedCategories(KIDS)).toEqual(['violence', 'drugs', 'profanity', 'romance', 'fear'])
+  })
+})
+
+describe('getRevisionNotes', () => {
+  it('addresses each flagged category for the audience', async () => {
+    const result = await moderateText('She thought about suicide.', KIDS)
+
+    expect(getRevisionNotes(result, KIDS)).toEqual([
+      'Remove any reference to self-harm or suicide (this story is for young children)'
+    ])
+  })
+})
+
+describe('moderateStory', () => {
+  it('softens every player-facing field', async () => {
+    const story: StoryResponse = {
+      storyText: 'The guards were killed in the night.',
+      choices: [{ id: 'A', text: 'Find who killed them', slug: 'find_killer', locked_hint: 'Only if you kill the lights' }],
+      gameState: { act: 1, flags: [], relationships: {}, inventory: [], personalityTraits: {} },
+      isEnding: false
+    }
+
+    const { story: softened, moderation } = await moderateStory(story, TEEN)
+
+    expect(moderation.action).toBe('soften')
+    expect(softened.storyText).toBe('The guards were defeated in the night.')
+    expect(softened.choices[0].text).toBe('Find who defeated them')
+    expect(softened.choices[0].locked_hint).toBe('Only if you defeat the lights')
+  })
+
+  it('leaves consequences unchanged', async () => {
+    const story: StoryResponse = {
+      storyText: 'The guards were killed in the night.',
+      choices: [{ id: 'A', text: 'Run', slug: 'run', consequences: ['add_flag:kill', 'modify_relationship:killer:-5'] }],
+      gameState: { act: 1, flags: [], relationships: {}, inventory: [], personalityTraits: {} },
+      isEnding: false,
+      customActionOutcome: { consequences: ['modify_relationship:kill:2'], traitsImpact: {} }
+    }
+
+    const { story: softened, moderation } = await moderateStory(story, TEEN)
+
+    expect(moderation.action).toBe('soften')
+    expect(softened.choices[0].consequences).toEqual(['add_flag:kill', 'modify_relationship:killer:-5'])
+    expect(softened.customActionOutcome?.consequences).toEqual(['modify_relationship:kill:2'])
+  })
+})
+
+describe('checkPlayerAction', () => {
+  it('rejects empty and overlong actions', async () => {
+    expect((await checkPlayerAction('   ', TEEN)).allowed).toBe(false)
+    expect((await checkPlayerAction('a'.repeat(201), TEEN)).allowed).toBe(false)
+  })
+
+  it('rejects actions the policy would regenerate or block', async () => {
+    const result = await checkPlayerAction('Convince him to commit suicide', TEEN)
+
+    expect(result.allowed).toBe(false)
+    expect(result.moderation?.action).toBe('regenerate')
+  })
+
+  it('softens allowed actions', async () => {
+    expect(await checkPlayerAction('  Kill the wolf  ', TEEN)).toMatchObject({ allowed: true, text: 'Defeat the wolf' })
+  })
+})
+
+describe('createStreamingSafetyFilter', () => {
+  it('softens words split across chunks', () => {
+    const filter = createStreamingSafetyFilter(TEEN)
+
+    expect(filter.push('The bandits kil')).toBe('The bandits ')
+    expect(filter.push('led the guard')).toBe('defeated the ')
+    expect(filter.flush()).toBe('guard')
+  })
+})
@@ -0,0 +1,408 @@
+import { ContentSettings, ContentRating } from './types.ts'
+
+export type ModerationCategory =
+  | 'violence'
+  | 'gore'
+  | 'self_harm'
+  | 'sexual'
+  | 'hate'
+  | 'drugs'
+  | 'profanity'
+  | 'romance'
+  | 'fear'
+
+// Ordered from least to most severe
+export type ModerationAction = 'allow' | 'soften' | 'regenerate' | 'block'
+
+export type ModerationScores = Record<ModerationCategory, number>
+
+export interface ModerationResult {
+  scores: ModerationScores
+  action: ModerationAction
+  flagged: ModerationCategory[] // Categories whose score triggered the action
+  source: 'lexicon' | 'lexicon+model'
+}
+
+export interface ModerationAudit {
+  sessionId: string
+  storyRunId?: string
+  stepNumber?: number
+  subject: 'story' | 'player_action'
+  challenge: string
+  contentRating: ContentRating
+  result: ModerationResult
+}
+
+interface LexiconEntry {
+  words: string[]
+  weight: number
+  soften?: string[] // Same-position replacements for words, keeping the word form
+}
+
+type CategoryPolicy = Partial<Record<Exclude<ModerationAction, 'allow'>, number>>
+
+const CATEGORIES: ModerationCategory[] = [
+  'violence', 'gore', 'self_harm', 'sexual', 'hate', 'drugs', 'profanity', 'romance', 'fear'
+]
+
+const ACTION_SEVERITY: ModerationAction[] = ['allow', 'soften', 'regenerate', 'block']
+
+/**
+ * Local lexicon. Weights add up per occurrence, so one stray word barely scores while
+ * a scene dwelling on it does. Everyday adventure words (sword, fight, battle) aren't
+ * listed: a duel is fine, describing its wounds in detail is what gets scored.
+ */
+const LEXICON: Record<ModerationCategory, LexiconEntry[]> = {
+  violence: [
+    { words: ['kill', 'kills', 'killed', 'killing'], weight: 0.2, soften: ['defeat', 'defeats', 'defeated', 'defeating'] },
+    { words: ['murder', 'murders', 'murdered', 'murdering'], weight: 0.3, soften: ['attack', 'attacks', 'attacked', 'attacking'] },
+    { words: ['slaughter', 'slaughters', 'slaughtered', 'slaughtering'], weight: 0.35, soften: ['overwhelm', 'overwhelms', 'overwhelmed', 'overwhelming'] },
+    { words: ['stab', 'stabs', 'stabbed', 'stabbing'], weight: 0.25, soften: ['strike', 'strikes', 'struck', 'striking'] },
+    { words: ['torture', 'tortures', 'tortured', 'torturing'], weight: 0.4, soften: ['interrogate', 'interrogates', 'interrogated', 'interrogating'] },
+    { words: ['assassinate', 'assassinated', 'assassination'], weight: 0.25, soften: ['eliminate', 'eliminated', 'elimination'] }
+  ],
+  gore: [
+    { words: ['gore', 'gory'], weight: 0.4, soften: ['carnage', 'grim'] },
+    { words: ['disembowel', 'disemboweled', 'dismember', 'dismembered', 'decapitate', 'decapitated'], weight: 0.5 },
+    { words: ['entrails', 'viscera'], weight: 0.5 },
+    { words: ['bloodbath', 'bloody', 'blood-soaked'], weight: 0.2, soften: ['brutal clash', 'grim', 'battle-worn'] },
+    { words: ['graphic'], weight: 0.1 }
+  ],
+  self_harm: [
+    { words: ['suicide', 'suicidal'], weight: 0.6 },
+    { words: ['self-harm', 'cutting myself', 'kill myself', 'kill yourself'], weight: 0.7 }
+  ],
+  sexual: [
+    { words: ['explicit', 'nsfw', 'erotic'], weight: 0.4 },
+    { words: ['naked', 'nude'], weight: 0.2 },
+    { words: ['sex', 'sexual'], weight: 0.35 }
+  ],
+  hate: [
+    { words: ['racism', 'racist', 'bigot', 'bigotry'], weight: 0.35 },
+    { words: ['subhuman', 'vermin'], weight: 0.3 },
+    { words: ['hate'], weight: 0.05 }
+  ],
+  drugs: [
+    { words: ['drug', 'drugs', 'drugged'], weight: 0.2, soften: ['potion', 'potions', 'poisoned'] },
+    { words: ['narcotics', 'cocaine', 'heroin', 'meth'], weight: 0.4 },
+    { words: ['overdose', 'overdosed'], weight: 0.4 },
+    { words: ['addiction', 'addicted'], weight: 0.2, soften: ['obsession', 'obsessed'] }
+  ],
+  profanity: [
+    { words: ['damn', 'damned', 'hell'], weight: 0.15, soften: ['darn', 'darned', 'heck'] },
+    { words: ['bastard', 'bastards'], weight: 0.3, soften: ['scoundrel', 'scoundrels'] }
+  ],
+  // Romance and fear only matter to players who turned those themes off
+  romance: [
+    { words: ['kiss', 'kisses', 'kissed', 'kissing'], weight: 0.25, soften: ['hug', 'hugs', 'hugged', 'hugging'] },
+    { words: ['flirt', 'flirts', 'flirted', 'flirting'], weight: 0.2, soften: ['chat', 'chats', 'chatted', 'chatting'] },
+    { words: ['romance', 'romantic', 'lover', 'lovers', 'seduce', 'seduced', 'seductive'], weight: 0.3 }
+  ],
+  fear: [
+    { words: ['terrifying', 'terrified', 'horrifying', 'horrified'], weight: 0.2, soften: ['startling', 'startled', 'unsettling', 'unsettled'] },
+    { words: ['scream', 'screams', 'screamed', 'screaming'], weight: 0.15, soften: ['shout', 'shouts', 'shouted', 'shouting'] },
+    { words: ['corpse', 'corpses', 'nightmare', 'nightmares', 'haunted', 'demon', 'demons'], weight: 0.2 }
+  ]
+}
+
+/**
+ * Thresholds per content rating: the most severe action whose threshold a
+ * category's score reaches is taken. Players without a saved rating get teen
+ * for casual runs and mature for challenging ones.
+ */
+const POLICIES: Record<ContentRating, Record<ModerationCategory, CategoryPolicy>> = {
+  kids: {
+    violence: { soften: 0.1, regenerate: 0.4 },
+    gore: { regenerate: 0.1, block: 0.5 },
+    self_harm: { regenerate: 0.1, block: 0.4 },
+    sexual: { regenerate: 0.1, block: 0.3 },
+    hate: { regenerate: 0.2, block: 0.5 },
+    drugs: { soften: 0.1, regenerate: 0.3 },
+    profanity: { soften: 0.1 },
+    romance: {},
+    fear: {}
+  },
+  teen: {
+    violence: { soften: 0.15, regenerate: 0.6 },
+    gore: { soften: 0.1, regenerate: 0.35 },
+    self_harm: { regenerate: 0.2, block: 0.6 },
+    sexual: { regenerate: 0.2, block: 0.5 },
+    hate: { regenerate: 0.25, block: 0.6 },
+    drugs: { soften: 0.1, regenerate: 0.4 },
+    profanity: { soften: 0.1 },
+    romance: {},
+    fear: {}
+  },
+  mature: {
+    violence: { regenerate: 0.85 },
+    gore: { soften: 0.3, regenerate: 0.6 },
+    self_harm: { regenerate: 0.35, block: 0.7 },
+    sexual: { regenerate: 0.3, block: 0.6 },
+    hate: { regenerate: 0.35, block: 0.7 },
+    drugs: { soften: 0.4, regenerate: 0.7 },
+    profanity: { soften: 0.4 },
+    romance: {},
+    fear: {}
+  }
+}
+
+// Thresholds that apply on top of the rating when a theme is turned off
+const THEME_OFF_POLICIES: Record<'violence' | 'romance' | 'fear', Partial<Record<ModerationCategory, CategoryPolicy>>> = {
+  violence: {
+    violence: { soften: 0.1, regenerate: 0.35 },
+    gore: { regenerate: 0.1, block: 0.5 }
+  },
+  romance: {
+    romance: { soften: 0.1, regenerate: 0.4 },
+    sexual: { regenerate: 0.1, block: 0.3 }
+  },
+  fear: {
+    fear: { soften: 0.1, regenerate: 0.4 },
+    gore: { regenerate: 0.1, block: 0.5 }
+  }
+}
+
+// Audience named in revision notes
+const AUDIENCES: Record<ContentRating, string> = {
+  kids: ' (this story is for young children)',
+  teen: ' (this story is for an all-ages audience)',
+  mature: ''
+}
+
+// Instructions for a regeneration, one per flagged category
+const REVISION_NOTES: Record<ModerationCategory, string> = {
+  violence: 'Tone down the violence - show conflict and danger without describing harm in detail',
+  gore: 'Remove graphic injury, blood and gore descriptions',
+  self_harm: 'Remove any reference to self-harm or suicide',
+  sexual: 'Remove sexual content',
+  hate: 'Remove hateful or discriminatory language',
+  drugs: 'Remove references to drug use',
+  profanity: 'Remove profanity',
+  romance: 'Leave out romance - keep relationships to friendship and loyalty',
+  fear: 'Make the scene less frightening - keep suspense without horror or dread'
+}
+
+/**
+ * Score text per category with the local lexicon, plus the model-based check when
+ * MODERATION_MODEL_CHECK=openai, and pick the action the content settings' policy
+ * calls for
+ */
+export async function moderateText(text: string, settings: ContentSettings): Promise<ModerationResult> {
+  const lexiconScores = scoreWithLexicon(text)
+  const modelScores = await scoreWithModel(text)
+
+  const scores = {} as ModerationScores
+  for (const category of CATEGORIES) {
+    scores[category] = Math.max(lexiconScores[category], modelScores?.[category] || 0)
+  }
+
+  const { action, flagged } = decideAction(scores, settings)
+
+  return {
+    scores,
+    action,
+    flagged,
+    source: modelScores ? 'lexicon+model' : 'lexicon'
+  }
+}
+
+/**
+ * Replace softenable words in the given categories, keeping word form and case.
+ * Only words with a listed replacement change; the rest of the prose is untouched.
+ */
+export function softenText(text: string, categories: ModerationCategory[]): string {
+  let softened = text
+
+  for (const category of categories) {
+    for (const entry of LEXICON[category]) {
+      if (!entry.soften) continue
+
+      entry.words.forEach((word, index) => {
+        const replacement = entry.soften![index]
+        softened = softened.replace(getWordPattern(word), match => matchCase(match, replacement))
+      })
+    }
+  }
+
+  return softened
+}
+
+/**
+ * Categories the content settings' policy softens at any score, used to filter
+ * streamed text before the whole step has been moderated
+ */
+export function getSoftenedCategories(settings: ContentSettings): ModerationCategory[] {
+  const policy = getPolicy(settings)
+  return CATEGORIES.filter(category => policy[category].soften !== undefined)
+}
+
+/**
+ * Prompt instructions that address what a moderation result flagged
+ */
+export function getRevisionNotes(result: ModerationResult, settings: ContentSettings): string[] {
+  const audience = AUDIENCES[settings.rating]
+  return result.flagged.map(category => `${REVISION_NOTES[category]}${audience}`)
+}
+
+/**
+ * Keep an audit record of a moderation decision
+ */
+export async function logModerationAudit(supabase: any, audit: ModerationAudit): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('moderation_audits')
+      .insert({
+        session_id: audit.sessionId,
+        story_run_id: audit.storyRunId || null,
+        step_number: audit.stepNumber ?? null,
+        subject: audit.subject,
+        challenge: audit.challenge,
+        content_rating: audit.contentRating,
+        action: audit.result.action,
+        flagged_categories: audit.result.flagged,
+        scores: audit.result.scores,
+        source: audit.result.source,
+        created_at: new Date().toISOString()
+      })
+
+    if (error) {
+      console.error('Moderation audit logging error:', error)
+      // Don't throw - logging failure shouldn't break the main flow
+    }
+  } catch (error) {
+    console.error('Moderation audit logging exception:', error)
+  }
+}
+
+function scoreWithLexicon(text: string): ModerationScores {
+  const scores = {} as ModerationScores
+
+  for (const category of CATEGORIES) {
+    let weight = 0
+    for (const entry of LEXICON[category]) {
+      for (const word of entry.words) {
+        const matches = text.match(getWordPattern(word))
+        weight += (matches?.length || 0) * entry.weight
+      }
+    }
+    // Saturating sum: repeated matches push the score towards 1
+    scores[category] = Math.round((1 - Math.exp(-weight)) * 100) / 100
+  }
+
+  return scores
+}
+
+/**
+ * Category scores from OpenAI's moderation endpoint, or null when the check is
+ * off or unavailable - the lexicon alone still applies
+ */
+async function scoreWithModel(text: string): Promise<Partial<ModerationScores> | null> {
+  if (Deno.env.get('MODERATION_MODEL_CHECK') !== 'openai') return null
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) return null
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/moderations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({ model: 'omni-moderation-latest', input: text })
+    })
+
+    if (!response.ok) {
+      console.error('Moderation model error:', response.status)
+      return null
+    }
+
+    const data = await response.json()
+    const modelScores: Record<string, number> = data.results?.[0]?.category_scores || {}
+    const highest = (...keys: string[]) => Math.max(0, ...keys.map(key => modelScores[key] || 0))
+
+    return {
+      violence: highest('violence'),
+      gore: highest('violence/graphic'),
+      self_harm: highest('self-harm', 'self-harm/intent', 'self-harm/instructions'),
+      sexual: highest('sexual', 'sexual/minors'),
+      hate: highest('hate', 'hate/threatening', 'harassment/threatening'),
+      drugs: highest('illicit', 'illicit/violent'),
+      profanity: highest('harassment')
+      // No model category for romance or fear; the lexicon covers them
+    }
+  } catch (error) {
+    console.error('Moderation model exception:', error)
+    return null
+  }
+}
+
+function decideAction(
+  scores: ModerationScores,
+  settings: ContentSettings
+): { action: ModerationAction; flagged: ModerationCategory[] } {
+  const policy = getPolicy(settings)
+  let action: ModerationAction = 'allow'
+  const triggered: { category: ModerationCategory; action: ModerationAction }[] = []
+
+  for (const category of CATEGORIES) {
+    const categoryAction = ACTION_SEVERITY
+      .slice(1)
+      .reverse()
+      .find(candidate => {
+        const threshold = policy[category][candidate as Exclude<ModerationAction, 'allow'>]
+        return threshold !== undefined && scores[category] >= threshold
+      })
+
+    if (categoryAction) {
+      triggered.push({ category, action: categoryAction })
+      if (ACTION_SEVERITY.indexOf(categoryAction) > ACTION_SEVERITY.indexOf(action)) {
+        action = categoryAction
+      }
+    }
+  }
+
+  // Softening applies to every category that reached its soften threshold; the
+  // stronger actions are reported for the categories that caused them
+  const flagged = triggered
+    .filter(trigger => action === 'soften' || trigger.action !== 'soften')
+    .map(trigger => trigger.category)
+
+  return { action, flagged }
+}
+
+/**
+ * The rating's thresholds, lowered for each theme the settings turn off
+ */
+function getPolicy(settings: ContentSettings): Record<ModerationCategory, CategoryPolicy> {
+  const policy = { ...(POLICIES[settings.rating] || POLICIES.teen) }
+  const themesOff = (['violence', 'romance', 'fear'] as const).filter(theme => !settings[theme])
+
+  for (const theme of themesOff) {
+    for (const [category, override] of Object.entries(THEME_OFF_POLICIES[theme])) {
+      policy[category as ModerationCategory] = stricterPolicy(policy[category as ModerationCategory], override!)
+    }
+  }
+
+  return policy
+}
+
+function stricterPolicy(a: CategoryPolicy, b: CategoryPolicy): CategoryPolicy {
+  const merged: CategoryPolicy = { ...a }
+  for (const [action, threshold] of Object.entries(b) as [keyof CategoryPolicy, number][]) {
+    merged[action] = merged[action] === undefined ? threshold : Math.min(merged[action]!, threshold)
+  }
+  return merged
+}
+
+function getWordPattern(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  // Hyphens count as part of a word so "sword-fight" style compounds aren't split
+  return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'gi')
+}
+
+function matchCase(original: string, replacement: string): string {
+  if (original === original.toUpperCase() && original.length > 1) return replacement.toUpperCase()
+  if (original[0] === original[0].toUpperCase()) return replacement[0].toUpperCase() + replacement.slice(1)
+  return replacement
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { takeDraft, buildPregenerationRequests } from './pregeneration-queue.ts'
+import type { StoryGenerationRequest, StoryResponse } from './types.ts'
+
+interface DraftRow {
+  step_id: string
+  choice_id: string
+  user_id: string
+  state_hash: string
+  expires_at: string
+  response: StoryResponse
+}
+
+/**
+ * In-memory story_step_drafts table supporting the filters takeDraft uses.
+ * Like the real client, a query only runs once it is awaited.
+ */
+function createFakeSupabase(rows: DraftRow[]) {
+  const lookups: Record<string, unknown>[] = []
+  const matches = (row: DraftRow, filters: [string, unknown][]) => filters.every(([column, value]) =>
+    column === 'expires_at' ? row.expires_at > (value as string) : row[column as keyof DraftRow] === value
+  )
+
+  const select = (filters: [string, unknown][]) => ({
+    eq: (column: string, value: unknown) => select([...filters, [column, value]]),
+    gt: (column: string, value: unknown) => select([...filters, [column, value]]),
+    maybeSingle: async () => {
+      lookups.push(Object.fromEntries(filters))
+      return { data: rows.find(row => matches(row, filters)) || null, error: null }
+    }
+  })
+
+  const remove = (filters: [string, unknown][]) => ({
+    eq: (column: string, value: unknown) => remove([...filters, [column, value]]),
+    then: (resolve: (result: { error: null }) => void) => {
+      const kept = rows.filter(row => !matches(row, filters))
+      rows.splice(0, rows.length, ...kept)
+      resolve({ error: null })
+    }
+  })
+
+  return {
+    rows,
+    lookups,
+    from: () => ({ select: () => select([]), delete: () => remove([]) })
+  }
+}
+
+function makeRequest(overrides: Partial<StoryGenerationRequest> = {}): StoryGenerationRequest {
+  return {
+    genre: 'fantasy',
+    length: 'standard',
+    challenge: 'casual',
+    sessionId: 'session-1',
+    currentStep: 2,
+    previousChoice: 'Open the gate',
+    draft: { stepId: 'step-1', choiceId: 'A' },
+    ...overrides
+  }
+}
+
+function makeStory(storyText: string): StoryResponse {
+  return {
+    storyText,
+    choices: [],
+    gameState: { act: 1, flags: [], relationships: {}, inventory: [], personalityTraits: {} },
+    isEnding: false
+  }
+}
+
+/**
+ * A draft row for the request, with the state hash takeDraft looks it up by
+ */
+async function draftFor(request: StoryGenerationRequest, userId: string, storyText: string): Promise<DraftRow> {
+  const probe = createFakeSupabase([])
+  await takeDraft(probe, request, userId)
+
+  return {
+    step_id: request.draft!.stepId,
+    choice_id: request.draft!.choiceId,
+    user_id: userId,
+    state_hash: probe.lookups[0].state_hash as string,
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    response: makeStory(storyText)
+  }
+}
+
+describe('takeDraft', () => {
+  it('serves the requesting user their own draft', async () => {
+    const request = makeRequest()
+    const supabase = createFakeSupabase([await draftFor(request, 'user-1', 'Your draft')])
+
+    expect((await takeDraft(supabase, request, 'user-1'))?.storyText).toBe('Your draft')
+    expect(supabase.rows).toEqual([])
+  })
+
+  it("never serves or discards another user's draft", async () => {
+    const request = makeRequest()
+    const supabase = createFakeSupabase([await draftFor(request, 'user-1', 'Not yours')])
+
+    expect(await takeDraft(supabase, request, 'user-2')).toBeNull()
+    expect(supabase.rows).toHaveLength(1)
+  })
+
+  it('ignores drafts for guests', async () => {
+    const request = makeRequest()
+    const supabase = createFakeSupabase([await draftFor(request, 'user-1', 'Your draft')])
+
+    expect(await takeDraft(supabase, request, undefined)).toBeNull()
+  })
+
+  it('ignores drafts generated from another state', async () => {
+    const supabase = createFakeSupabase([await draftFor(makeRequest(), 'user-1', 'Your draft')])
+
+    expect(await takeDraft(supabase, makeRequest({ previousChoice: 'Climb the wall' }), 'user-1')).toBeNull()
+  })
+})
+
+describe('buildPregenerationRequests', () => {
+  it('rebuilds continuations on the validated request', () => {
+    const request = makeRequest({
+      userId: 'user-1',
+      pregenerate: [
+        { ...makeRequest({ genre: 'horror', length: 'extended' }), draft: { stepId: 'step-1', choiceId: 'B' }, previousChoice: 'Run' },
+        { ...makeRequest(), draft: { stepId: 'other-step', choiceId: 'A' } }
+      ]
+    })
+
+    const continuations = buildPregenerationRequests(request)
+    expect(continuations).toHaveLength(1)
+    expect(continuations[0]).toMatchObject({
+      genre: 'fantasy',
+      length: 'standard',
+      userId: 'user-1',
+      previousChoice: 'Run',
+      draft: { stepId: 'step-1', choiceId: 'B' }
+    })
+  })
+})
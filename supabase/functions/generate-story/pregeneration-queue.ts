@@ -0,0 +1,257 @@
+import { StoryGenerationRequest, StoryResponse } from './types.ts'
+import { generateStoryContent } from './story-generator.ts'
+import { logTokenUsage, getDailyTokenUsage } from './usage-tracker.ts'
+import { enforceRateLimit } from './rate-limiter.ts'
+import { hashValue } from './hashing.ts'
+
+const MAX_DRAFTS_PER_STEP = 4
+const DRAFT_TTL_MINUTES = 60
+const DEFAULT_DAILY_TOKEN_BUDGET = 30000
+
+export const PREGENERATION_REQUEST_TYPE = 'story_pregeneration'
+
+export interface PregenerationResult {
+  queued: number
+  skipped: number
+  reason?: 'budget_exhausted' | 'nothing_to_queue'
+}
+
+/**
+ * Queue speculative next steps for the choices on a step, one draft per choice.
+ * Each generated draft counts as a request against the user's rate limit, and
+ * drafts also have their own daily token budget (PREGENERATION_DAILY_TOKEN_BUDGET).
+ * Their tokens are logged once, under their own request type, when they are generated.
+ */
+export async function queuePregeneration(
+  supabase: any,
+  userId: string,
+  requests: StoryGenerationRequest[]
+): Promise<PregenerationResult> {
+  const budget = Number(Deno.env.get('PREGENERATION_DAILY_TOKEN_BUDGET')) || DEFAULT_DAILY_TOKEN_BUDGET
+  const used = await getDailyTokenUsage(supabase, userId, PREGENERATION_REQUEST_TYPE)
+  if (used >= budget) {
+    return { queued: 0, skipped: requests.length, reason: 'budget_exhausted' }
+  }
+
+  const pending = await filterPendingDrafts(supabase, requests)
+  if (pending.length === 0) {
+    return { queued: 0, skipped: requests.length, reason: 'nothing_to_queue' }
+  }
+
+  // Keep generating after the response has been sent when the runtime allows it
+  const work = processQueue(supabase, userId, pending, budget - used)
+  const runtime = (globalThis as any).EdgeRuntime
+  if (runtime?.waitUntil) {
+    runtime.waitUntil(work)
+  } else {
+    await work
+  }
+
+  return { queued: pending.length, skipped: requests.length - pending.length }
+}
+
+/**
+ * Continuations to draft, rebuilt on the validated top-level request. Only the
+ * choice and the state and context it leads to come from each entry, so a draft
+ * can't use a genre, length, run or content settings the request wasn't checked
+ * for. Entries for another step than the request's own draft are dropped.
+ */
+export function buildPregenerationRequests(request: StoryGenerationRequest): StoryGenerationRequest[] {
+  const stepId = request.draft?.stepId
+  if (!stepId || !Array.isArray(request.pregenerate)) return []
+
+  return request.pregenerate
+    .filter(continuation => continuation?.draft?.stepId === stepId && typeof continuation.draft.choiceId === 'string')
+    .map(continuation => ({
+      genre: request.genre,
+      length: request.length,
+      challenge: request.challenge,
+      userId: request.userId,
+      sessionId: request.sessionId,
+      storyRunId: request.storyRunId,
+      currentStep: request.currentStep,
+      seed: request.seed,
+      timedChoices: request.timedChoices,
+      provider: request.provider,
+      contentSettings: request.contentSettings,
+      gameState: continuation.gameState,
+      previousChoice: continuation.previousChoice,
+      storyArc: continuation.storyArc,
+      storyGuidance: continuation.storyGuidance,
+      storyContext: continuation.storyContext,
+      refreshSummary: continuation.refreshSummary,
+      draft: { stepId, choiceId: continuation.draft!.choiceId }
+    }))
+}
+
+/**
+ * Take the requesting user's draft for the choice a request continues, if one
+ * was generated from the same state. The step's other drafts are discarded.
+ */
+export async function takeDraft(
+  supabase: any,
+  request: StoryGenerationRequest,
+  userId: string | undefined
+): Promise<StoryResponse | null> {
+  // Only signed-in users can queue drafts
+  if (!request.draft || !userId) return null
+
+  try {
+    const stateHash = await getStateHash(request)
+    const { data, error } = await supabase
+      .from('story_step_drafts')
+      .select('response')
+      .eq('step_id', request.draft.stepId)
+      .eq('choice_id', request.draft.choiceId)
+      .eq('state_hash', stateHash)
+      .eq('user_id', userId)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    if (error) {
+      console.error('Draft lookup error:', error)
+      return null
+    }
+
+    const { error: deleteError } = await supabase
+      .from('story_step_drafts')
+      .delete()
+      .eq('step_id', request.draft.stepId)
+      .eq('user_id', userId)
+
+    if (deleteError) {
+      console.error('Draft cleanup error:', deleteError)
+      // Don't throw - leftover drafts expire on their own
+    }
+
+    return data ? data.response as StoryResponse : null
+  } catch (error) {
+    console.error('Draft lookup exception:', error)
+    return null
+  }
+}
+
+/**
+ * Drafts worth generating: one per choice, skipping typed actions and choices
+ * that already have a draft for the same state
+ */
+async function filterPendingDrafts(
+  supabase: any,
+  requests: StoryGenerationRequest[]
+): Promise<StoryGenerationRequest[]> {
+  const seen = new Set<string>()
+  const candidates = requests
+    .filter(request => request.draft && !request.customAction)
+    .filter(request => {
+      const key = `${request.draft!.stepId}:${request.draft!.choiceId}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, MAX_DRAFTS_PER_STEP)
+
+  if (candidates.length === 0) return []
+
+  try {
+    const { data, error } = await supabase
+      .from('story_step_drafts')
+      .select('step_id, choice_id, state_hash')
+      .in('step_id', Array.from(new Set(candidates.map(request => request.draft!.stepId))))
+      .gt('expires_at', new Date().toISOString())
+
+    if (error) {
+      console.error('Draft queue lookup error:', error)
+      return candidates
+    }
+
+    const existing = new Set((data || []).map((draft: any) => `${draft.step_id}:${draft.choice_id}:${draft.state_hash}`))
+    const pending: StoryGenerationRequest[] = []
+    for (const request of candidates) {
+      const stateHash = await getStateHash(request)
+      if (!existing.has(`${request.draft!.stepId}:${request.draft!.choiceId}:${stateHash}`)) {
+        pending.push(request)
+      }
+    }
+    return pending
+  } catch (error) {
+    console.error('Draft queue lookup exception:', error)
+    return candidates
+  }
+}
+
+/**
+ * Generate drafts one at a time, stopping once the remaining budget is spent or
+ * the user reaches their rate limit
+ */
+async function processQueue(
+  supabase: any,
+  userId: string,
+  requests: StoryGenerationRequest[],
+  remainingBudget: number
+): Promise<void> {
+  for (const request of requests) {
+    if (remainingBudget <= 0) {
+      console.log('Pregeneration budget exhausted, dropping remaining drafts')
+      return
+    }
+
+    const rateLimit = await enforceRateLimit(supabase, userId, false)
+    if (!rateLimit.allowed) {
+      console.log('Rate limit reached, dropping remaining drafts')
+      return
+    }
+
+    try {
+      const result = await generateStoryContent({ ...request, draft: undefined, stream: undefined }, supabase)
+
+      // Fallback content isn't worth keeping - the real request will try the model again
+      if (!result.provider && !result.cached) continue
+
+      remainingBudget -= result.tokensUsed
+
+      const { error } = await supabase
+        .from('story_step_drafts')
+        .insert({
+          story_run_id: request.storyRunId,
+          step_id: request.draft!.stepId,
+          choice_id: request.draft!.choiceId,
+          state_hash: await getStateHash(request),
+          response: result.story,
+          tokens_used: result.tokensUsed,
+          user_id: userId,
+          expires_at: new Date(Date.now() + DRAFT_TTL_MINUTES * 60 * 1000).toISOString()
+        })
+
+      if (error) {
+        console.error('Draft insert error:', error)
+      }
+
+      await logTokenUsage(supabase, {
+        userId,
+        sessionId: request.sessionId,
+        genre: request.genre,
+        tokensUsed: result.tokensUsed,
+        requestType: PREGENERATION_REQUEST_TYPE
+      })
+    } catch (error) {
+      console.error('Draft generation error:', error)
+      // Don't throw - the player's real request generates normally
+    }
+  }
+}
+
+/**
+ * Fingerprint of the state a continuation was generated from, so a draft is
+ * only served when the player's committed choice leads to the same state in the
+ * same genre and length, under the same content settings
+ */
+function getStateHash(request: StoryGenerationRequest): Promise<string> {
+  return hashValue([
+    request.genre,
+    request.length,
+    request.currentStep,
+    request.previousChoice,
+    request.gameState,
+    request.contentSettings
+  ])
+}
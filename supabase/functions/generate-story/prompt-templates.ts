@@ -1,21 +1,29 @@
-import { StoryGenerationRequest } from './types.ts'
+import { StoryGenerationRequest, StoryContext, AnchorGoal, ContentSettings, STORY_WORD_RANGES } from './types.ts'
+import { resolveContentSettings } from './content-rating.ts'
 
 export interface PromptTemplate {
   systemPrompt: string
   userPrompt: string
 }
 
-export function getPromptTemplate(request: StoryGenerationRequest, attempt: number): PromptTemplate {
-  const baseSystemPrompt = getBaseSystemPrompt(request.genre, request.challenge)
+export function getPromptTemplate(
+  request: StoryGenerationRequest,
+  attempt: number,
+  revisionNotes: string[] = []
+): PromptTemplate {
+  const baseSystemPrompt = getBaseSystemPrompt(request.genre, request.challenge, request.length)
+  const contentGuidelines = getContentGuidelines(resolveContentSettings(request))
   const strictJsonInstructions = attempt > 1 ? getStrictJsonInstructions() : ''
   
   return {
-    systemPrompt: baseSystemPrompt + strictJsonInstructions,
-    userPrompt: getUserPrompt(request)
+    systemPrompt: baseSystemPrompt + contentGuidelines + strictJsonInstructions,
+    userPrompt: getUserPrompt(request) + (revisionNotes.length > 0 ? getRevisionSection(revisionNotes) : '')
   }
 }
 
-function getBaseSystemPrompt(genre: string, challenge: string): string {
+function getBaseSystemPrompt(genre: string, challenge: string, length: StoryGenerationRequest['length']): string {
+  const wordRange = STORY_WORD_RANGES[length] || STORY_WORD_RANGES.standard
+
   const genrePrompts = {
     fantasy: `You are a master storyteller crafting epic fantasy adventures with rich narrative depth. Your stories feature:
 - Immersive magical worlds with consistent lore and rules
@@ -102,15 +110,17 @@ STORYTELLING EXCELLENCE REQUIREMENTS:
 
 JSON RESPONSE SCHEMA:
 {
-  "story_text": "string (300-500 words - increased for richer content)",
+  "story_text": "string (${wordRange.min}-${wordRange.max} words)",
   "choices": [
     {
       "id": "A",
       "text": "string (15-60 words - more detailed options)",
       "slug": "string (snake_case identifier)",
-      "consequences": ["string array - hint at potential outcomes"],
+      "consequences": ["string array - game state effects applied when this choice is picked (see CONSEQUENCES)"],
       "traits_impact": {"trait_name": number} (-3 to +3 for stronger impact),
-      "story_impact": "string (brief description of how this advances the plot)"
+      "story_impact": "string (brief description of how this advances the plot)",
+      "requires": ["optional string array - conditions that must hold to pick this choice"],
+      "locked_hint": "optional string (shown when requirements aren't met, e.g. 'You'd need a rope')"
     }
   ],
   "game_state": {
@@ -119,22 +129,51 @@ JSON RESPONSE SCHEMA:
     "relationships": {"character_name": number},
     "inventory": ["string array"],
     "personality_traits": {"riskTaking": number, "empathy": number, "pragmatism": number, "creativity": number, "leadership": number},
+    "stats": {"stat_name": number} (optional - numeric stats such as health or gold),
+    "counters": {"counter_name": number} (optional - how often something has happened),
     "plot_threads": ["string array - active storylines being developed"]
   },
+  "characters": [{"name": "string", "bio": "string (one sentence)"}] (only named characters introduced in this segment),
   "is_ending": boolean,
   "ending_type": "string (if is_ending is true)",
   "ending_tag": "string (if is_ending is true)"
 }
 
+CONSEQUENCES:
+- Each entry is one effect: "add_flag:NAME", "remove_flag:NAME", "add_item:NAME", "remove_item:NAME", "set_relationship:NAME:N", "modify_relationship:NAME:N", "set_stat:NAME:N", "modify_stat:NAME:N", "increment_counter:NAME" (or "increment_counter:NAME:N"), "reset_counter:NAME", "increment_act"
+- An effect can depend on the game state: "if CONDITION then EFFECT", with several conditions joined by "and", e.g. "if item:rope and not flag:alarm_raised then add_flag:scaled_wall"
+- Conditions: "flag:NAME", "item:NAME", "not flag:NAME", "not item:NAME", or a comparison "relationship:NAME >= N", "stat:NAME < N", "counter:NAME == N", "trait:NAME >= N", "act >= N" (operators >=, <=, >, <, ==, !=)
+- N is a whole number; NAME is snake_case with no spaces or colons
+
 CRITICAL STORYTELLING RULES:
 - NEVER end prematurely - build to natural, earned conclusions
 - Each choice must genuinely matter and affect the story
+- Use "requires" sparingly to gate a choice on what the player has, with the same conditions as consequences (names must match the game state). Always leave at least one choice without requirements
 - Character growth should be visible through actions and decisions
 - Plot threads introduced early must be developed and resolved
 - Tension should escalate logically toward climactic moments
 - Endings must feel satisfying and complete, not rushed`
 }
 
+function getContentGuidelines(settings: ContentSettings): string {
+  const audience = {
+    kids: 'young children: gentle peril only, no injuries, nothing scary or unkind left unresolved',
+    teen: 'an all-ages audience: conflict and danger are fine, but no graphic injury, profanity or mature themes',
+    mature: 'adults: darker themes and moral ambiguity are fine, but never gratuitous gore or sexual content'
+  }[settings.rating]
+
+  const excluded = [
+    !settings.violence && '- No violence: resolve conflict through wits, stealth, persuasion or escape',
+    !settings.romance && '- No romance: relationships stay friendships, rivalries and alliances',
+    !settings.fear && '- Nothing frightening: no horror, dread, monsters or creepy imagery'
+  ].filter(Boolean)
+
+  return `
+
+CONTENT GUIDELINES (the player's content settings - these override the genre description):
+- Write for ${audience}${excluded.length > 0 ? `\n${excluded.join('\n')}` : ''}`
+}
+
 function getStrictJsonInstructions(): string {
   return `
 
@@ -147,6 +186,87 @@ STRICT JSON FORMATTING (Previous attempt failed):
 - If unsure, use simpler values but maintain the exact schema`
 }
 
+function getRevisionSection(notes: string[]): string {
+  return `
+
+REVISIONS REQUIRED (a previous draft of this segment was rejected):
+${notes.map(note => `- ${note}`).join('\n')}`
+}
+
+function getSummaryInstructions(): string {
+  return `
+
+STORY SUMMARY REQUIRED:
+Add a "story_summary" string field to the JSON response: a 3-5 sentence recap of the whole story so far, including this new segment. Write it in second person ("you"), name key characters and items, and note unresolved plot threads. It is shown to returning players and replaces older history in future prompts.`
+}
+
+function getAnchorGoalSection(anchor: AnchorGoal): string {
+  const flagGuidance = anchor.missingFlags.length > 0
+    ? `\n- Before the beat can happen, the story must establish: ${anchor.missingFlags.join(', ')}
+- Give at least one choice a consequence of the form "add_flag:<flag>" for one of those flags, so picking it moves the story towards the beat`
+    : ''
+
+  return `
+NEXT STORY BEAT (hand-written, the story must arrive here):
+- Goal: ${anchor.goal}
+- Steer towards it within ${anchor.stepsRemaining} step(s); do not play out the beat itself${flagGuidance}
+- Do not end the story (is_ending must be false)
+`
+}
+
+function getTimedChoicesSection(): string {
+  return `
+TIMED DECISIONS (the player opted into decision deadlines):
+- When the scene is genuinely urgent (a chase, an ambush, something closing in), add "time_limit_seconds" (10-30) to the JSON response; leave it out for calm scenes
+- On a timed step, mark exactly one choice with "is_default": true - the hesitant option (freezing, hiding, waiting) that happens if the player runs out of time
+`
+}
+
+function getCustomActionSection(action: string): string {
+  return `
+PLAYER'S OWN ACTION (typed by the player instead of picking a choice):
+"${action}"
+- Narrate what happens when they attempt it; it may fail or backfire if it doesn't fit the situation
+- Never let it override established facts, grant abilities the character lacks, or skip the story ahead
+- Add a "player_action" object to the JSON response with what the action did. It may only
+  change relationships and personality traits - items, flags and story progress come from the regular choices:
+  {"consequences": ["modify_relationship:NAME:N", ...] (N from -10 to +10), "traits_impact": {"trait_name": number} (-3 to +3)}
+`
+}
+
+function getStoryContextSection(context: StoryContext): string {
+  const sections: string[] = []
+
+  if (context.summary) {
+    sections.push(`STORY SO FAR (earlier steps, condensed):
+${context.summary}`)
+  }
+
+  if (context.recentSteps.length > 0) {
+    const recent = context.recentSteps.map(step => {
+      const choice = step.choiceText
+        ? `\n  -> Player chose: "${step.choiceText}"${step.consequences?.length ? ` (consequences: ${step.consequences.join(', ')})` : ''}`
+        : ''
+      return `Step ${step.stepNumber}: ${step.storyText}${choice}`
+    })
+    sections.push(`RECENT EVENTS (verbatim):
+${recent.join('\n\n')}`)
+  }
+
+  const continuity = [
+    context.characters.length > 0 ? `- Characters met (use the [id] in relationship consequences and requirements):\n${context.characters.map(character => `  * ${character}`).join('\n')}` : '',
+    context.inventory.length > 0 ? `- Player is carrying (refer to items by their game state inventory ids in consequences):\n${context.inventory.map(item => `  * ${item}`).join('\n')}` : '',
+    context.flags.length > 0 ? `- Established story facts: ${context.flags.join(', ')}` : ''
+  ].filter(Boolean)
+
+  if (continuity.length > 0) {
+    sections.push(`CONTINUITY (keep names, items and plot threads consistent with these):
+${continuity.join('\n')}`)
+  }
+
+  return `\n${sections.join('\n\n')}\n`
+}
+
 function getUserPrompt(request: StoryGenerationRequest): string {
   if (request.currentStep && request.gameState) {
     // Continuing an existing story
@@ -157,8 +277,11 @@ STORY CONTEXT:
 - Current Step: ${request.currentStep}
 - Previous Choice: "${request.previousChoice || 'None'}"
 - Current Game State: ${JSON.stringify(request.gameState)}
-
+${request.storyContext ? getStoryContextSection(request.storyContext) : ''}
 ${arcGuidance}
+${request.nextAnchor ? getAnchorGoalSection(request.nextAnchor) : ''}
+${request.timedChoices ? getTimedChoicesSection() : ''}
+${request.customAction ? getCustomActionSection(request.customAction) : ''}
 
 CONTINUATION REQUIREMENTS:
 1. ACKNOWLEDGE CONSEQUENCES: Show clear results of the previous choice
@@ -176,7 +299,7 @@ ${request.length === 'quick' ?
 
 CRITICAL: This is step ${request.currentStep}. Do NOT rush to an ending unless you've built proper narrative tension and character development. Only set is_ending=true if this represents a natural, satisfying climax and resolution point.
 
-Generate a story segment that makes readers eager to see what happens next while advancing the core narrative meaningfully.`
+Generate a story segment that makes readers eager to see what happens next while advancing the core narrative meaningfully.${request.refreshSummary ? getSummaryInstructions() : ''}`
   } else {
     // Starting a new story
     return `Create an engaging opening for a ${request.genre} interactive story (${request.length} length, ${request.challenge} difficulty).
@@ -205,7 +328,7 @@ TONE AND STYLE:
 - Create vivid, sensory descriptions that bring scenes to life
 - Balance dialogue, action, and description for engaging pacing
 - End with a compelling hook that makes readers eager for the next choice
-
+${request.timedChoices ? getTimedChoicesSection() : ''}
 Generate an opening that immediately grabs attention and sets up a story worth following to its conclusion.`
   }
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { scoreStoryQuality, getMinQualityScore } from './quality-scorer.ts'
+import { STORY_WORD_RANGES, type StoryGenerationRequest, type StoryResponse } from './types.ts'
+
+function words(count: number): string {
+  return Array.from({ length: count }, () => 'word').join(' ')
+}
+
+function makeRequest(overrides: Partial<StoryGenerationRequest> = {}): StoryGenerationRequest {
+  return { genre: 'fantasy', length: 'standard', challenge: 'casual', sessionId: 'session-1', ...overrides }
+}
+
+function makeStory(overrides: Partial<StoryResponse> = {}): StoryResponse {
+  return {
+    storyText: words(300),
+    choices: [
+      { id: 'A', text: 'Climb the ruined tower', slug: 'climb_tower', traits_impact: { riskTaking: 1 } },
+      { id: 'B', text: 'Question the old ferryman', slug: 'question_ferryman', traits_impact: { empathy: 1 } },
+      { id: 'C', text: 'Search the abandoned library', slug: 'search_library', traits_impact: { creativity: 1 } }
+    ],
+    gameState: { act: 1, flags: [], relationships: {}, inventory: [], personalityTraits: {} },
+    isEnding: false,
+    ...overrides
+  }
+}
+
+describe('scoreStoryQuality', () => {
+  it('gives a full score to a step that passes every check', () => {
+    const report = scoreStoryQuality(makeStory(), makeRequest({ storyArc: { act: 1, phase: 'setup' } }))
+
+    expect(report.score).toBe(100)
+    expect(report.issues).toEqual([])
+  })
+
+  it('checks story length against the range the prompt asks for', () => {
+    for (const length of ['quick', 'standard', 'extended'] as const) {
+      const { min, max } = STORY_WORD_RANGES[length]
+      const request = makeRequest({ length })
+
+      expect(scoreStoryQuality(makeStory({ storyText: words(min) }), request).checks.textLength).toBe(1)
+      expect(scoreStoryQuality(makeStory({ storyText: words(max) }), request).checks.textLength).toBe(1)
+    }
+  })
+
+  it('scales the length check and explains the problem', () => {
+    const { min, max } = STORY_WORD_RANGES.standard
+
+    const short = scoreStoryQuality(makeStory({ storyText: words(min / 2) }), makeRequest())
+    expect(short.checks.textLength).toBe(0.5)
+    expect(short.issues).toEqual([`The story text is only ${min / 2} words - write ${min}-${max} words`])
+
+    const long = scoreStoryQuality(makeStory({ storyText: words(max * 4) }), makeRequest())
+    expect(long.checks.textLength).toBe(0.5)
+  })
+
+  it('penalizes near-identical choices', () => {
+    const story = makeStory()
+    story.choices[1] = { ...story.choices[1], text: 'Climb the ruined tower quickly', slug: 'climb_tower_quickly' }
+    const report = scoreStoryQuality(story, makeRequest())
+
+    expect(report.checks.choiceDiversity).toBeLessThan(0.4)
+    expect(report.issues[0]).toMatch(/nearly identical/)
+  })
+
+  it('treats duplicate slugs as identical choices', () => {
+    const story = makeStory()
+    story.choices[2] = { ...story.choices[2], slug: 'climb_tower' }
+
+    expect(scoreStoryQuality(story, makeRequest()).checks.choiceDiversity).toBe(0)
+  })
+
+  it('scores the share of choices with a trait impact', () => {
+    const story = makeStory()
+    story.choices[0] = { ...story.choices[0], traits_impact: {} }
+
+    expect(scoreStoryQuality(story, makeRequest()).checks.traitsImpact).toBeCloseTo(2 / 3)
+  })
+
+  it('penalizes early endings and act drift', () => {
+    const request = makeRequest({ storyArc: { act: 1, phase: 'rising_action' } })
+    const story = makeStory({ isEnding: true, choices: [], gameState: { ...makeStory().gameState, act: 3 } })
+    const report = scoreStoryQuality(story, request)
+
+    expect(report.checks.arcPhase).toBe(0)
+    expect(report.issues).toEqual([
+      'The story is in its rising action phase - do not end it yet',
+      'The story should be in act 1 - set game_state.act accordingly'
+    ])
+  })
+
+  it('weights the checks into a 0-100 score', () => {
+    const story = makeStory({ storyText: words(STORY_WORD_RANGES.standard.min / 2) })
+    expect(scoreStoryQuality(story, makeRequest()).score).toBe(85)
+  })
+})
+
+describe('getMinQualityScore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function stubEnv(value: string | undefined) {
+    vi.stubGlobal('Deno', { env: { get: (name: string) => (name === 'QUALITY_MIN_SCORE' ? value : undefined) } })
+  }
+
+  it('defaults to 70', () => {
+    stubEnv(undefined)
+    expect(getMinQualityScore()).toBe(70)
+  })
+
+  it('reads QUALITY_MIN_SCORE and ignores invalid values', () => {
+    stubEnv('0')
+    expect(getMinQualityScore()).toBe(0)
+
+    stubEnv('high')
+    expect(getMinQualityScore()).toBe(70)
+  })
+})
@@ -0,0 +1,143 @@
+import { StoryGenerationRequest, StoryResponse, QualityReport, STORY_WORD_RANGES } from './types.ts'
+
+const DEFAULT_MIN_SCORE = 70
+
+// How much each check contributes to the overall score
+const CHECK_WEIGHTS: Record<keyof QualityReport['checks'], number> = {
+  choiceDiversity: 0.3,
+  textLength: 0.3,
+  traitsImpact: 0.2,
+  arcPhase: 0.2
+}
+
+// Word overlap above which two choices count as the same option
+const SIMILAR_CHOICE_THRESHOLD = 0.6
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'your', 'you', 'it', 'is', 'into', 'from'
+])
+
+/**
+ * Minimum score before a step is regenerated, from QUALITY_MIN_SCORE (0 disables)
+ */
+export function getMinQualityScore(): number {
+  const configured = Deno.env.get('QUALITY_MIN_SCORE')
+  return configured !== undefined && !isNaN(Number(configured)) ? Number(configured) : DEFAULT_MIN_SCORE
+}
+
+/**
+ * Score a generated step from 0-100 on choice diversity, story length, trait
+ * impact and fit with the arc phase the request asked for. Issues are phrased
+ * as instructions so a regeneration can target them.
+ */
+export function scoreStoryQuality(story: StoryResponse, request: StoryGenerationRequest): QualityReport {
+  const issues: string[] = []
+
+  const checks: QualityReport['checks'] = {
+    choiceDiversity: scoreChoiceDiversity(story, issues),
+    textLength: scoreTextLength(story, request, issues),
+    traitsImpact: scoreTraitsImpact(story, issues),
+    arcPhase: scoreArcPhase(story, request, issues)
+  }
+
+  const score = Object.entries(checks)
+    .reduce((sum, [check, value]) => sum + value * CHECK_WEIGHTS[check as keyof QualityReport['checks']], 0)
+
+  return {
+    score: Math.round(score * 100),
+    checks,
+    issues
+  }
+}
+
+function scoreChoiceDiversity(story: StoryResponse, issues: string[]): number {
+  if (story.isEnding || story.choices.length < 2) return 1
+
+  let highestSimilarity = 0
+  for (let i = 0; i < story.choices.length; i++) {
+    for (let j = i + 1; j < story.choices.length; j++) {
+      const similarity = story.choices[i].slug === story.choices[j].slug
+        ? 1
+        : getWordOverlap(story.choices[i].text, story.choices[j].text)
+      highestSimilarity = Math.max(highestSimilarity, similarity)
+    }
+  }
+
+  if (highestSimilarity >= SIMILAR_CHOICE_THRESHOLD) {
+    issues.push('Two choices are nearly identical - make every choice a genuinely different course of action')
+  }
+
+  return 1 - highestSimilarity
+}
+
+function scoreTextLength(story: StoryResponse, request: StoryGenerationRequest, issues: string[]): number {
+  const range = STORY_WORD_RANGES[request.length] || STORY_WORD_RANGES.standard
+  const words = story.storyText.trim().split(/\s+/).filter(Boolean).length
+
+  if (words < range.min) {
+    issues.push(`The story text is only ${words} words - write ${range.min}-${range.max} words`)
+    return words / range.min
+  }
+
+  if (words > range.max) {
+    issues.push(`The story text is ${words} words - keep it to ${range.min}-${range.max} words`)
+    return Math.max(0.5, range.max / words)
+  }
+
+  return 1
+}
+
+function scoreTraitsImpact(story: StoryResponse, issues: string[]): number {
+  if (story.isEnding || story.choices.length === 0) return 1
+
+  const withImpact = story.choices.filter(choice => Object.keys(choice.traits_impact || {}).length > 0).length
+  if (withImpact < story.choices.length) {
+    issues.push('Give every choice a traits_impact showing which personality traits it reflects')
+  }
+
+  return withImpact / story.choices.length
+}
+
+/**
+ * Checks the parts of the arc the response itself exposes: whether it ends and
+ * which act it places the story in
+ */
+function scoreArcPhase(story: StoryResponse, request: StoryGenerationRequest, issues: string[]): number {
+  const arc = request.storyArc as { act?: number; phase?: string } | undefined
+  if (!arc?.phase) return 1
+
+  let score = 1
+
+  if (story.isEnding && (arc.phase === 'setup' || arc.phase === 'rising_action')) {
+    issues.push(`The story is in its ${arc.phase.replace('_', ' ')} phase - do not end it yet`)
+    score -= 0.6
+  }
+
+  if (typeof arc.act === 'number' && Math.abs(story.gameState.act - arc.act) > 1) {
+    issues.push(`The story should be in act ${arc.act} - set game_state.act accordingly`)
+    score -= 0.4
+  }
+
+  return Math.max(0, score)
+}
+
+/**
+ * Share of meaningful words two texts have in common (Jaccard index)
+ */
+function getWordOverlap(a: string, b: string): number {
+  const wordsA = getMeaningfulWords(a)
+  const wordsB = getMeaningfulWords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+function getMeaningfulWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word))
+  )
+}
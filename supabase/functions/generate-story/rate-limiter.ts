@@ -126,7 +126,7 @@ export async function checkPremiumLimits(
 export async function checkPremiumFeatureAccess(
   supabase: any,
   userId: string,
-  feature: 'extended_length' | 'premium_genre'
+  feature: 'extended_length' | 'premium_genre' | 'pregeneration'
 ): Promise<boolean> {
   if (!userId) return false
   
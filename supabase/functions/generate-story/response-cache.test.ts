@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { getPathHash } from './response-cache.ts'
+import type { StoryGenerationRequest } from './types.ts'
+
+interface StepRow {
+  id: string
+  story_run_id: string
+  step_number: number
+  choices: { id: string; text: string; slug: string }[]
+  selected_choice_id: string | null
+}
+
+interface RunRow {
+  id: string
+  genre: string
+  length: string
+  challenge: string
+  timed_choices: boolean
+}
+
+/**
+ * In-memory story_runs and story_steps tables supporting the filters getPathHash uses.
+ * Like the real client, a query only runs once it is awaited.
+ */
+function createFakeSupabase(runs: RunRow[], steps: StepRow[]) {
+  const query = (table: string, filters: [string, string, unknown][]) => {
+    const run = () => {
+      const rows: Record<string, any>[] = table === 'story_runs' ? runs : steps
+      return rows
+        .filter(row => filters.every(([op, column, value]) =>
+          op === 'eq' ? row[column] === value : row[column] < (value as number)
+        ))
+        .sort((a, b) => (a.step_number || 0) - (b.step_number || 0))
+    }
+
+    return {
+      eq: (column: string, value: unknown) => query(table, [...filters, ['eq', column, value]]),
+      lt: (column: string, value: unknown) => query(table, [...filters, ['lt', column, value]]),
+      order: () => query(table, filters),
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: { data: Record<string, any>[]; error: null }) => void) => resolve({ data: run(), error: null })
+    }
+  }
+
+  return { from: (table: string) => ({ select: () => query(table, []) }) }
+}
+
+const choices = (step: number) => [
+  { id: 'A', text: `Go left ${step}`, slug: `go_left_${step}` },
+  { id: 'B', text: `Go right ${step}`, slug: `go_right_${step}` }
+]
+
+/**
+ * A run with two stored steps; the first took choice A and the second is awaiting a choice
+ */
+function createRun(runId: string, overrides: Partial<RunRow> = {}) {
+  return {
+    run: { id: runId, genre: 'fantasy', length: 'standard', challenge: 'casual', timed_choices: false, ...overrides },
+    steps: [
+      { id: `${runId}-1`, story_run_id: runId, step_number: 1, choices: choices(1), selected_choice_id: 'A' },
+      { id: `${runId}-2`, story_run_id: runId, step_number: 2, choices: choices(2), selected_choice_id: null }
+    ]
+  }
+}
+
+function makeRequest(runId: string, overrides: Partial<StoryGenerationRequest> = {}): StoryGenerationRequest {
+  return {
+    genre: 'fantasy',
+    length: 'standard',
+    challenge: 'casual',
+    sessionId: `${runId}_3`,
+    storyRunId: runId,
+    currentStep: 3,
+    previousChoice: 'Go left 2',
+    gameState: { act: 1, flags: [], relationships: {}, inventory: [], personalityTraits: {} },
+    draft: { stepId: `${runId}-2`, choiceId: 'A' },
+    ...overrides
+  }
+}
+
+describe('getPathHash', () => {
+  it('gives runs with different seeds the same key for the same path', async () => {
+    const first = createRun('run-1')
+    const second = createRun('run-2')
+    const supabase = createFakeSupabase([first.run, second.run], [...first.steps, ...second.steps])
+
+    const firstHash = await getPathHash(supabase, makeRequest('run-1', { seed: 101 }))
+    const secondHash = await getPathHash(supabase, makeRequest('run-2', { seed: 202 }))
+
+    expect(firstHash).toMatch(/^[0-9a-f]{64}$/)
+    expect(secondHash).toBe(firstHash)
+  })
+
+  it('keys on the stored path and timing mode', async () => {
+    const base = createRun('run-1')
+    const otherPath = createRun('run-2')
+    otherPath.steps[0].selected_choice_id = 'B'
+    const timed = createRun('run-3', { timed_choices: true })
+    const supabase = createFakeSupabase(
+      [base.run, otherPath.run, timed.run],
+      [...base.steps, ...otherPath.steps, ...timed.steps]
+    )
+
+    const baseHash = await getPathHash(supabase, makeRequest('run-1'))
+
+    expect(await getPathHash(supabase, makeRequest('run-2'))).not.toBe(baseHash)
+    expect(await getPathHash(supabase, makeRequest('run-3'))).not.toBe(baseHash)
+    expect(await getPathHash(supabase, makeRequest('run-1', {
+      draft: { stepId: 'run-1-2', choiceId: 'B' }
+    }))).not.toBe(baseHash)
+  })
+
+  it('hashes in the prompt inputs the client sends', async () => {
+    const { run, steps } = createRun('run-1')
+    const supabase = createFakeSupabase([run], steps)
+
+    const baseHash = await getPathHash(supabase, makeRequest('run-1'))
+    const craftedHash = await getPathHash(supabase, makeRequest('run-1', {
+      gameState: { act: 1, flags: ['crafted'], relationships: {}, inventory: [], personalityTraits: {} }
+    }))
+
+    expect(craftedHash).not.toBe(baseHash)
+  })
+
+  it('gives no key when the path cannot be read back from the run', async () => {
+    const { run, steps } = createRun('run-1')
+    const typed = createRun('run-2')
+    typed.steps[0].selected_choice_id = 'custom'
+    const supabase = createFakeSupabase([run, typed.run], [...steps, ...typed.steps])
+
+    // Not the latest step, a choice it doesn't offer, another genre, a typed action on the way
+    expect(await getPathHash(supabase, makeRequest('run-1', { draft: { stepId: 'run-1-1', choiceId: 'A' } }))).toBeNull()
+    expect(await getPathHash(supabase, makeRequest('run-1', { draft: { stepId: 'run-1-2', choiceId: 'Z' } }))).toBeNull()
+    expect(await getPathHash(supabase, makeRequest('run-1', { genre: 'horror' }))).toBeNull()
+    expect(await getPathHash(supabase, makeRequest('run-2'))).toBeNull()
+    expect(await getPathHash(supabase, makeRequest('run-1', { draft: undefined }))).toBeNull()
+  })
+})
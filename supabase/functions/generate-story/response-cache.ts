@@ -0,0 +1,208 @@
+import { StoryGenerationRequest, StoryResponse } from './types.ts'
+import { resolveContentSettings, getContentSettingsKey } from './content-rating.ts'
+import { hashValue } from './hashing.ts'
+
+const DEFAULT_TTL_HOURS = 24
+
+/**
+ * Opt-in cache of generated steps, keyed on genre, length, challenge, content
+ * settings and a path hash built here from the run's stored steps. Enabled with
+ * STORY_CACHE_ENABLED=true.
+ */
+export function isCacheEnabled(): boolean {
+  return Deno.env.get('STORY_CACHE_ENABLED') === 'true'
+}
+
+/**
+ * Whether a request's output depends only on its cache key. Typed actions, hybrid
+ * bridges and summary refreshes depend on more than the path, so they always generate.
+ */
+export function isCacheable(request: StoryGenerationRequest): boolean {
+  return isCacheEnabled() &&
+    !request.customAction &&
+    !request.nextAnchor &&
+    !request.refreshSummary
+}
+
+/**
+ * Path hash for a request: the run's timing mode and the slugs of the choices
+ * taken so far, read from the stored run and steps rather than from the client.
+ * The prompt inputs the client builds (game state, story context, previous choice,
+ * arc guidance) are hashed in too, so a crafted request can only fill an entry
+ * for exactly what it sent. Null when the path can't be read back from the run,
+ * e.g. it went through a typed action; those requests always generate.
+ */
+export async function getPathHash(
+  supabase: any,
+  request: StoryGenerationRequest
+): Promise<string | null> {
+  const promptInputs = [
+    request.currentStep ?? 1,
+    request.previousChoice,
+    request.gameState,
+    request.storyArc,
+    request.storyGuidance,
+    request.storyContext
+  ]
+
+  // Openings have no run to read back yet
+  if (!request.currentStep || request.currentStep <= 1) {
+    return hashValue(['path', !!request.timedChoices, [], promptInputs])
+  }
+
+  if (!request.storyRunId || !request.draft) return null
+
+  try {
+    const { data: storyRun, error: runError } = await supabase
+      .from('story_runs')
+      .select('genre, length, challenge, timed_choices')
+      .eq('id', request.storyRunId)
+      .maybeSingle()
+
+    if (runError) {
+      console.error('Story cache run lookup error:', runError)
+      return null
+    }
+
+    if (!storyRun ||
+      storyRun.genre !== request.genre ||
+      storyRun.length !== request.length ||
+      storyRun.challenge !== request.challenge) {
+      return null
+    }
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('story_steps')
+      .select('id, step_number, choices, selected_choice_id')
+      .eq('story_run_id', request.storyRunId)
+      .lt('step_number', request.currentStep)
+      .order('step_number', { ascending: true })
+
+    if (stepsError) {
+      console.error('Story cache step lookup error:', stepsError)
+      return null
+    }
+
+    // The request continues the latest step with the choice named in its draft target
+    const latest = (steps || [])[(steps || []).length - 1]
+    if (!latest || latest.id !== request.draft.stepId || latest.step_number !== request.currentStep - 1) {
+      return null
+    }
+
+    const slugs: string[] = []
+    for (const step of steps) {
+      const choiceId = step.id === latest.id ? request.draft.choiceId : step.selected_choice_id
+      if (step.id === latest.id && step.selected_choice_id && step.selected_choice_id !== choiceId) return null
+
+      // Typed actions aren't among the stored choices, so paths through one get no hash
+      const choice = (Array.isArray(step.choices) ? step.choices : []).find((c: any) => c?.id === choiceId)
+      if (!choice?.slug) return null
+      slugs.push(choice.slug)
+    }
+
+    return hashValue(['path', !!storyRun.timed_choices, slugs, promptInputs])
+  } catch (error) {
+    console.error('Story cache path exception:', error)
+    return null
+  }
+}
+
+/**
+ * Get a cached step that hasn't expired yet
+ */
+export async function getCachedStory(
+  supabase: any,
+  request: StoryGenerationRequest,
+  pathHash: string
+): Promise<StoryResponse | null> {
+  try {
+    const { data, error } = await supabase
+      .from('story_generation_cache')
+      .select('id, response, hit_count')
+      .eq('genre', request.genre)
+      .eq('length', request.length)
+      .eq('challenge', request.challenge)
+      .eq('content_key', getContentSettingsKey(resolveContentSettings(request)))
+      .eq('path_hash', pathHash)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    if (error) {
+      console.error('Story cache lookup error:', error)
+      return null
+    }
+
+    if (!data) return null
+
+    const { error: updateError } = await supabase
+      .from('story_generation_cache')
+      .update({ hit_count: (data.hit_count || 0) + 1 })
+      .eq('id', data.id)
+
+    if (updateError) {
+      console.error('Story cache hit count error:', updateError)
+      // Don't throw - the cached step can still be served
+    }
+
+    return data.response as StoryResponse
+  } catch (error) {
+    console.error('Story cache lookup exception:', error)
+    return null
+  }
+}
+
+/**
+ * Store a generated step, replacing any expired entry for the same key. Steps
+ * offering a choice a moderator has banned aren't shared with other runs.
+ */
+export async function cacheStory(
+  supabase: any,
+  request: StoryGenerationRequest,
+  pathHash: string,
+  story: StoryResponse
+): Promise<void> {
+  const ttlHours = Number(Deno.env.get('STORY_CACHE_TTL_HOURS')) || DEFAULT_TTL_HOURS
+  const now = new Date()
+
+  try {
+    if (await hasBannedChoice(supabase, story)) return
+
+    const { error } = await supabase
+      .from('story_generation_cache')
+      .upsert({
+        genre: request.genre,
+        length: request.length,
+        challenge: request.challenge,
+        content_key: getContentSettingsKey(resolveContentSettings(request)),
+        path_hash: pathHash,
+        response: story,
+        hit_count: 0,
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + ttlHours * 60 * 60 * 1000).toISOString()
+      }, { onConflict: 'genre,length,challenge,content_key,path_hash' })
+
+    if (error) {
+      console.error('Story cache write error:', error)
+      // Don't throw - caching failure shouldn't break the main flow
+    }
+  } catch (error) {
+    console.error('Story cache write exception:', error)
+  }
+}
+
+async function hasBannedChoice(supabase: any, story: StoryResponse): Promise<boolean> {
+  const slugs = story.choices.map(choice => choice.slug).filter(Boolean)
+  if (slugs.length === 0) return false
+
+  const { data, error } = await supabase
+    .from('banned_choice_slugs')
+    .select('choice_slug')
+    .in('choice_slug', slugs)
+
+  if (error) {
+    console.error('Banned slug lookup error:', error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
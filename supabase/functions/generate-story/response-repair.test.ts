@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import { parseAIResponse, extractJson, GenerationFailure } from './response-repair.ts'
+import type { StoryGenerationRequest } from './types.ts'
+
+function makeRequest(overrides: Partial<StoryGenerationRequest> = {}): StoryGenerationRequest {
+  return { genre: 'mystery', length: 'standard', challenge: 'casual', sessionId: 'session-1', ...overrides }
+}
+
+function makeResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    story_text: 'The lamp gutters as the inspector steps inside.',
+    choices: [
+      { id: 'A', text: 'Examine the desk', slug: 'examine_desk' },
+      { id: 'B', text: 'Question the butler', slug: 'question_butler' }
+    ],
+    game_state: {
+      act: 2,
+      flags: ['met_butler'],
+      relationships: { butler: 10 },
+      inventory: ['lamp'],
+      personality_traits: { riskTaking: 55 }
+    },
+    is_ending: false,
+    ...overrides
+  }
+}
+
+function failureReason(content: string, request = makeRequest()): string | undefined {
+  try {
+    parseAIResponse(content, request)
+  } catch (error) {
+    return error instanceof GenerationFailure ? error.reason : undefined
+  }
+  return undefined
+}
+
+describe('parseAIResponse', () => {
+  it('accepts a valid response without repairs', () => {
+    const { response, repairs } = parseAIResponse(JSON.stringify(makeResponse()), makeRequest())
+    expect(repairs).toEqual([])
+    expect(response.choices.map(choice => choice.slug)).toEqual(['examine_desk', 'question_butler'])
+  })
+
+  it('reads JSON wrapped in markdown fences and prose', () => {
+    const content = 'Here is the next step:\n```json\n' + JSON.stringify(makeResponse()) + '\n```\nEnjoy!'
+    expect(parseAIResponse(content, makeRequest()).response.story_text).toContain('inspector')
+  })
+
+  it('fails empty output as empty_response', () => {
+    expect(failureReason('   \n')).toBe('empty_response')
+  })
+
+  it('fails truncated JSON as invalid_json', () => {
+    expect(failureReason(JSON.stringify(makeResponse()).slice(0, 80))).toBe('invalid_json')
+  })
+
+  it('fails output with no story text as schema_violation', () => {
+    expect(failureReason(JSON.stringify(makeResponse({ story_text: '' })))).toBe('schema_violation')
+  })
+
+  it('fails output whose choices all lack text as schema_violation', () => {
+    expect(failureReason(JSON.stringify(makeResponse({ choices: [{ id: 'A' }, { slug: 'x' }] })))).toBe('schema_violation')
+  })
+
+  it('takes story text from alternative keys', () => {
+    const { story_text, ...rest } = makeResponse()
+    const { response, repairs } = parseAIResponse(JSON.stringify({ ...rest, narrative: story_text }), makeRequest())
+    expect(response.story_text).toBe(story_text)
+    expect(repairs).toContain('story_text')
+  })
+
+  it('fills in missing choice ids and slugs and drops unusable choices', () => {
+    const content = JSON.stringify(makeResponse({
+      choices: [
+        { text: 'Open the locked drawer' },
+        { description: 'Follow the muddy footprints', choice_slug: 'follow_footprints' },
+        'not a choice',
+        { id: 'D' }
+      ]
+    }))
+
+    const { response, repairs } = parseAIResponse(content, makeRequest())
+    expect(repairs).toContain('choices')
+    expect(response.choices).toHaveLength(2)
+    expect(response.choices[0].id).toBe('A')
+    expect(response.choices[0].slug).toBeTruthy()
+    expect(response.choices[1]).toMatchObject({ id: 'B', text: 'Follow the muddy footprints', slug: 'follow_footprints' })
+  })
+
+  it('rebuilds a missing game state from the request state', () => {
+    const request = makeRequest({
+      gameState: {
+        act: 3,
+        flags: ['found_letter'],
+        relationships: { maid: -5 },
+        inventory: ['letter'],
+        personalityTraits: { riskTaking: 60, empathy: 40, pragmatism: 50, creativity: 50, leadership: 50 }
+      }
+    })
+    const { game_state, ...rest } = makeResponse()
+
+    const { response, repairs } = parseAIResponse(JSON.stringify(rest), request)
+    expect(repairs).toContain('game_state')
+    expect(response.game_state).toMatchObject({
+      act: 3,
+      flags: ['found_letter'],
+      relationships: { maid: -5 },
+      inventory: ['letter'],
+      personality_traits: { riskTaking: 60 }
+    })
+  })
+
+  it('keeps the fields a partial game state does have', () => {
+    const content = JSON.stringify(makeResponse({ game_state: { gameState: null, flags: ['new_flag'], act: 'two' } }))
+
+    const { response } = parseAIResponse(content, makeRequest())
+    expect(response.game_state.flags).toEqual(['new_flag'])
+    expect(response.game_state.act).toBe(1)
+    expect(response.game_state.inventory).toEqual([])
+    expect(response.game_state.personality_traits).toMatchObject({ riskTaking: 50, empathy: 50 })
+  })
+
+  it('reads camelCase ending flags', () => {
+    const { is_ending, ...rest } = makeResponse()
+    const { response, repairs } = parseAIResponse(JSON.stringify({ ...rest, isEnding: true }), makeRequest())
+    expect(response.is_ending).toBe(true)
+    expect(repairs).toContain('is_ending')
+  })
+})
+
+describe('extractJson', () => {
+  it('returns the content unchanged when there is no object', () => {
+    expect(extractJson('no json here')).toBe('no json here')
+  })
+})
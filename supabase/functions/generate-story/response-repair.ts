@@ -0,0 +1,177 @@
+import { StoryGenerationRequest, AIStoryResponse, validateStoryResponse } from './types.ts'
+import { generateChoiceSlug } from './choice-utils.ts'
+
+// Why an attempt's output couldn't be used as-is, recorded for monitoring
+export type GenerationFailureReason =
+  | 'provider_error'
+  | 'empty_response'
+  | 'invalid_json'
+  | 'schema_violation'
+  | 'moderation_blocked'
+
+/**
+ * Model output that couldn't be turned into a story response, with the reason
+ */
+export class GenerationFailure extends Error {
+  constructor(
+    public reason: GenerationFailureReason,
+    message: string
+  ) {
+    super(message)
+    this.name = 'GenerationFailure'
+  }
+}
+
+const DEFAULT_TRAITS = {
+  riskTaking: 50,
+  empathy: 50,
+  pragmatism: 50,
+  creativity: 50,
+  leadership: 50
+}
+
+/**
+ * Parse and validate model output. Output that fails validation gets a repair
+ * pass first, so a fixable response doesn't cost a full retry; `repairs` lists
+ * what was fixed.
+ */
+export function parseAIResponse(
+  content: string,
+  request: StoryGenerationRequest
+): { response: AIStoryResponse; repairs: string[] } {
+  if (!content.trim()) {
+    throw new GenerationFailure('empty_response', 'Empty response from provider')
+  }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(extractJson(content))
+  } catch (error) {
+    throw new GenerationFailure('invalid_json', `Invalid JSON response: ${error.message}`)
+  }
+
+  try {
+    return { response: validateStoryResponse(parsed), repairs: [] }
+  } catch (error) {
+    const repaired = repairStoryResponse(parsed, request)
+    if (!repaired) {
+      throw new GenerationFailure('schema_violation', error.message)
+    }
+
+    try {
+      return { response: validateStoryResponse(repaired.response), repairs: repaired.repairs }
+    } catch (repairError) {
+      throw new GenerationFailure('schema_violation', repairError.message)
+    }
+  }
+}
+
+/**
+ * The JSON object in a response, without markdown fences or surrounding prose
+ */
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const body = fenced ? fenced[1] : content
+
+  const start = body.indexOf('{')
+  const end = body.lastIndexOf('}')
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body
+}
+
+/**
+ * Fill in what a response is missing with the same rules as the client's
+ * StoryValidator.repairChoice/repairGameState. Returns null when the story
+ * text itself is missing, since that can't be made up.
+ */
+function repairStoryResponse(
+  data: any,
+  request: StoryGenerationRequest
+): { response: any; repairs: string[] } | null {
+  if (typeof data !== 'object' || data === null) return null
+
+  const repairs: string[] = []
+  const storyText = [data.story_text, data.storyText, data.story, data.narrative]
+    .find(value => typeof value === 'string' && value.trim())
+  if (!storyText) return null
+  if (storyText !== data.story_text) repairs.push('story_text')
+
+  const rawChoices: any[] = Array.isArray(data.choices) ? data.choices : []
+  const choices = rawChoices
+    .map((choice, index) => repairChoice(choice, index))
+    .filter((choice): choice is NonNullable<ReturnType<typeof repairChoice>> => !!choice)
+  if (choices.length !== rawChoices.length || rawChoices.some((choice, index) => !isCompleteChoice(choice, index))) {
+    repairs.push('choices')
+  }
+
+  const rawState = data.game_state || data.gameState
+  const gameState = repairGameState(rawState, request)
+  if (rawState !== data.game_state || !isCompleteGameState(rawState)) {
+    repairs.push('game_state')
+  }
+
+  const isEnding = typeof data.is_ending === 'boolean' ? data.is_ending : data.isEnding === true
+  if (typeof data.is_ending !== 'boolean') repairs.push('is_ending')
+
+  return {
+    response: {
+      ...data,
+      story_text: storyText,
+      choices,
+      game_state: gameState,
+      is_ending: isEnding
+    },
+    repairs
+  }
+}
+
+function repairChoice(choice: any, index: number): AIStoryResponse['choices'][number] | null {
+  if (typeof choice !== 'object' || choice === null) return null
+
+  const text = choice.text || choice.description || choice.option
+  if (typeof text !== 'string' || !text.trim()) return null
+
+  return {
+    ...choice,
+    id: choice.id || choice.option_id || String.fromCharCode(65 + index), // A, B, C, D
+    text,
+    slug: choice.slug || choice.choice_slug || generateChoiceSlug(text) || `choice_${index + 1}`,
+    consequences: Array.isArray(choice.consequences) ? choice.consequences : undefined,
+    traits_impact: typeof choice.traits_impact === 'object' ? choice.traits_impact : undefined
+  }
+}
+
+function isCompleteChoice(choice: any, index: number): boolean {
+  const repaired = repairChoice(choice, index)
+  return !!repaired && repaired.id === choice.id && repaired.text === choice.text && repaired.slug === choice.slug
+}
+
+/**
+ * Missing fields fall back to the state the step started from, then to defaults
+ */
+function repairGameState(data: any, request: StoryGenerationRequest): AIStoryResponse['game_state'] {
+  const state = typeof data === 'object' && data !== null ? data : {}
+  const previous = request.gameState
+  const traits = state.personality_traits || state.personalityTraits
+
+  return {
+    ...state,
+    act: typeof state.act === 'number' ? state.act : previous?.act || 1,
+    flags: Array.isArray(state.flags) ? state.flags : previous?.flags || [],
+    relationships: typeof state.relationships === 'object' && state.relationships !== null
+      ? state.relationships
+      : previous?.relationships || {},
+    inventory: Array.isArray(state.inventory) ? state.inventory : previous?.inventory || [],
+    personality_traits: typeof traits === 'object' && traits !== null
+      ? traits
+      : previous?.personalityTraits || DEFAULT_TRAITS
+  }
+}
+
+function isCompleteGameState(data: any): boolean {
+  return typeof data === 'object' && data !== null &&
+    typeof data.act === 'number' &&
+    Array.isArray(data.flags) &&
+    typeof data.relationships === 'object' &&
+    Array.isArray(data.inventory) &&
+    typeof data.personality_traits === 'object'
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { generateStoryContent } from './story-generator.ts'
+import { parseConsequences } from '../../../src/lib/utils/consequences.ts'
+import type { StoryGenerationRequest } from './types.ts'
+
+/**
+ * Enough of the client for a generation: no open circuits, and writes succeed
+ */
+function createFakeSupabase() {
+  return {
+    from: () => ({
+      select: () => ({ in: async () => ({ data: [], error: null }) }),
+      insert: async () => ({ error: null })
+    }),
+    rpc: async () => ({ data: null, error: null })
+  }
+}
+
+function makeRequest(overrides: Partial<StoryGenerationRequest> = {}): StoryGenerationRequest {
+  return {
+    genre: 'fantasy',
+    length: 'standard',
+    challenge: 'casual',
+    sessionId: 'session-1',
+    provider: 'mock',
+    currentStep: 3,
+    previousChoice: 'Study the situation carefully',
+    gameState: {
+      act: 1,
+      flags: ['story_started'],
+      relationships: {},
+      inventory: [],
+      personalityTraits: { riskTaking: 50, empathy: 50, pragmatism: 50, creativity: 50, leadership: 50 },
+      stats: { resolve: 7 },
+      counters: { mock_study: 1 }
+    },
+    ...overrides
+  }
+}
+
+beforeEach(() => {
+  // Mock output is far below the word count, so don't spend a regeneration on it
+  const env: Record<string, string> = { QUALITY_MIN_SCORE: '0' }
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } })
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('generateStoryContent', () => {
+  it('produces consequences the client can parse', async () => {
+    const { story, provider } = await generateStoryContent(makeRequest(), createFakeSupabase())
+    expect(provider).toBe('mock')
+
+    const consequences = story.choices.flatMap(choice => choice.consequences || [])
+    const { consequences: parsed, errors } = parseConsequences(consequences)
+
+    expect(errors).toEqual([])
+    expect(parsed.map(consequence => consequence.effect.action)).toEqual(
+      expect.arrayContaining(['add_flag', 'modify_stat', 'modify_relationship', 'increment_counter'])
+    )
+    expect(parsed.find(consequence => consequence.conditions.length > 0)?.conditions).toEqual([
+      { type: 'counter', name: 'mock_study', operator: '>=', value: 2 },
+      { type: 'flag', name: 'mock_expert', negate: true }
+    ])
+  })
+
+  it('passes stats and counters through to the game state', async () => {
+    const { story } = await generateStoryContent(makeRequest(), createFakeSupabase())
+    expect(story.gameState.stats).toEqual({ resolve: 7 })
+    expect(story.gameState.counters).toEqual({ mock_study: 1 })
+  })
+  it('keeps the relationship change a typed action made', async () => {
+    const { story } = await generateStoryContent(makeRequest({ customAction: 'Share my rations' }), createFakeSupabase())
+    expect(story.customActionOutcome).toEqual({
+      consequences: ['modify_relationship:mock_companion:3'],
+      traitsImpact: { creativity: 2 }
+    })
+  })
+})
@@ -1,44 +1,127 @@
 // @ts-ignore: Deno ESM import
-import { StoryGenerationRequest, StoryResponse, StoryGenerationResult, validateStoryResponse, AIStoryResponse } from './types.ts'
+import { StoryGenerationRequest, StoryResponse, StoryGenerationResult, StreamHandlers, AIStoryResponse, AI_STORY_RESPONSE_SCHEMA } from './types.ts'
 import { getPromptTemplate } from './prompt-templates.ts'
 import { getFallbackContent } from './fallback-content.ts'
 import { generateChoiceSlug, generateDecisionKeyHash } from './choice-utils.ts'
-import { applyContentSafetyFilter } from './content-safety.ts'
+import { moderateStory, createStreamingSafetyFilter } from './content-safety.ts'
+import { getRevisionNotes, logModerationAudit, ModerationResult } from './moderation.ts'
+import { resolveContentSettings } from './content-rating.ts'
+import { getProviderChain, LLMProvider, GenerationOptions } from './llm-providers.ts'
+import { getProviderCircuits, acquireProvider, recordProviderSuccess, recordProviderFailure, ProviderCircuit } from './circuit-breaker.ts'
+import { PromptTemplate } from './prompt-templates.ts'
+import { StoryTextExtractor } from './streaming.ts'
+import { deriveSeed } from './seeded-random.ts'
+import { isCacheable, getPathHash, getCachedStory, cacheStory } from './response-cache.ts'
+import { parseAIResponse, GenerationFailure } from './response-repair.ts'
+import { logGenerationFailure } from './usage-tracker.ts'
+import { scoreStoryQuality, getMinQualityScore } from './quality-scorer.ts'
 
-// @ts-ignore: Deno global
-const GEMINI_API_KEY = Deno.env.get('OPENAI_API_KEY') // Using same env var for compatibility
 const MAX_RETRIES = 3
+const GENERATION_OPTIONS: GenerationOptions = {
+  temperature: 0.8,
+  maxOutputTokens: 1500,
+  responseSchema: AI_STORY_RESPONSE_SCHEMA
+}
+
+// The only effects a player's typed action may have
+const PLAYER_ACTION_TRAITS = ['riskTaking', 'empathy', 'pragmatism', 'creativity', 'leadership']
+const PLAYER_ACTION_CONSEQUENCE = /^modify_relationship:[^:\s]+:-?\d+$/
 
+/**
+ * Generate the next story segment. When stream handlers are passed, story text
+ * is reported incrementally as the model produces it.
+ */
 export async function generateStoryContent(
   request: StoryGenerationRequest,
-  supabase: any
+  supabase: any,
+  streamHandlers?: StreamHandlers
 ): Promise<StoryGenerationResult> {
   let lastError: Error | null = null
+  const pathHash = isCacheable(request) ? await getPathHash(supabase, request) : null
+
+  // Serve a step another run already generated for the same path
+  if (pathHash) {
+    const cachedStory = await getCachedStory(supabase, request, pathHash)
+    if (cachedStory) {
+      streamHandlers?.onText(cachedStory.storyText)
+      return {
+        story: cachedStory,
+        tokensUsed: 0,
+        cached: true
+      }
+    }
+  }
+
+  const providers = getProviderChain(request)
+  const circuits = await getProviderCircuits(supabase, providers.map(provider => provider.name))
+  const erroredProviders = new Set<string>()
 
   // Try AI generation with retries
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    const provider = await selectProvider(supabase, providers, circuits, erroredProviders)
+
+    // Every provider's circuit is open; retrying would only add latency
+    if (!provider) {
+      console.log('No provider available, using fallback content')
+      return getFallbackResult(request, supabase)
+    }
+
     try {
-      const result = await attemptAIGeneration(request, attempt)
+      // Discard partial text a failed streaming attempt already sent
+      if (attempt > 1) {
+        streamHandlers?.onReset()
+      }
 
-      // Apply content safety filters
-      const filteredResult = await applyContentSafetyFilter(result.story, request.challenge)
+      const { repairs, ...firstResult } = await attemptAIGeneration(request, provider, attempt, streamHandlers)
+      await recordProviderSuccess(supabase, circuits[provider.name])
 
-      return {
-        story: filteredResult,
-        tokensUsed: result.tokensUsed
+      // Repaired output is used, but still recorded so repair rates show up in monitoring
+      if (repairs.length > 0) {
+        await logGenerationFailure(supabase, {
+          sessionId: request.sessionId,
+          genre: request.genre,
+          provider: firstResult.provider,
+          attempt,
+          reason: 'schema_violation',
+          detail: `Repaired: ${repairs.join(', ')}`,
+          repaired: true
+        })
+      }
+
+      const scoredResult = await ensureQuality(request, provider, attempt, firstResult, supabase, streamHandlers)
+      const result = await ensureSafety(request, provider, attempt, scoredResult, supabase, streamHandlers)
+
+      // Only model output is cached; fallback content is never stored
+      if (pathHash) {
+        await cacheStory(supabase, request, pathHash, result.story)
       }
+
+      return result
     } catch (error) {
       console.warn(`AI generation attempt ${attempt} failed:`, error.message)
       lastError = error
 
-      // If this is the last attempt, fall back to pre-generated content
-      if (attempt === MAX_RETRIES) {
+      await logGenerationFailure(supabase, {
+        sessionId: request.sessionId,
+        genre: request.genre,
+        provider: provider.name,
+        attempt,
+        reason: error instanceof GenerationFailure ? error.reason : 'provider_error',
+        detail: error.message,
+        repaired: false
+      })
+
+      // Only errors from the provider itself count against its circuit; output
+      // problems mean it is up. The next attempt fails over to another provider.
+      if (!(error instanceof GenerationFailure)) {
+        erroredProviders.add(provider.name)
+        await recordProviderFailure(supabase, circuits[provider.name], error.message)
+      }
+
+      // If this is the last attempt, or moderation rejected the step, fall back to pre-generated content
+      if (attempt === MAX_RETRIES || (error instanceof GenerationFailure && error.reason === 'moderation_blocked')) {
         console.log('All AI attempts failed, using fallback content')
-        const fallbackStory = await getFallbackContent(request, supabase)
-        return {
-          story: fallbackStory,
-          tokensUsed: 0 // No tokens used for fallback
-        }
+        return getFallbackResult(request, supabase)
       }
     }
   }
@@ -47,79 +130,236 @@ export async function generateStoryContent(
   throw lastError || new Error('Story generation failed')
 }
 
-async function attemptAIGeneration(
+/**
+ * The first provider whose circuit allows a call, preferring one that hasn't
+ * already errored during this request. Circuits are checked one at a time so a
+ * half-open trial is only claimed for the provider that will actually be called.
+ */
+async function selectProvider(
+  supabase: any,
+  providers: LLMProvider[],
+  circuits: Record<string, ProviderCircuit>,
+  erroredProviders: Set<string>
+): Promise<LLMProvider | null> {
+  const candidates = [
+    ...providers.filter(provider => !erroredProviders.has(provider.name)),
+    ...providers.filter(provider => erroredProviders.has(provider.name))
+  ]
+
+  for (const provider of candidates) {
+    if (await acquireProvider(supabase, circuits[provider.name])) return provider
+  }
+
+  return null
+}
+
+async function getFallbackResult(request: StoryGenerationRequest, supabase: any): Promise<StoryGenerationResult> {
+  const fallbackStory = await getFallbackContent(request, supabase)
+  return {
+    story: fallbackStory,
+    tokensUsed: 0 // No tokens used for fallback
+  }
+}
+
+/**
+ * Score a generated step and, when it falls below QUALITY_MIN_SCORE, regenerate it
+ * once with the scorer's issues in the prompt. The better of the two is kept and
+ * the score is attached to the story so it is stored with the step.
+ */
+async function ensureQuality(
   request: StoryGenerationRequest,
-  attempt: number
+  provider: LLMProvider,
+  attempt: number,
+  result: StoryGenerationResult,
+  supabase: any,
+  streamHandlers?: StreamHandlers
 ): Promise<StoryGenerationResult> {
-  if (!GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable is not set')
-  }
-
-  const prompt = getPromptTemplate(request, attempt)
-
-  // Combine system and user prompts for Gemini
-  const combinedPrompt = `${prompt.systemPrompt}\n\n${prompt.userPrompt}\n\nPlease respond with valid JSON only.`
-
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${GEMINI_API_KEY}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            {
-              text: combinedPrompt
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.8,
-        maxOutputTokens: 1500,
-        topP: 0.8,
-        topK: 10
-      }
-    })
+  const quality = scoreStoryQuality(result.story, request)
+  if (quality.score >= getMinQualityScore()) {
+    return { ...result, story: { ...result.story, quality } }
+  }
+
+  let best = { result, quality }
+  let tokensUsed = result.tokensUsed
+
+  try {
+    streamHandlers?.onReset()
+    const retry = await attemptAIGeneration(request, provider, attempt, streamHandlers, quality.issues)
+    const retryQuality = scoreStoryQuality(retry.story, request)
+    tokensUsed += retry.tokensUsed
+
+    if (retryQuality.score > quality.score) {
+      best = { result: retry, quality: retryQuality }
+    }
+  } catch (error) {
+    console.warn('Quality regeneration failed, keeping the first draft:', error.message)
+  }
+
+  await logGenerationFailure(supabase, {
+    sessionId: request.sessionId,
+    genre: request.genre,
+    provider: result.provider,
+    attempt,
+    reason: 'low_quality',
+    detail: `Score ${quality.score} -> ${best.quality.score}: ${quality.issues.join('; ')}`,
+    repaired: best.quality.score > quality.score
   })
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(`Gemini API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`)
+  return {
+    story: { ...best.result.story, quality: { ...best.quality, regenerated: true } },
+    tokensUsed,
+    provider: best.result.provider
   }
+}
+
+/**
+ * Moderate a generated step and act on the policy for the player's content settings.
+ * Softening happens in place; a step that needs regenerating gets one more try
+ * with revision notes in the prompt. A blocked step, or a regeneration that still
+ * isn't acceptable, fails with moderation_blocked. Every decision is audited.
+ */
+async function ensureSafety(
+  request: StoryGenerationRequest,
+  provider: LLMProvider,
+  attempt: number,
+  result: StoryGenerationResult,
+  supabase: any,
+  streamHandlers?: StreamHandlers
+): Promise<StoryGenerationResult> {
+  const settings = resolveContentSettings(request)
+  const audit = (moderation: ModerationResult) => logModerationAudit(supabase, {
+    sessionId: request.sessionId,
+    storyRunId: request.storyRunId,
+    stepNumber: request.currentStep || 1,
+    subject: 'story',
+    challenge: request.challenge,
+    contentRating: settings.rating,
+    result: moderation
+  })
 
-  const data = await response.json()
-  const content = data.candidates?.[0]?.content?.parts?.[0]?.text
+  const { story, moderation } = await moderateStory(result.story, settings)
+  await audit(moderation)
 
-  if (!content) {
-    throw new Error('No content received from Gemini')
+  if (moderation.action === 'allow' || moderation.action === 'soften') {
+    return { ...result, story }
   }
 
-  // Extract JSON from response (Gemini might wrap it in markdown)
-  let jsonContent = content
-  const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/)
-  if (jsonMatch) {
-    jsonContent = jsonMatch[1]
+  if (moderation.action === 'block') {
+    throw new GenerationFailure('moderation_blocked', `Blocked by moderation: ${moderation.flagged.join(', ')}`)
   }
 
-  // Parse and validate JSON response
-  let parsedResponse: any
-  try {
-    parsedResponse = JSON.parse(jsonContent)
-  } catch (error) {
-    throw new Error(`Invalid JSON response: ${error.message}`)
+  streamHandlers?.onReset()
+  const retry = await attemptAIGeneration(
+    request,
+    provider,
+    attempt,
+    streamHandlers,
+    getRevisionNotes(moderation, settings)
+  )
+  const revised = await moderateStory(retry.story, settings)
+  await audit(revised.moderation)
+
+  if (revised.moderation.action === 'regenerate' || revised.moderation.action === 'block') {
+    throw new GenerationFailure(
+      'moderation_blocked',
+      `Regeneration still flagged by moderation: ${revised.moderation.flagged.join(', ')}`
+    )
+  }
+
+  return {
+    story: { ...revised.story, quality: scoreStoryQuality(revised.story, request) },
+    tokensUsed: result.tokensUsed + retry.tokensUsed,
+    provider: retry.provider
   }
+}
+
+async function attemptAIGeneration(
+  request: StoryGenerationRequest,
+  provider: LLMProvider,
+  attempt: number,
+  streamHandlers?: StreamHandlers,
+  revisionNotes?: string[]
+): Promise<StoryGenerationResult & { repairs: string[] }> {
+  const prompt = getPromptTemplate(request, attempt, revisionNotes)
+  // Each retry gets its own seed so a seeded run doesn't repeat a failed attempt
+  const options: GenerationOptions = request.seed !== undefined
+    ? { ...GENERATION_OPTIONS, seed: deriveSeed(request.seed, attempt) }
+    : GENERATION_OPTIONS
 
-  // Validate response structure
-  const validatedResponse = validateStoryResponse(parsedResponse)
+  const { content, tokensUsed } = streamHandlers && provider.stream
+    ? await streamFromProvider(provider, request, prompt, options, streamHandlers)
+    : await provider.generate(request, prompt, options)
+
+  // Parse and validate, repairing fixable output instead of spending a retry
+  const { response: validatedResponse, repairs } = parseAIResponse(content, request)
 
   // Transform to our internal format
   const story = transformAIResponse(validatedResponse, request)
 
   return {
     story,
-    tokensUsed: data.usageMetadata?.totalTokenCount || 0
+    tokensUsed,
+    provider: provider.name,
+    repairs
+  }
+}
+
+/**
+ * Consume a provider stream, forwarding safety-filtered story text as it arrives
+ */
+async function streamFromProvider(
+  provider: LLMProvider,
+  request: StoryGenerationRequest,
+  prompt: PromptTemplate,
+  options: GenerationOptions,
+  streamHandlers: StreamHandlers
+): Promise<{ content: string; tokensUsed: number }> {
+  const extractor = new StoryTextExtractor()
+  const safetyFilter = createStreamingSafetyFilter(resolveContentSettings(request))
+  let tokensUsed = 0
+
+  for await (const chunk of provider.stream!(request, prompt, options)) {
+    if (chunk.tokensUsed) {
+      tokensUsed = chunk.tokensUsed
+    }
+
+    if (chunk.text) {
+      const delta = safetyFilter.push(extractor.push(chunk.text))
+      if (delta) {
+        streamHandlers.onText(delta)
+      }
+    }
+  }
+
+  const rest = safetyFilter.flush()
+  if (rest) {
+    streamHandlers.onText(rest)
+  }
+
+  return { content: extractor.content, tokensUsed }
+}
+
+/**
+ * What a typed action did, limited to relationship changes and trait impact so
+ * free text can't grant items, set flags or move the story to another act.
+ * The client clamps the values again before applying them.
+ */
+function transformPlayerAction(action: AIStoryResponse['player_action']): StoryResponse['customActionOutcome'] {
+  const traitsImpact: Record<string, number> = {}
+  if (action?.traits_impact && typeof action.traits_impact === 'object') {
+    for (const [trait, impact] of Object.entries(action.traits_impact)) {
+      if (PLAYER_ACTION_TRAITS.includes(trait) && typeof impact === 'number') {
+        traitsImpact[trait] = impact
+      }
+    }
+  }
+
+  return {
+    consequences: Array.isArray(action?.consequences)
+      ? action.consequences.filter(consequence =>
+          typeof consequence === 'string' && PLAYER_ACTION_CONSEQUENCE.test(consequence.trim()))
+      : [],
+    traitsImpact
   }
 }
 
@@ -130,7 +370,12 @@ function transformAIResponse(aiResponse: AIStoryResponse, request: StoryGenerati
     text: choice.text,
     slug: choice.slug || generateChoiceSlug(choice.text),
     consequences: choice.consequences,
-    traits_impact: choice.traits_impact || {}
+    traits_impact: choice.traits_impact || {},
+    requires: Array.isArray(choice.requires)
+      ? choice.requires.filter(requirement => typeof requirement === 'string')
+      : undefined,
+    locked_hint: typeof choice.locked_hint === 'string' ? choice.locked_hint : undefined,
+    is_default: choice.is_default === true ? true : undefined
   }))
 
   // Transform game state
@@ -139,7 +384,9 @@ function transformAIResponse(aiResponse: AIStoryResponse, request: StoryGenerati
     flags: aiResponse.game_state.flags,
     relationships: aiResponse.game_state.relationships,
     inventory: aiResponse.game_state.inventory,
-    personalityTraits: aiResponse.game_state.personality_traits
+    personalityTraits: aiResponse.game_state.personality_traits,
+    stats: toNumberRecord(aiResponse.game_state.stats),
+    counters: toNumberRecord(aiResponse.game_state.counters)
   }
 
   // Safely cast ending_type to EndingType
@@ -154,6 +401,32 @@ function transformAIResponse(aiResponse: AIStoryResponse, request: StoryGenerati
     gameState,
     isEnding: aiResponse.is_ending,
     endingType,
-    endingTag: aiResponse.ending_tag
+    endingTag: aiResponse.ending_tag,
+    storySummary: typeof aiResponse.story_summary === 'string' && aiResponse.story_summary.trim()
+      ? aiResponse.story_summary.trim()
+      : undefined,
+    newCharacters: Array.isArray(aiResponse.characters)
+      ? aiResponse.characters
+          .filter(character => character && typeof character.name === 'string' && character.name.trim())
+          .map(character => ({
+            name: character.name.trim(),
+            bio: typeof character.bio === 'string' ? character.bio.trim() : ''
+          }))
+      : undefined,
+    customActionOutcome: request.customAction ? transformPlayerAction(aiResponse.player_action) : undefined,
+    // Deadlines are only honoured when the run opted into timed choices
+    timeLimitSeconds: request.timedChoices && typeof aiResponse.time_limit_seconds === 'number' && aiResponse.time_limit_seconds > 0
+      ? aiResponse.time_limit_seconds
+      : undefined
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Numeric entries of a stats or counters object; undefined when there are none
+ */
+function toNumberRecord(value: unknown): Record<string, number> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined
+
+  const entries = Object.entries(value).filter(([, entry]) => typeof entry === 'number' && isFinite(entry))
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
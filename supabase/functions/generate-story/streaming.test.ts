@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { StoryTextExtractor, encodeStreamEvent } from './streaming.ts'
+
+function extract(chunks: string[]): { outputs: string[]; text: string } {
+  const extractor = new StoryTextExtractor()
+  const outputs = chunks.map(chunk => extractor.push(chunk))
+  return { outputs, text: outputs.join('') }
+}
+
+/**
+ * Every way of splitting the input in two, so escapes and characters are cut at each position
+ */
+function splits(input: string): string[][] {
+  return Array.from({ length: input.length + 1 }, (_, index) => [input.slice(0, index), input.slice(index)])
+}
+
+describe('StoryTextExtractor', () => {
+  it('emits story text as it arrives', () => {
+    const { outputs } = extract(['{"story_', 'text": "The door', ' creaks open.", "choices": []}'])
+    expect(outputs).toEqual(['', 'The door', ' creaks open.'])
+  })
+
+  it('ignores text after the story_text value', () => {
+    const { text } = extract(['{"story_text":"Done.","choices":[{"text":"more prose"}]}'])
+    expect(text).toBe('Done.')
+  })
+
+  it('decodes escaped quotes without ending the string', () => {
+    const { text } = extract(['{"story_text": "She whispered \\"run\\" and ', 'vanished.\\nThe end."}'])
+    expect(text).toBe('She whispered "run" and vanished.\nThe end.')
+  })
+
+  it('handles escapes split at every position', () => {
+    const json = '{"story_text": "A \\"quoted\\" line\\\\path\\ttab \\u00e9t\\u00e9."}'
+    for (const chunks of splits(json)) {
+      expect(extract(chunks).text).toBe('A "quoted" line\\path\ttab été.')
+    }
+  })
+
+  it('never splits an escaped surrogate pair across outputs', () => {
+    const json = '{"story_text": "Fire \\ud83d\\udd25 here"}'
+    for (const chunks of splits(json)) {
+      const { outputs, text } = extract(chunks)
+      expect(text).toBe('Fire 🔥 here')
+      expect(outputs.some(output => /[\ud800-\udbff]$/.test(output))).toBe(false)
+    }
+  })
+
+  it('never splits a raw surrogate pair across outputs', () => {
+    const json = '{"story_text": "Moon 🌙 rise"}'
+    for (const chunks of splits(json)) {
+      const { outputs, text } = extract(chunks)
+      expect(text).toBe('Moon 🌙 rise')
+      expect(outputs.some(output => /[\ud800-\udbff]$/.test(output))).toBe(false)
+    }
+  })
+
+  it('returns what it has when the response is truncated', () => {
+    const extractor = new StoryTextExtractor()
+    expect(extractor.push('{"story_text": "The bridge gives wa')).toBe('The bridge gives wa')
+    expect(extractor.push('y beneath')).toBe('y beneath')
+    expect(extractor.content).toBe('{"story_text": "The bridge gives way beneath')
+  })
+
+  it('waits for an escape cut off at the end of a chunk', () => {
+    const extractor = new StoryTextExtractor()
+    expect(extractor.push('{"story_text": "Line one\\')).toBe('Line one')
+    expect(extractor.push('nLine two"}')).toBe('\nLine two')
+  })
+
+  it('emits nothing when the response has no story_text', () => {
+    expect(extract(['{"choices": [', ']}']).text).toBe('')
+  })
+})
+
+describe('encodeStreamEvent', () => {
+  it('encodes an event as a server-sent event frame', () => {
+    const frame = new TextDecoder().decode(encodeStreamEvent({ type: 'text', delta: 'Hi "there"' }))
+    expect(frame).toBe('event: text\ndata: {"delta":"Hi \\"there\\""}\n\n')
+  })
+})
@@ -0,0 +1,95 @@
+import { StoryStreamEvent } from './types.ts'
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+}
+
+/**
+ * Incrementally decodes the "story_text" value out of a partial JSON response,
+ * so prose can be shown while the rest of the object is still being generated.
+ */
+export class StoryTextExtractor {
+  private buffer = ''
+  private position = -1
+  private finished = false
+
+  /**
+   * Add a raw model chunk and return any newly decoded story text
+   */
+  push(chunk: string): string {
+    this.buffer += chunk
+    if (this.finished) return ''
+
+    if (this.position < 0) {
+      const match = /"story_text"\s*:\s*"/.exec(this.buffer)
+      if (!match) return ''
+      this.position = match.index + match[0].length
+    }
+
+    let output = ''
+    while (this.position < this.buffer.length) {
+      const char = this.buffer[this.position]
+
+      if (char === '"') {
+        this.finished = true
+        break
+      }
+
+      if (char === '\\') {
+        const next = this.buffer[this.position + 1]
+        if (next === undefined) break // Wait for the rest of the escape sequence
+
+        if (next === 'u') {
+          const hex = this.buffer.slice(this.position + 2, this.position + 6)
+          if (hex.length < 4) break
+          const code = parseInt(hex, 16)
+          // Keep an escaped surrogate pair together so a chunk never ends in half a character
+          if (isHighSurrogate(code)) {
+            const following = this.buffer.slice(this.position + 6, this.position + 12)
+            if (following.length < 2 || (following.startsWith('\\u') && following.length < 6)) break
+          }
+          output += String.fromCharCode(code)
+          this.position += 6
+          continue
+        }
+
+        output += JSON_ESCAPES[next] ?? next
+        this.position += 2
+        continue
+      }
+
+      if (isHighSurrogate(char.charCodeAt(0)) && this.position + 1 >= this.buffer.length) break
+
+      output += char
+      this.position++
+    }
+
+    return output
+  }
+
+  /**
+   * Everything received so far, for parsing once the stream completes
+   */
+  get content(): string {
+    return this.buffer
+  }
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
+
+/**
+ * Encode a stream event as a server-sent event frame
+ */
+export function encodeStreamEvent(event: StoryStreamEvent): Uint8Array {
+  const { type, ...data } = event
+  return new TextEncoder().encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+}
@@ -11,8 +11,64 @@ export interface StoryGenerationRequest {
   previousChoice?: string
   storyArc?: any // StoryArc type from story-arc.ts
   storyGuidance?: string
+  storyContext?: StoryContext
+  refreshSummary?: boolean // Also return an updated "story so far" recap
+  nextAnchor?: AnchorGoal // Hybrid stories: authored beat this step should steer towards
+  timedChoices?: boolean // Urgent steps may carry a decision deadline
+  customAction?: string // Free-text action the player typed instead of picking a choice
+  seed?: number // Per-step seed derived from the run's seed, for reproducible generation
+  draft?: DraftTarget // Step and choice this continues; served from a pre-generated draft when one matches
+  pregenerate?: StoryGenerationRequest[] // Premium: queue drafts for these continuations instead of generating
+  provider?: ProviderName
+  stream?: boolean // Respond with server-sent events instead of a single JSON body
+  contentSettings?: ContentSettings // Set by the handler from the user's profile; never taken from the client
 }
 
+// Audience rating and the themes it allows (mirrors ContentSettings in src/types/story.ts)
+export type ContentRating = 'kids' | 'teen' | 'mature'
+
+export interface ContentSettings {
+  rating: ContentRating
+  violence: boolean
+  romance: boolean
+  fear: boolean
+}
+
+// Choice on a rendered step that a speculative draft continues
+export interface DraftTarget {
+  stepId: string
+  choiceId: string
+}
+
+// Rolling memory of earlier steps (built by StoryContextBuilder on the client)
+export interface StoryContext {
+  summary: string
+  recentSteps: {
+    stepNumber: number
+    storyText: string
+    choiceText?: string
+    choiceSlug?: string
+    consequences?: string[]
+  }[]
+  previousChoices: string[]
+  characters: string[]
+  inventory: string[]
+  flags: string[]
+}
+
+// Next authored beat in a hybrid story (mirrors AnchorGoal in src/types/story.ts)
+export interface AnchorGoal {
+  anchorId: string
+  goal: string
+  phase?: 'setup' | 'rising_action' | 'climax' | 'resolution'
+  requiredFlags: string[]
+  missingFlags: string[]
+  stepsRemaining: number
+}
+
+// Model backends available to the generation loop
+export type ProviderName = 'gemini' | 'openai' | 'mock'
+
 export interface StoryResponse {
   storyText: string
   choices: Choice[]
@@ -20,6 +76,24 @@ export interface StoryResponse {
   isEnding: boolean
   endingType?: EndingType
   endingTag?: string
+  storySummary?: string
+  newCharacters?: { name: string; bio: string }[]
+  timeLimitSeconds?: number // Decision deadline for urgent steps in timed runs
+  customActionOutcome?: { consequences: string[]; traitsImpact: Record<string, number> }
+  quality?: QualityReport // Set on model output; fallback content isn't scored
+}
+
+// Generation quality score (0-100) with each check's 0-1 result
+export interface QualityReport {
+  score: number
+  checks: {
+    choiceDiversity: number
+    textLength: number
+    traitsImpact: number
+    arcPhase: number
+  }
+  issues: string[]
+  regenerated?: boolean // A low first score triggered a targeted regeneration
 }
 
 export interface Choice {
@@ -28,6 +102,9 @@ export interface Choice {
   slug: string // Stable identifier like "trust_stranger"
   consequences?: string[]
   traits_impact?: Record<string, number>
+  requires?: string[] // Conditions on game state, e.g. "item:magic_sword"
+  locked_hint?: string // Shown when the requirements aren't met
+  is_default?: boolean // Taken automatically when a timed step runs out
 }
 
 export interface GameState {
@@ -36,6 +113,8 @@ export interface GameState {
   relationships: Record<string, number>
   inventory: string[]
   personalityTraits: Record<string, number>
+  stats?: Record<string, number> // Numeric stats such as health or gold
+  counters?: Record<string, number>
 }
 
 export type EndingType = 'heroic' | 'tragic' | 'mysterious' | 'triumphant' | 'bittersweet'
@@ -49,6 +128,9 @@ export interface AIStoryResponse {
     slug: string
     consequences?: string[]
     traits_impact?: Record<string, number>
+    requires?: string[]
+    locked_hint?: string
+    is_default?: boolean
   }[]
   game_state: {
     act: number
@@ -56,10 +138,85 @@ export interface AIStoryResponse {
     relationships: Record<string, number>
     inventory: string[]
     personality_traits: Record<string, number>
+    stats?: Record<string, number>
+    counters?: Record<string, number>
   }
   is_ending: boolean
   ending_type?: string
   ending_tag?: string
+  story_summary?: string
+  characters?: { name: string; bio: string }[] // Named characters introduced in this segment
+  time_limit_seconds?: number
+  player_action?: { consequences?: string[]; traits_impact?: Record<string, number> } // Only for custom actions
+}
+
+// Story text word counts asked of the model and checked by the quality scorer
+export const STORY_WORD_RANGES: Record<StoryGenerationRequest['length'], { min: number; max: number }> = {
+  quick: { min: 200, max: 400 },
+  standard: { min: 250, max: 450 },
+  extended: { min: 300, max: 500 }
+}
+
+// JSON schema of AIStoryResponse for providers with structured output. Optional
+// fields stay optional and extra fields are allowed, so it works without strict mode.
+export const AI_STORY_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    story_text: { type: 'string' },
+    choices: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 4,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          text: { type: 'string' },
+          slug: { type: 'string' },
+          consequences: { type: 'array', items: { type: 'string' } },
+          traits_impact: { type: 'object', additionalProperties: { type: 'number' } },
+          requires: { type: 'array', items: { type: 'string' } },
+          locked_hint: { type: 'string' },
+          is_default: { type: 'boolean' }
+        },
+        required: ['id', 'text', 'slug']
+      }
+    },
+    game_state: {
+      type: 'object',
+      properties: {
+        act: { type: 'number' },
+        flags: { type: 'array', items: { type: 'string' } },
+        relationships: { type: 'object', additionalProperties: { type: 'number' } },
+        inventory: { type: 'array', items: { type: 'string' } },
+        personality_traits: { type: 'object', additionalProperties: { type: 'number' } },
+        stats: { type: 'object', additionalProperties: { type: 'number' } },
+        counters: { type: 'object', additionalProperties: { type: 'number' } }
+      },
+      required: ['act', 'flags', 'relationships', 'inventory', 'personality_traits']
+    },
+    is_ending: { type: 'boolean' },
+    ending_type: { type: 'string' },
+    ending_tag: { type: 'string' },
+    story_summary: { type: 'string' },
+    characters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, bio: { type: 'string' } },
+        required: ['name']
+      }
+    },
+    time_limit_seconds: { type: 'number' },
+    player_action: {
+      type: 'object',
+      properties: {
+        consequences: { type: 'array', items: { type: 'string' } },
+        traits_impact: { type: 'object', additionalProperties: { type: 'number' } }
+      }
+    }
+  },
+  required: ['story_text', 'choices', 'game_state', 'is_ending']
 }
 
 // Validation function for AI responses
@@ -121,8 +278,35 @@ export interface TokenUsage {
   requestType: string
 }
 
+// Generation attempt whose output failed or needed repair
+export interface GenerationFailureLog {
+  sessionId: string
+  genre: string
+  provider?: ProviderName
+  attempt: number
+  reason: string
+  detail?: string
+  repaired: boolean
+}
+
 // Story generation result
 export interface StoryGenerationResult {
   story: StoryResponse
   tokensUsed: number
-}
\ No newline at end of file
+  provider?: ProviderName
+  cached?: boolean // Served from the response cache
+  fromDraft?: boolean // Served from a pre-generated draft
+}
+
+// Callbacks for incremental generation
+export interface StreamHandlers {
+  onText: (delta: string) => void
+  onReset: () => void
+}
+
+// Server-sent event frames for streaming responses
+export type StoryStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'reset' }
+  | { type: 'final'; story: StoryResponse; tokensUsed: number }
+  | { type: 'error'; error: string; message?: string }
\ No newline at end of file
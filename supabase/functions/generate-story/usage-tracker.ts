@@ -1,4 +1,4 @@
-import { TokenUsage } from './types.ts'
+import { TokenUsage, GenerationFailureLog } from './types.ts'
 
 /**
  * Log token usage for monitoring and billing
@@ -28,6 +28,36 @@ export async function logTokenUsage(
   }
 }
 
+/**
+ * Record why a generation attempt failed or had to be repaired
+ */
+export async function logGenerationFailure(
+  supabase: any,
+  failure: GenerationFailureLog
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('generation_failures')
+      .insert({
+        session_id: failure.sessionId,
+        genre: failure.genre,
+        provider: failure.provider || null,
+        attempt: failure.attempt,
+        reason: failure.reason,
+        detail: failure.detail?.substring(0, 500) || null,
+        repaired: failure.repaired,
+        created_at: new Date().toISOString()
+      })
+
+    if (error) {
+      console.error('Generation failure logging error:', error)
+      // Don't throw - logging failure shouldn't break the main flow
+    }
+  } catch (error) {
+    console.error('Generation failure logging exception:', error)
+  }
+}
+
 /**
  * Get usage statistics for monitoring
  */
@@ -63,8 +93,16 @@ export async function getUsageStats(
     
     // Aggregate statistics
     const totalTokens = data.reduce((sum: number, log: any) => sum + log.tokens_used, 0)
-    const totalRequests = data.length
+    // Drafts are spent tokens but not player requests; serving one later is logged with zero tokens
+    const totalRequests = data.filter((log: any) => log.request_type !== 'story_pregeneration').length
     const averageTokensPerRequest = totalRequests > 0 ? totalTokens / totalRequests : 0
+    // Cache hits are logged with zero tokens under their own request type
+    const cacheHits = data.filter((log: any) => log.request_type === 'story_generation_cache_hit').length
+    const cacheHitRate = totalRequests > 0 ? cacheHits / totalRequests : 0
+    const pregeneratedTokens = data
+      .filter((log: any) => log.request_type === 'story_pregeneration')
+      .reduce((sum: number, log: any) => sum + log.tokens_used, 0)
+    const draftHits = data.filter((log: any) => log.request_type === 'story_generation_draft_hit').length
     
     const genreBreakdown = data.reduce((acc: any, log: any) => {
       acc[log.genre] = (acc[log.genre] || 0) + log.tokens_used
@@ -76,6 +114,10 @@ export async function getUsageStats(
       totalTokens,
       totalRequests,
       averageTokensPerRequest,
+      cacheHits,
+      cacheHitRate,
+      pregeneratedTokens,
+      draftHits,
       genreBreakdown,
       startTime: startTime.toISOString(),
       endTime: now.toISOString()
@@ -86,6 +128,36 @@ export async function getUsageStats(
   }
 }
 
+/**
+ * Tokens a user has spent today on one request type
+ */
+export async function getDailyTokenUsage(
+  supabase: any,
+  userId: string,
+  requestType: string
+): Promise<number> {
+  try {
+    const startOfDay = `${new Date().toISOString().split('T')[0]}T00:00:00Z`
+
+    const { data, error } = await supabase
+      .from('token_usage_logs')
+      .select('tokens_used')
+      .eq('user_id', userId)
+      .eq('request_type', requestType)
+      .gte('created_at', startOfDay)
+
+    if (error) {
+      console.error('Daily token usage error:', error)
+      return 0
+    }
+
+    return (data || []).reduce((sum: number, log: any) => sum + log.tokens_used, 0)
+  } catch (error) {
+    console.error('Daily token usage exception:', error)
+    return 0
+  }
+}
+
 /**
  * Check if user is approaching their token limits
  */